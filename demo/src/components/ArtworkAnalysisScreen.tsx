@@ -1,11 +1,66 @@
 import React, { useState, useEffect, useRef } from 'react'
 import { useNavigate, useLocation } from 'react-router-dom'
-import { ArrowLeft, Palette, Eye, AlertCircle, Droplets, BookOpen, MessageCircle, Target, Lightbulb, Search } from 'lucide-react'
+import { ArrowLeft, Palette, Eye, AlertCircle, BookOpen, MessageCircle, Lightbulb, Search, CheckCircle, Grid } from 'lucide-react'
 import './ArtworkAnalysisScreen.css'
-import apiService, { ArtworkAnalysis } from '../services/apiService'
+import { analyzeComprehensive } from '../../../packages/core/src/client'
+import type {
+  ComprehensiveEducationalAnalysis,
+  ImageRegion,
+  InitialInsights,
+  RecallData,
+  RecallSource,
+  RegionReference,
+  StageRecord
+} from '../../../packages/core/src/types'
 
-interface ArtworkInfo extends ArtworkAnalysis {
-  analysis: string
+const STAGE_ORDER = ['vision', 'interpretation', 'recall', 'synthesis']
+
+const RECALL_SOURCE_NAMES: Record<string, string> = {
+  colorAnalysis: 'Color analysis',
+  wikipediaData: 'Wikipedia',
+  metMuseumData: 'Met Museum',
+  harvardData: 'Harvard Art Museums',
+  artInstituteData: 'Art Institute of Chicago',
+  artSearchData: 'Art Search',
+  textureAnalysis: 'Texture analysis',
+  compositionAnalysis: 'Composition analysis',
+  emotionalAnalysis: 'Emotional analysis',
+  learningResources: 'Learning resources',
+  similarArtworks: 'Similar artworks'
+}
+
+// A short note on what a recall source found, shown next to its name
+const recallFinding = (source: RecallSource, recallData: Partial<RecallData>): string | null => {
+  switch (source) {
+    case 'wikipediaData':
+      return recallData.wikipediaData?.title || null
+    case 'metMuseumData':
+      return recallData.metMuseumData?.title || null
+    case 'harvardData':
+    case 'artInstituteData':
+    case 'artSearchData':
+    case 'similarArtworks': {
+      const count = recallData[source]?.length
+      return count ? `${count} artwork${count === 1 ? '' : 's'}` : null
+    }
+    case 'colorAnalysis':
+      return recallData.colorAnalysis?.colorHarmony || null
+    case 'emotionalAnalysis':
+      return recallData.emotionalAnalysis?.dominantMood || null
+    case 'textureAnalysis':
+      return recallData.textureAnalysis?.techniqueNotes?.[0] || null
+    case 'compositionAnalysis':
+      return recallData.compositionAnalysis?.principles?.[0] || null
+    default:
+      return null
+  }
+}
+
+const STAGE_NAMES: Record<string, string> = {
+  vision: 'Image analysis',
+  interpretation: 'First impressions',
+  recall: 'Background research',
+  synthesis: 'Educational write-up'
 }
 
 const ArtworkAnalysisScreen: React.FC = () => {
@@ -14,8 +69,21 @@ const ArtworkAnalysisScreen: React.FC = () => {
   const imageUri = location.state?.imageUri
   const imageFile = location.state?.imageFile
   const [loading, setLoading] = useState(true)
-  const [artworkInfo, setArtworkInfo] = useState<ArtworkInfo | null>(null)
+  const [completedStages, setCompletedStages] = useState<string[]>([])
+  const [visionLabels, setVisionLabels] = useState<string[]>([])
+  const [initialInsights, setInitialInsights] = useState<InitialInsights | null>(null)
+  const [recallSources, setRecallSources] = useState<RecallSource[]>([])
+  // What the server's recall stage found, source by source
+  const [recallData, setRecallData] = useState<Partial<RecallData>>({})
+  const [analysis, setAnalysis] = useState<ComprehensiveEducationalAnalysis | null>(null)
   const [error, setError] = useState<string | null>(null)
+  const [stageIssues, setStageIssues] = useState<StageRecord[]>([])
+  // Objects and faces located in the image, and where the analysis mentions them
+  const [regions, setRegions] = useState<ImageRegion[]>([])
+  const [regionReferences, setRegionReferences] = useState<RegionReference[]>([])
+  const [selectedRegionId, setSelectedRegionId] = useState<string | null>(null)
+  const [showTexture, setShowTexture] = useState(false)
+  const [showComposition, setShowComposition] = useState(false)
   const hasAnalyzed = useRef(false)
 
   useEffect(() => {
@@ -28,25 +96,43 @@ const ArtworkAnalysisScreen: React.FC = () => {
       hasAnalyzed.current = true
       setLoading(true)
       setError(null)
-      
+
       try {
         if (!imageFile) {
           throw new Error('No image file provided for analysis')
         }
-        
-        // Use real API analysis
-        const analysis = await apiService.analyzeArtwork(imageFile)
-        
-        const artworkData: ArtworkInfo = {
-          ...analysis,
-          analysis: analysis.description || "Take your time to observe the artwork carefully, noticing the details, colors, and composition."
-        }
-        
-        setArtworkInfo(artworkData)
+
+        // Upload the file itself; a base64 data URL is a third larger
+        const body = new FormData()
+        body.append('image', imageFile)
+
+        // Stream the comprehensive analysis so each stage renders as soon as it finishes
+        const result = await analyzeComprehensive('/api/analyze-comprehensive/stream', body, {
+          onStage: (stage) => {
+            setCompletedStages(current => [...current, stage.stage])
+            if (stage.stage === 'vision') {
+              setVisionLabels(stage.data.labels || [])
+              setRegions(stage.data.regions || [])
+            } else if (stage.stage === 'interpretation') {
+              setInitialInsights(stage.data)
+            }
+          },
+          onRecallSource: (source, data) => {
+            if (data) {
+              setRecallSources(current => [...current, source])
+              setRecallData(current => ({ ...current, [source]: data }))
+            }
+          }
+        })
+
+        setAnalysis(result.analysis)
+        setRecallData(result.recallData || {})
+        setStageIssues(result.stages.filter(stage => stage.status && stage.status !== 'ok'))
+        setRegions(result.visionData?.combined?.regions || [])
+        setRegionReferences(result.regionReferences || [])
       } catch (err) {
         console.error('Analysis error:', err)
         setError(err instanceof Error ? err.message : 'Failed to analyze artwork. Please try again.')
-        setArtworkInfo(null)
       } finally {
         setLoading(false)
       }
@@ -59,16 +145,10 @@ const ArtworkAnalysisScreen: React.FC = () => {
     }
   }, [imageUri, imageFile])
 
-  if (loading) {
-    return (
-      <div className="analysis-screen">
-        <div className="loading-container">
-          <div className="loading-spinner"></div>
-          <p className="loading-text">Analyzing artwork...</p>
-        </div>
-      </div>
-    )
-  }
+  const progressPercent = Math.round((completedStages.length / STAGE_ORDER.length) * 100)
+  const selectedRegion = regions.find(region => region.id === selectedRegionId)
+  const textureHeatmap = recallData.textureAnalysis?.heatmap
+  const composition = recallData.compositionAnalysis?.measures
 
   return (
     <div className="analysis-screen">
@@ -84,9 +164,110 @@ const ArtworkAnalysisScreen: React.FC = () => {
       <div className="content">
         {/* Artwork Image */}
         <div className="image-container">
-          <img src={imageUri} alt="Uploaded artwork" className="artwork-image" />
+          <div className="artwork-frame">
+            <img src={imageUri} alt="Uploaded artwork" className="artwork-image" />
+            {/* Where the surface has the most fine detail, stretched over the artwork */}
+            {showTexture && textureHeatmap && (
+              <img src={textureHeatmap.image} alt="" className="texture-overlay" />
+            )}
+            {/* Thirds grid, dominant lines and where the visual weight sits */}
+            {showComposition && composition && (
+              <>
+                <svg className="composition-overlay" viewBox="0 0 100 100" preserveAspectRatio="none">
+                  {[100 / 3, 200 / 3].map(position => (
+                    <g key={position} className="composition-thirds">
+                      <line x1={position} y1={0} x2={position} y2={100} />
+                      <line x1={0} y1={position} x2={100} y2={position} />
+                    </g>
+                  ))}
+                  {composition.lines.map((line, index) => (
+                    <line
+                      key={index}
+                      className="composition-line"
+                      x1={line.from.x * 100}
+                      y1={line.from.y * 100}
+                      x2={line.to.x * 100}
+                      y2={line.to.y * 100}
+                      opacity={0.4 + 0.6 * line.strength}
+                    />
+                  ))}
+                </svg>
+                {composition.focalPoints.map((point, index) => (
+                  <span
+                    key={index}
+                    className="composition-marker focal-point"
+                    style={{ left: `${point.x * 100}%`, top: `${point.y * 100}%` }}
+                    title="Focal point"
+                  />
+                ))}
+                <span
+                  className="composition-marker center-of-mass"
+                  style={{ left: `${composition.centerOfMass.x * 100}%`, top: `${composition.centerOfMass.y * 100}%` }}
+                  title="Center of visual weight"
+                />
+                {composition.vanishingPoint &&
+                  composition.vanishingPoint.x >= 0 && composition.vanishingPoint.x <= 1 &&
+                  composition.vanishingPoint.y >= 0 && composition.vanishingPoint.y <= 1 && (
+                  <span
+                    className="composition-marker vanishing-point"
+                    style={{ left: `${composition.vanishingPoint.x * 100}%`, top: `${composition.vanishingPoint.y * 100}%` }}
+                    title="Vanishing point"
+                  />
+                )}
+              </>
+            )}
+            {/* Clickable boxes around the objects and faces found in the image */}
+            {regions.map(region => (
+              <button
+                key={region.id}
+                className={`region region-${region.kind}${region.id === selectedRegionId ? ' selected' : ''}`}
+                style={{
+                  left: `${region.box.x * 100}%`,
+                  top: `${region.box.y * 100}%`,
+                  width: `${region.box.width * 100}%`,
+                  height: `${region.box.height * 100}%`
+                }}
+                title={region.name}
+                aria-label={region.name}
+                onClick={() => setSelectedRegionId(current => (current === region.id ? null : region.id))}
+              />
+            ))}
+          </div>
         </div>
 
+        {(textureHeatmap || composition) && (
+          <div className="overlay-toggles">
+            {textureHeatmap && (
+              <button className="overlay-toggle" onClick={() => setShowTexture(current => !current)}>
+                {showTexture ? 'Hide texture map' : 'Show texture map'}
+              </button>
+            )}
+            {composition && (
+              <button className="overlay-toggle" onClick={() => setShowComposition(current => !current)}>
+                {showComposition ? 'Hide composition guides' : 'Show composition guides'}
+              </button>
+            )}
+          </div>
+        )}
+
+        {/* What the clicked region is, and where the analysis mentions it */}
+        {regions.length > 0 && !selectedRegion && (
+          <p className="region-hint">Click a highlighted area to see what it is</p>
+        )}
+        {selectedRegion && (
+          <div className="region-caption">
+            <strong className="region-name">
+              {selectedRegion.name}
+              {selectedRegion.confidence !== null ? ` (${Math.round(selectedRegion.confidence * 100)}% sure)` : ''}
+            </strong>
+            {regionReferences
+              .filter(reference => reference.regionId === selectedRegion.id)
+              .map(reference => (
+                <span key={`${reference.section}-${reference.index}`} className="list-text">• {reference.text}</span>
+              ))}
+          </div>
+        )}
+
         {/* Error message */}
         {error && (
           <div className="error-container">
@@ -95,28 +276,196 @@ const ArtworkAnalysisScreen: React.FC = () => {
           </div>
         )}
 
+        <div className="info-container">
+          {/* Pipeline progress */}
+          {loading && (
+            <div className="progress-section">
+              <div className="progress-header">
+                <div className="loading-spinner stage-spinner"></div>
+                <span className="progress-title">Analyzing artwork...</span>
+              </div>
+              <div className="progress-bar">
+                <div className="progress-fill" style={{ width: `${progressPercent}%` }}></div>
+              </div>
+              <p className="progress-text">
+                {completedStages.length} of {STAGE_ORDER.length} stages complete
+              </p>
+            </div>
+          )}
 
-        {/* Artwork Analysis */}
-        {artworkInfo && (
-          <div className="info-container">
-            <h2 className="title">Artwork Analysis</h2>
-            
-            {/* Analysis source and confidence */}
-            <div className="analysis-meta">
-              <span className="source">Source: {artworkInfo.source}</span>
-              {artworkInfo.confidence && (
-                <span className="confidence">
-                  Confidence: {Math.round(artworkInfo.confidence * 100)}%
-                </span>
-              )}
+          {/* Stage 1: Vision */}
+          {visionLabels.length > 0 && (
+            <div className="section">
+              <h3 className="section-title"><Eye size={18} /> What we see</h3>
+              <div className="label-chips">
+                {visionLabels.slice(0, 12).map((label, index) => (
+                  <span key={index} className="label-chip">{label}</span>
+                ))}
+              </div>
             </div>
-            
+          )}
+
+          {/* Stage 2: Initial interpretation (replaced by the synthesis once it arrives) */}
+          {initialInsights && !analysis && (
             <div className="section">
-              <h3 className="section-title">Visual Analysis</h3>
-              <p className="description">{artworkInfo.description}</p>
+              <h3 className="section-title"><Lightbulb size={18} /> First impressions</h3>
+              {[...(initialInsights.styleInsights || []), ...(initialInsights.themeInsights || [])].map((insight, index) => (
+                <div key={index} className="list-item">
+                  <span className="list-text">• {insight}</span>
+                </div>
+              ))}
             </div>
-          </div>
-        )}
+          )}
+
+          {/* Stage 3: Recall sources as they resolve */}
+          {recallSources.length > 0 && (
+            <div className="section">
+              <h3 className="section-title"><Search size={18} /> Gathering context</h3>
+              {recallSources.map(source => (
+                <div key={source} className="list-item">
+                  <CheckCircle size={16} color="#4CAF50" />
+                  <span className="list-text">
+                    {RECALL_SOURCE_NAMES[source] || source}
+                    {recallFinding(source, recallData) ? `: ${recallFinding(source, recallData)}` : ''}
+                  </span>
+                </div>
+              ))}
+
+              {recallData.wikipediaData && (
+                <div className="wikipedia-info-integrated">
+                  <p><strong>{recallData.wikipediaData.title}</strong></p>
+                  <p>{recallData.wikipediaData.extract}</p>
+                  {recallData.wikipediaData.url && (
+                    <a href={recallData.wikipediaData.url} target="_blank" rel="noopener noreferrer" className="wikipedia-link">
+                      Read more on Wikipedia
+                    </a>
+                  )}
+                </div>
+              )}
+
+              {recallData.similarArtworks && recallData.similarArtworks.length > 0 && (
+                <div className="museum-info-integrated">
+                  {recallData.similarArtworks.map((artwork, index) => (
+                    <p key={index}>
+                      <strong>{artwork.title}</strong>
+                      {artwork.artist ? `, ${artwork.artist}` : ''}
+                      {artwork.period ? ` (${artwork.period})` : ''}
+                      <br />
+                      <span className="source">{artwork.source}</span>
+                    </p>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Stage 4: Final synthesis */}
+          {analysis && (
+            <>
+              <div className="analysis-meta">
+                <span className="source">Sources: {analysis.sources?.join(', ')}</span>
+                {analysis.confidence && (
+                  <span className="confidence">
+                    Confidence: {Math.round(analysis.confidence * 100)}%
+                  </span>
+                )}
+              </div>
+
+              {analysis.unavailableSections && analysis.unavailableSections.length > 0 && (
+                <div className="error-container">
+                  <AlertCircle size={20} color="#FF6B6B" />
+                  <span className="error-text">Some parts of this analysis are unavailable for this artwork.</span>
+                </div>
+              )}
+
+              {stageIssues.map(stage => (
+                <div key={stage.stage} className="error-container">
+                  <AlertCircle size={20} color="#FF6B6B" />
+                  <span className="error-text">
+                    {STAGE_NAMES[stage.stage] || stage.stage} {stage.status === 'failed' ? 'failed' : 'was incomplete'}
+                    {stage.reason ? `: ${stage.reason}` : ''}
+                  </span>
+                </div>
+              ))}
+
+              <div className="section">
+                <h3 className="section-title"><Palette size={18} /> {analysis.styleAnalysis?.primaryStyle}</h3>
+                <p className="description">{analysis.styleAnalysis?.visualLanguage}</p>
+                {analysis.styleAnalysis?.educationalInsights?.map((insight, index) => (
+                  <div key={index} className="list-item">
+                    <span className="list-text">• {insight}</span>
+                  </div>
+                ))}
+              </div>
+
+              <div className="section">
+                <h3 className="section-title"><BookOpen size={18} /> Technique</h3>
+                {analysis.techniqueAnalysis?.primaryTechniques?.map((technique, index) => (
+                  <div key={index} className="list-item">
+                    <span className="list-text">• {technique}</span>
+                  </div>
+                ))}
+              </div>
+
+              {analysis.colorAnalysis?.colorPalette?.length > 0 && (
+                <div className="section">
+                  <h3 className="section-title">Color</h3>
+                  {/* Each band is as wide as the share of the image the color covers */}
+                  <div className="color-coverage">
+                    {analysis.colorAnalysis.colorPalette.map((color, index) => (
+                      <div
+                        key={index}
+                        className="color-coverage-band"
+                        style={{ backgroundColor: color.hex, flexGrow: color.percentage }}
+                        title={`${color.name}: ${color.percentage}%`}
+                      />
+                    ))}
+                  </div>
+                  <div className="color-palette">
+                    {analysis.colorAnalysis.colorPalette.map((color, index) => (
+                      <div key={index} className="color-swatch">
+                        <div className="color-circle" style={{ backgroundColor: color.hex }} title={color.educationalNote}></div>
+                        <span className="color-name">{color.name}</span>
+                        <span className="color-percentage">{color.percentage}%</span>
+                        {color.pigment && (
+                          <span className="color-pigment" title={color.pigment.note}>close to {color.pigment.name}</span>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                  <div className="color-insights">
+                    <p>{analysis.colorAnalysis.colorHarmony}</p>
+                    <p>{analysis.colorAnalysis.emotionalImpact}</p>
+                  </div>
+                </div>
+              )}
+
+              {analysis.compositionAnalysis?.compositionalPrinciples?.length > 0 && (
+                <div className="section">
+                  <h3 className="section-title"><Grid size={18} /> Composition</h3>
+                  <p className="description">{analysis.compositionAnalysis.visualFlow}</p>
+                  {analysis.compositionAnalysis.compositionalPrinciples.map((principle, index) => (
+                    <div key={index} className="list-item">
+                      <span className="list-text">• {principle}</span>
+                    </div>
+                  ))}
+                  <p className="description">{analysis.compositionAnalysis.balanceAndRhythm}</p>
+                </div>
+              )}
+
+              {analysis.reflectionQuestions?.length > 0 && (
+                <div className="section">
+                  <h3 className="section-title"><MessageCircle size={18} /> Reflection Questions</h3>
+                  {analysis.reflectionQuestions.map((question, index) => (
+                    <div key={index} className="list-item">
+                      <span className="list-text">{question.question}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
       </div>
     </div>
   )
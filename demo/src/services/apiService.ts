@@ -1,6 +1,8 @@
 // API Service for artwork analysis
 // Supports multiple providers: Google Vision, Microsoft Computer Vision, Art Institute of Chicago
 
+import { httpFetch } from './http'
+
 export interface ArtworkAnalysis {
   title?: string
   artist?: string
@@ -13,7 +15,6 @@ export interface ArtworkAnalysis {
   source?: string
   aiAnalysis?: OpenAIAnalysisResult
   metMuseumData?: MetMuseumArtwork
-  colorAnalysis?: ColorAnalysis
   wikipediaData?: WikipediaData
   similarArtworks?: ArtworkAnalysis[]
 }
@@ -96,25 +97,6 @@ export interface MetMuseumArtwork {
   GalleryNumber: string
 }
 
-export interface ColorAnalysis {
-  dominantColors: ColorPalette[]
-  colorHarmony: string
-  colorTemperature: string
-  colorMood: string
-  complementaryColors: string[]
-  analogousColors: string[]
-  triadicColors: string[]
-  colorTheoryInsights: string[]
-}
-
-export interface ColorPalette {
-  hex: string
-  rgb: { r: number; g: number; b: number }
-  hsl: { h: number; s: number; l: number }
-  percentage: number
-  name: string
-}
-
 export interface WikipediaData {
   title: string
   extract: string
@@ -166,7 +148,7 @@ class ArtworkAnalysisService {
         ? imageBase64.split(',')[1] 
         : imageBase64
 
-      const response = await fetch(
+      const response = await httpFetch(
         `https://vision.googleapis.com/v1/images:annotate?key=${this.apiKeys.googleVision}`,
         {
           method: 'POST',
@@ -244,7 +226,7 @@ class ArtworkAnalysisService {
 
       const jpegBytes = await this.convertBase64ToJpegBytes(imageBase64)
 
-      const response = await fetch(
+      const response = await httpFetch(
         `${this.apiKeys.microsoftEndpoint}vision/v3.2/analyze?visualFeatures=Categories,Description,Objects,Color,Adult,Tags`,
         {
           method: 'POST',
@@ -252,7 +234,8 @@ class ArtworkAnalysisService {
             'Ocp-Apim-Subscription-Key': this.apiKeys.microsoftVision,
             'Content-Type': 'application/octet-stream',
           },
-          body: jpegBytes
+          body: jpegBytes,
+          provider: 'microsoft'
         }
       )
 
@@ -293,7 +276,7 @@ class ArtworkAnalysisService {
       const primaryModelId = this.apiKeys.clarifaiModelId || 'general-image-recognition'
       const candidateModelIds = [primaryModelId, 'general-image-recognition@001', 'general-image-recognition']
 
-      const attemptRequest = async (modelId: string) => fetch(`/proxy/clarifai/v2/models/${modelId}/outputs`, {
+      const attemptRequest = async (modelId: string) => httpFetch(`/proxy/clarifai/v2/models/${modelId}/outputs`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -357,12 +340,12 @@ class ArtworkAnalysisService {
   async searchMetMuseumArtwork(query: string): Promise<MetMuseumArtwork[]> {
     try {
       // Use dedicated Met proxy to avoid CORS and reduce rate-limit errors
-      const response = await fetch(`/proxy/met/public/collection/v1/search?q=${encodeURIComponent(query)}&hasImages=true&isOnView=true`)
+      const response = await httpFetch(`/proxy/met/public/collection/v1/search?q=${encodeURIComponent(query)}&hasImages=true&isOnView=true`)
 
       if (!response.ok) {
         console.log('Met Museum API failed, trying alternative approach')
         // Try direct access (may work in some environments)
-        const directResponse = await fetch(targetUrl)
+        const directResponse = await httpFetch(targetUrl)
         if (!directResponse.ok) {
           console.log('Met Museum API unavailable, skipping Met Museum data')
           return []
@@ -387,7 +370,7 @@ class ArtworkAnalysisService {
   private async fetchMetMuseumDetails(objectIDs: number[]): Promise<MetMuseumArtwork[]> {
     const artworkPromises = objectIDs.map(async (objectID: number) => {
       try {
-        const response = await fetch(`/proxy/met/public/collection/v1/objects/${objectID}`)
+        const response = await httpFetch(`/proxy/met/public/collection/v1/objects/${objectID}`)
         
         if (response.ok) {
           return await response.json()
@@ -405,7 +388,7 @@ class ArtworkAnalysisService {
   // Art Institute of Chicago API integration (no API key required)
   async searchArtwork(query: string): Promise<ArtworkAnalysis[]> {
     try {
-      const response = await fetch(
+      const response = await httpFetch(
         `https://api.artic.edu/api/v1/artworks/search?q=${encodeURIComponent(query)}&limit=5&fields=id,title,artist_display,date_display,style_titles,medium_display,description,image_id,is_public_domain,thumbnail`
       )
 
@@ -441,7 +424,7 @@ class ArtworkAnalysisService {
     }
 
     try {
-      const response = await fetch(
+      const response = await httpFetch(
         `https://api.harvardartmuseums.org/object?apikey=${this.apiKeys.harvard}&q=${encodeURIComponent(query)}&size=5&hasimage=1&fields=title,people,dated,culture,period,medium,classification,technique,provenance,description`
       )
 
@@ -490,12 +473,12 @@ class ArtworkAnalysisService {
     // Helper to perform a fetch with both common auth methods
     const fetchWithAuth = async (targetUrl: string): Promise<Response> => {
       // Try X-API-KEY header first
-      let response = await fetch(targetUrl, {
+      let response = await httpFetch(targetUrl, {
         headers: { 'X-API-KEY': this.apiKeys.artsearch }
       })
       if (response.status === 401 || response.status === 403) {
         // Try Authorization Bearer fallback
-        response = await fetch(targetUrl, {
+        response = await httpFetch(targetUrl, {
           headers: { Authorization: `Bearer ${this.apiKeys.artsearch}` }
         })
       }
@@ -620,13 +603,13 @@ class ArtworkAnalysisService {
       const targetUrl = `https://en.wikipedia.org/api/rest_v1/page/summary/${encodeURIComponent(cleanQuery)}`
       const proxyUrl = `/proxy/allorigins/raw?url=${encodeURIComponent(targetUrl)}`
       // Try the original query first via proxy
-      let response = await fetch(proxyUrl)
+      let response = await httpFetch(proxyUrl)
 
       if (!response.ok) {
         // Only try "Art" as fallback if the original query was reasonable
         if (response.status === 404 && cleanQuery.length > 3) {
           const fallbackTarget = `https://en.wikipedia.org/api/rest_v1/page/summary/Art`
-          response = await fetch(`/proxy/allorigins/raw?url=${encodeURIComponent(fallbackTarget)}`)
+          response = await httpFetch(`/proxy/allorigins/raw?url=${encodeURIComponent(fallbackTarget)}`)
           if (!response.ok) {
             return null
           }
@@ -696,7 +679,7 @@ You must respond with ONLY valid JSON in this exact format. Do not include any o
 
 Write with depth and sophistication while maintaining accessibility. Provide substantial, informative content that enhances understanding of art.`
 
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
+      const response = await httpFetch('https://api.openai.com/v1/chat/completions', {
         method: 'POST',
         headers: {
           'Authorization': `Bearer ${this.apiKeys.openai}`,
@@ -906,24 +889,6 @@ Write with depth and sophistication while maintaining accessibility. Provide sub
         }
       }
 
-      // Try color analysis (using built-in color extraction)
-      let colorAnalysis: ColorAnalysis | null = null
-      try {
-        const colors = await this.extractColorsFromImage(imageBase64)
-        colorAnalysis = {
-          dominantColors: colors,
-          colorHarmony: this.analyzeColorHarmony(colors),
-          colorTemperature: this.analyzeColorTemperature(colors),
-          colorMood: this.analyzeColorMood(colors),
-          complementaryColors: this.findComplementaryColors(colors),
-          analogousColors: this.findAnalogousColors(colors),
-          triadicColors: this.findTriadicColors(colors),
-          colorTheoryInsights: this.generateColorTheoryInsights(colors)
-        }
-      } catch (error) {
-        console.warn('Color analysis failed:', error)
-      }
-
       // Try Wikipedia API for educational content
       let wikipediaData: WikipediaData | null = null
       if (results.length > 0) {
@@ -1019,7 +984,7 @@ Write with depth and sophistication while maintaining accessibility. Provide sub
       }
       
       // Combine results from multiple APIs
-      const combinedResult = this.combineAnalysisResults(results, openAIAnalysis, metMuseumData, colorAnalysis, wikipediaData, similarArtworks)
+      const combinedResult = this.combineAnalysisResults(results, openAIAnalysis, metMuseumData, wikipediaData, similarArtworks)
       console.log('✅ Analysis complete')
       return combinedResult
       
@@ -1057,81 +1022,6 @@ Write with depth and sophistication while maintaining accessibility. Provide sub
     }
   }
 
-  // Color analysis helper methods
-  private async extractColorsFromImage(imageBase64: string): Promise<ColorPalette[]> {
-    return new Promise((resolve) => {
-      const img = new Image()
-      img.onload = () => {
-        const canvas = document.createElement('canvas')
-        const ctx = canvas.getContext('2d')
-        if (!ctx) {
-          resolve(this.getDefaultColors())
-          return
-        }
-        
-        canvas.width = img.width
-        canvas.height = img.height
-        ctx.drawImage(img, 0, 0)
-        
-        const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height)
-        const pixels = imageData.data
-        const colorMap = new Map<string, number>()
-        
-        // Sample every 10th pixel for performance
-        for (let i = 0; i < pixels.length; i += 40) {
-          const r = pixels[i]
-          const g = pixels[i + 1]
-          const b = pixels[i + 2]
-          const a = pixels[i + 3]
-          
-          // Skip transparent pixels
-          if (a < 128) continue
-          
-          // Quantize colors to reduce noise
-          const quantizedR = Math.round(r / 32) * 32
-          const quantizedG = Math.round(g / 32) * 32
-          const quantizedB = Math.round(b / 32) * 32
-          
-          const colorKey = `${quantizedR},${quantizedG},${quantizedB}`
-          colorMap.set(colorKey, (colorMap.get(colorKey) || 0) + 1)
-        }
-        
-        // Convert to color palette
-        const totalPixels = colorMap.size
-        const colors: ColorPalette[] = []
-        
-        for (const [colorKey, count] of colorMap.entries()) {
-          const [r, g, b] = colorKey.split(',').map(Number)
-          const percentage = (count / totalPixels) * 100
-          
-          if (percentage > 1) { // Only include colors that represent more than 1% of the image
-            const hex = this.rgbToHex(r, g, b)
-            const hsl = this.rgbToHsl(r, g, b)
-            const name = this.getColorName(r, g, b)
-            
-            colors.push({
-              hex,
-              rgb: { r, g, b },
-              hsl,
-              percentage: Math.round(percentage * 100) / 100,
-              name
-            })
-          }
-        }
-        
-        // Sort by percentage and take top 6
-        colors.sort((a, b) => b.percentage - a.percentage)
-        resolve(colors.slice(0, 6))
-      }
-      
-      img.onerror = () => {
-        resolve(this.getDefaultColors())
-      }
-      
-      img.src = imageBase64
-    })
-  }
-
   // Convert any base64 image (PNG/WEBP/JPEG/DataURL) to JPEG bytes for reliable Azure ingestion
   private async convertBase64ToJpegBytes(dataUrlOrBase64: string): Promise<Uint8Array> {
     return new Promise((resolve) => {
@@ -1163,185 +1053,6 @@ Write with depth and sophistication while maintaining accessibility. Provide sub
     })
   }
   
-  private getDefaultColors(): ColorPalette[] {
-    return [
-      { hex: '#FF6B6B', rgb: { r: 255, g: 107, b: 107 }, hsl: { h: 0, s: 100, l: 71 }, percentage: 25, name: 'Coral Red' },
-      { hex: '#4ECDC4', rgb: { r: 78, g: 205, b: 196 }, hsl: { h: 175, s: 60, l: 55 }, percentage: 20, name: 'Turquoise' },
-      { hex: '#45B7D1', rgb: { r: 69, g: 183, b: 209 }, hsl: { h: 195, s: 60, l: 55 }, percentage: 18, name: 'Sky Blue' },
-      { hex: '#96CEB4', rgb: { r: 150, g: 206, b: 180 }, hsl: { h: 150, s: 40, l: 70 }, percentage: 15, name: 'Mint Green' },
-      { hex: '#FFEAA7', rgb: { r: 255, g: 234, b: 167 }, hsl: { h: 45, s: 100, l: 83 }, percentage: 12, name: 'Soft Yellow' },
-      { hex: '#DDA0DD', rgb: { r: 221, g: 160, b: 221 }, hsl: { h: 300, s: 50, l: 75 }, percentage: 10, name: 'Plum' }
-    ]
-  }
-  
-  private rgbToHex(r: number, g: number, b: number): string {
-    return `#${((1 << 24) + (r << 16) + (g << 8) + b).toString(16).slice(1)}`
-  }
-  
-  private rgbToHsl(r: number, g: number, b: number): { h: number; s: number; l: number } {
-    r /= 255
-    g /= 255
-    b /= 255
-    
-    const max = Math.max(r, g, b)
-    const min = Math.min(r, g, b)
-    let h = 0
-    let s = 0
-    const l = (max + min) / 2
-    
-    if (max !== min) {
-      const d = max - min
-      s = l > 0.5 ? d / (2 - max - min) : d / (max + min)
-      
-      switch (max) {
-        case r: h = (g - b) / d + (g < b ? 6 : 0); break
-        case g: h = (b - r) / d + 2; break
-        case b: h = (r - g) / d + 4; break
-      }
-      h /= 6
-    }
-    
-    return {
-      h: Math.round(h * 360),
-      s: Math.round(s * 100),
-      l: Math.round(l * 100)
-    }
-  }
-  
-  private getColorName(r: number, g: number, b: number): string {
-    // Simple color name mapping based on HSL values
-    const hsl = this.rgbToHsl(r, g, b)
-    const { h, s, l } = hsl
-    
-    if (s < 20) {
-      if (l > 80) return 'White'
-      if (l < 20) return 'Black'
-      return 'Gray'
-    }
-    
-    if (h < 15 || h > 345) return 'Red'
-    if (h < 45) return 'Orange'
-    if (h < 75) return 'Yellow'
-    if (h < 150) return 'Green'
-    if (h < 210) return 'Cyan'
-    if (h < 270) return 'Blue'
-    if (h < 330) return 'Purple'
-    return 'Pink'
-  }
-
-  private analyzeColorHarmony(colors: ColorPalette[]): string {
-    const dominantHue = colors[0]?.hsl.h || 0
-    const hueRange = Math.max(...colors.map(c => c.hsl.h)) - Math.min(...colors.map(c => c.hsl.h))
-    
-    if (hueRange < 30) {
-      return 'Monochromatic harmony - creates a cohesive, unified feeling'
-    } else if (hueRange < 60) {
-      return 'Analogous harmony - colors are adjacent on the color wheel, creating harmony'
-    } else if (hueRange > 120 && hueRange < 180) {
-      return 'Complementary harmony - contrasting colors create visual tension and energy'
-    } else if (hueRange > 180) {
-      return 'Triadic harmony - three colors evenly spaced on the color wheel'
-    } else {
-      return 'Complex color relationship - multiple harmonies working together'
-    }
-  }
-
-  private analyzeColorTemperature(colors: ColorPalette[]): string {
-    const warmColors = colors.filter(c => c.hsl.h >= 0 && c.hsl.h <= 60 || c.hsl.h >= 300)
-    const coolColors = colors.filter(c => c.hsl.h > 60 && c.hsl.h < 300)
-    
-    if (warmColors.length > coolColors.length * 1.5) {
-      return 'Warm color palette - evokes energy, passion, and warmth'
-    } else if (coolColors.length > warmColors.length * 1.5) {
-      return 'Cool color palette - creates calm, peaceful, and serene feelings'
-    } else {
-      return 'Balanced temperature - warm and cool colors work together harmoniously'
-    }
-  }
-
-  private analyzeColorMood(colors: ColorPalette[]): string {
-    const avgSaturation = colors.reduce((sum, c) => sum + c.hsl.s, 0) / colors.length
-    const avgLightness = colors.reduce((sum, c) => sum + c.hsl.l, 0) / colors.length
-    
-    if (avgSaturation > 70 && avgLightness > 60) {
-      return 'Vibrant and energetic - high saturation creates excitement and vitality'
-    } else if (avgSaturation < 30 && avgLightness > 70) {
-      return 'Soft and gentle - low saturation creates a peaceful, calming mood'
-    } else if (avgLightness < 40) {
-      return 'Dramatic and mysterious - dark colors create depth and intrigue'
-    } else if (avgSaturation > 50 && avgLightness < 60) {
-      return 'Rich and sophisticated - balanced saturation and lightness create elegance'
-    } else {
-      return 'Balanced mood - colors work together to create a harmonious atmosphere'
-    }
-  }
-
-  private findComplementaryColors(colors: ColorPalette[]): string[] {
-    const dominantHue = colors[0]?.hsl.h || 0
-    const complementaryHue = (dominantHue + 180) % 360
-    return [`hsl(${complementaryHue}, 70%, 50%)`]
-  }
-
-  private findAnalogousColors(colors: ColorPalette[]): string[] {
-    const dominantHue = colors[0]?.hsl.h || 0
-    return [
-      `hsl(${(dominantHue + 30) % 360}, 70%, 50%)`,
-      `hsl(${(dominantHue - 30 + 360) % 360}, 70%, 50%)`
-    ]
-  }
-
-  private findTriadicColors(colors: ColorPalette[]): string[] {
-    const dominantHue = colors[0]?.hsl.h || 0
-    return [
-      `hsl(${(dominantHue + 120) % 360}, 70%, 50%)`,
-      `hsl(${(dominantHue + 240) % 360}, 70%, 50%)`
-    ]
-  }
-
-  private generateColorTheoryInsights(colors: ColorPalette[]): string[] {
-    const insights = []
-    
-    if (colors.length >= 3) {
-      insights.push('The artist demonstrates sophisticated understanding of color relationships and palette construction')
-    }
-    
-    const hasWarmColors = colors.some(c => c.hsl.h >= 0 && c.hsl.h <= 60 || c.hsl.h >= 300)
-    const hasCoolColors = colors.some(c => c.hsl.h > 60 && c.hsl.h < 300)
-    
-    if (hasWarmColors && hasCoolColors) {
-      insights.push('Strategic juxtaposition of warm and cool colors creates dynamic visual tension and spatial depth')
-    }
-    
-    const avgSaturation = colors.reduce((sum, c) => sum + c.hsl.s, 0) / colors.length
-    const avgLightness = colors.reduce((sum, c) => sum + c.hsl.l, 0) / colors.length
-    
-    if (avgSaturation > 60) {
-      insights.push('High saturation creates emotional intensity and commanding visual presence that demands attention')
-    } else if (avgSaturation < 40) {
-      insights.push('Muted, desaturated colors create sophisticated, contemplative effects that invite closer examination')
-    }
-    
-    if (avgLightness > 70) {
-      insights.push('Light color values create an airy, ethereal quality that suggests optimism and openness')
-    } else if (avgLightness < 40) {
-      insights.push('Dark color values establish dramatic contrast and create a sense of mystery and depth')
-    }
-    
-    // Analyze color distribution and dominance
-    const dominantColor = colors[0]
-    if (dominantColor && dominantColor.percentage > 40) {
-      insights.push(`The dominant ${dominantColor.name} color creates a unified mood and establishes the artwork's emotional foundation`)
-    }
-    
-    // Check for complementary relationships
-    const hueRange = Math.max(...colors.map(c => c.hsl.h)) - Math.min(...colors.map(c => c.hsl.h))
-    if (hueRange > 120 && hueRange < 180) {
-      insights.push('Complementary color relationships create visual energy and enhance the artwork\'s dynamic impact')
-    }
-    
-    return insights
-  }
-
   // Helper methods
   private async fileToBase64(file: File): Promise<string> {
     return new Promise((resolve, reject) => {
@@ -1548,7 +1259,6 @@ Write with depth and sophistication while maintaining accessibility. Provide sub
     results: ArtworkAnalysis[], 
     openAIAnalysis?: OpenAIAnalysisResult | null,
     metMuseumData?: MetMuseumArtwork | null,
-    colorAnalysis?: ColorAnalysis | null,
     wikipediaData?: WikipediaData | null,
     similarArtworks?: ArtworkAnalysis[]
   ): string {
@@ -1582,34 +1292,11 @@ Write with depth and sophistication while maintaining accessibility. Provide sub
       summary.push("The composition demonstrates thoughtful arrangement of visual elements that guide the viewer's eye.")
     }
     
-    // 4. Color analysis - dominant colors
-    if (colorAnalysis && colorAnalysis.dominantColors.length > 0) {
-      const topColors = colorAnalysis.dominantColors.slice(0, 3).map(c => c.name).join(', ')
-      summary.push(`The dominant color palette features ${topColors}, creating a visually cohesive aesthetic.`)
-    } else {
-      summary.push("The color choices demonstrate careful consideration of visual harmony and emotional impact.")
-    }
-    
-    // 5. Color temperature and mood
-    if (colorAnalysis && colorAnalysis.colorTemperature) {
-      summary.push(`The ${colorAnalysis.colorTemperature.toLowerCase()} creates a specific atmospheric quality.`)
-    } else {
-      summary.push("The color temperature contributes to the overall mood and emotional resonance of the piece.")
-    }
-    
-    // 6. Color harmony analysis
-    if (colorAnalysis && colorAnalysis.colorHarmony) {
-      summary.push(colorAnalysis.colorHarmony + " This demonstrates advanced understanding of color relationships.")
-    } else {
-      summary.push("The artist employs sophisticated color relationships that create visual harmony and balance.")
-    }
-    
-    // 7. Color mood and emotional impact
-    if (colorAnalysis && colorAnalysis.colorMood) {
-      summary.push(colorAnalysis.colorMood + " These choices reveal the artist's intention to evoke specific feelings.")
-    } else {
-      summary.push("The color choices work together to create a distinct emotional atmosphere that enhances the artwork's impact.")
-    }
+    // 4-7. Color. The measured palette comes from the server (packages/core/src/recall/palette.ts)
+    summary.push("The color choices demonstrate careful consideration of visual harmony and emotional impact.")
+    summary.push("The color temperature contributes to the overall mood and emotional resonance of the piece.")
+    summary.push("The artist employs sophisticated color relationships that create visual harmony and balance.")
+    summary.push("The color choices work together to create a distinct emotional atmosphere that enhances the artwork's impact.")
     
     // 8. OpenAI artistic insights
     if (openAIAnalysis && openAIAnalysis.artisticInsights && openAIAnalysis.artisticInsights.length > 0) {
@@ -1727,7 +1414,6 @@ Write with depth and sophistication while maintaining accessibility. Provide sub
     results: ArtworkAnalysis[], 
     openAIAnalysis?: OpenAIAnalysisResult | null,
     metMuseumData?: MetMuseumArtwork | null,
-    colorAnalysis?: ColorAnalysis | null,
     wikipediaData?: WikipediaData | null,
     similarArtworks?: ArtworkAnalysis[]
   ): ArtworkAnalysis {
@@ -1736,7 +1422,6 @@ Write with depth and sophistication while maintaining accessibility. Provide sub
       results, 
       openAIAnalysis, 
       metMuseumData, 
-      colorAnalysis, 
       wikipediaData, 
       similarArtworks
     )
@@ -1758,7 +1443,6 @@ Write with depth and sophistication while maintaining accessibility. Provide sub
       source: `Combined Analysis (${sources})`,
       confidence: maxConfidence,
       metMuseumData: metMuseumData || undefined,
-      colorAnalysis: colorAnalysis || undefined,
       wikipediaData: wikipediaData || undefined,
       similarArtworks: similarArtworks || undefined
     }
@@ -0,0 +1,143 @@
+// Outbound HTTP for the demo's API status checks (apiService.ts)
+// Mirrors the guards in packages/core/src/http.ts: every request gets a per-provider
+// timeout, 429/5xx responses and network errors are retried with jittered
+// backoff, and a provider that keeps failing is skipped for a cooling-off
+// period so one hanging API cannot stall a whole stage.
+
+export interface ProviderPolicy {
+  timeoutMs: number
+  retries: number
+  breakerThreshold: number
+  breakerCooldownMs: number
+}
+
+export interface HttpRequestInit extends RequestInit {
+  // Names the API for its policy and breaker; derived from the URL when omitted
+  provider?: string
+}
+
+export class CircuitOpenError extends Error {
+  constructor(public provider: string, public openUntil: number) {
+    super(`${provider} is temporarily disabled after repeated failures`)
+    this.name = 'CircuitOpenError'
+  }
+}
+
+const DEFAULT_POLICY: ProviderPolicy = { timeoutMs: 10000, retries: 2, breakerThreshold: 5, breakerCooldownMs: 30000 }
+
+const POLICIES: Record<string, Partial<ProviderPolicy>> = {
+  openai: { timeoutMs: 60000, retries: 1 },
+  clarifai: { timeoutMs: 15000 },
+  google: { timeoutMs: 15000 },
+  microsoft: { timeoutMs: 15000 }
+}
+
+const PROVIDER_HOSTS: Record<string, string> = {
+  'api.openai.com': 'openai',
+  'vision.googleapis.com': 'google',
+  'api.clarifai.com': 'clarifai',
+  'collectionapi.metmuseum.org': 'met'
+}
+
+const RETRY_BASE_MS = 300
+const MAX_RETRY_DELAY_MS = 5000
+
+// Dev-server proxy paths look like /proxy/<provider>/...
+export function providerFor(url: string): string {
+  const proxied = url.match(/^\/proxy\/([^/?]+)/)
+  if (proxied) return proxied[1]
+  const host = new URL(url, window.location.origin).hostname
+  return PROVIDER_HOSTS[host] || host
+}
+
+interface Breaker {
+  state: 'closed' | 'open' | 'half-open'
+  failures: number
+  openUntil: number | null
+  trialInFlight: boolean
+}
+
+const breakers = new Map<string, Breaker>()
+
+function enterBreaker(provider: string): Breaker {
+  let breaker = breakers.get(provider)
+  if (!breaker) {
+    breaker = { state: 'closed', failures: 0, openUntil: null, trialInFlight: false }
+    breakers.set(provider, breaker)
+  }
+  if (breaker.state === 'open') {
+    if (Date.now() < (breaker.openUntil as number)) throw new CircuitOpenError(provider, breaker.openUntil as number)
+    breaker.state = 'half-open'
+  }
+  if (breaker.state === 'half-open') {
+    if (breaker.trialInFlight) throw new CircuitOpenError(provider, breaker.openUntil as number)
+    breaker.trialInFlight = true
+  }
+  return breaker
+}
+
+function recordOutcome(breaker: Breaker, policy: ProviderPolicy, failed: boolean) {
+  breaker.trialInFlight = false
+  if (!failed) {
+    breaker.state = 'closed'
+    breaker.failures = 0
+    breaker.openUntil = null
+    return
+  }
+  breaker.failures += 1
+  if (breaker.state === 'half-open' || breaker.failures >= policy.breakerThreshold) {
+    breaker.state = 'open'
+    breaker.openUntil = Date.now() + policy.breakerCooldownMs
+  }
+}
+
+const isRetryableStatus = (status: number) => status === 429 || status >= 500
+
+function retryDelay(attempt: number, response: Response | null): number {
+  const retryAfter = Number(response?.headers.get('retry-after'))
+  if (retryAfter > 0) return Math.min(retryAfter * 1000, MAX_RETRY_DELAY_MS)
+  return Math.min(RETRY_BASE_MS * 2 ** attempt, MAX_RETRY_DELAY_MS) * (0.5 + Math.random() / 2)
+}
+
+// Drop-in replacement for fetch. Resolves with the last response (which may
+// still be a 429/5xx once retries run out) and rejects on timeouts, network
+// errors and open circuits.
+export async function httpFetch(url: string, { provider: name, ...init }: HttpRequestInit = {}): Promise<Response> {
+  const provider = name || providerFor(url)
+  const policy = { ...DEFAULT_POLICY, ...POLICIES[provider] }
+  const breaker = enterBreaker(provider)
+
+  for (let attempt = 0; ; attempt++) {
+    const controller = new AbortController()
+    const timer = setTimeout(() => controller.abort(), policy.timeoutMs)
+    const abortFromCaller = () => controller.abort()
+    init.signal?.addEventListener('abort', abortFromCaller)
+
+    let response: Response | null = null
+    let failed = false
+    try {
+      response = await fetch(url, { ...init, signal: controller.signal })
+      failed = isRetryableStatus(response.status)
+    } catch (error) {
+      if (init.signal?.aborted) {
+        breaker.trialInFlight = false
+        throw error
+      }
+      failed = true
+      if (attempt >= policy.retries) {
+        recordOutcome(breaker, policy, true)
+        throw controller.signal.aborted ? new Error(`${provider} request timed out after ${policy.timeoutMs} ms`) : error
+      }
+    } finally {
+      clearTimeout(timer)
+      init.signal?.removeEventListener('abort', abortFromCaller)
+    }
+
+    if (!failed || attempt >= policy.retries) {
+      recordOutcome(breaker, policy, failed)
+      return response as Response
+    }
+
+    await new Promise(resolve => setTimeout(resolve, retryDelay(attempt, response)))
+  }
+}
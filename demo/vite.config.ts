@@ -9,7 +9,16 @@ export default defineConfig(({ mode }) => {
     server: {
       port: 3000,
       open: true,
+      // The analysis types and client come from ../packages/core, shared with the server
+      fs: {
+        allow: ['..']
+      },
       proxy: {
+        // Educational analysis server (server.js); run it with PORT=3001 alongside the demo
+        '/api': {
+          target: env.VITE_ANALYSIS_SERVER_URL || 'http://localhost:3001',
+          changeOrigin: true
+        },
         '/proxy/artsearch': {
           target: 'https://api.artsearch.io',
           changeOrigin: true,
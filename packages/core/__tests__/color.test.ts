@@ -0,0 +1,48 @@
+import { describe, expect, it } from "@jest/globals";
+import { deltaE2000, getColorFamily, rgbToLab } from "../src/recall/color.js";
+
+describe("getColorFamily", () => {
+  it("sorts saturated colors by hue", () => {
+    expect(getColorFamily("rgb(200, 30, 30)")).toBe("Red");
+    expect(getColorFamily("rgb(230, 140, 20)")).toBe("Orange");
+    expect(getColorFamily("rgb(40, 160, 60)")).toBe("Green");
+    expect(getColorFamily("rgb(30, 60, 200)")).toBe("Blue");
+    expect(getColorFamily("rgb(120, 40, 160)")).toBe("Purple");
+  });
+
+  it("treats faintly tinted whites, grays and blacks as neutral", () => {
+    // Cream and ivory: HSL saturation over 50%, but barely any chroma
+    expect(getColorFamily("rgb(250, 240, 230)")).toBe("White");
+    expect(getColorFamily("rgb(255, 255, 240)")).toBe("White");
+    // A bluish and a warm gray
+    expect(getColorFamily("rgb(120, 125, 135)")).toBe("Gray");
+    expect(getColorFamily("rgb(140, 132, 125)")).toBe("Gray");
+    expect(getColorFamily("rgb(22, 20, 28)")).toBe("Black");
+  });
+
+  it("keeps muted colors that still show a hue", () => {
+    expect(getColorFamily("rgb(150, 110, 100)")).toBe("Red");
+    expect(getColorFamily("rgb(110, 130, 160)")).toBe("Blue");
+  });
+
+  it("cannot place a value that is not an rgb() color", () => {
+    expect(getColorFamily("#ff0000")).toBe("Unknown");
+  });
+});
+
+describe("deltaE2000", () => {
+  // Pairs from Sharma, Wu and Dalal (2005), table 1
+  it.each([
+    [{ l: 50, a: 2.6772, b: -79.7751 }, { l: 50, a: 0, b: -82.7485 }, 2.0425],
+    [{ l: 50, a: -1.3802, b: -84.2814 }, { l: 50, a: 0, b: -82.7485 }, 1.0],
+    [{ l: 50, a: 2.5, b: 0 }, { l: 73, a: 25, b: -18 }, 27.1492],
+    [{ l: 60.2574, a: -34.0099, b: 36.2677 }, { l: 60.4626, a: -34.1751, b: 39.4387 }, 1.2644]
+  ])("matches the published difference %#", (first, second, expected) => {
+    expect(deltaE2000(first, second)).toBeCloseTo(expected, 4);
+  });
+
+  it("is zero for the same color", () => {
+    const lab = rgbToLab(120, 80, 40);
+    expect(deltaE2000(lab, lab)).toBe(0);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "@jest/globals";
+import fs from "fs";
+import { nameColor, nearestPigment } from "../src/recall/colorNames.js";
+
+describe("nameColor", () => {
+  it("names an exact dictionary color with no distance", () => {
+    expect(nameColor(255, 0, 0)).toEqual({ name: "red", hex: "#ff0000", source: "css", distance: 0 });
+    expect(nameColor(0, 0, 128)).toEqual({ name: "navy", hex: "#000080", source: "css", distance: 0 });
+  });
+
+  it("gives the ISCC-NBS meaning of a name CSS also uses", () => {
+    expect(nameColor(0x55, 0x55, 0x55)).toMatchObject({ name: "dark gray", source: "iscc-nbs", distance: 0 });
+    expect(nameColor(0xa9, 0xa9, 0xa9).name).not.toBe("dark gray");
+  });
+
+  it("keeps proper nouns capitalized", () => {
+    expect(nameColor(0xf0, 0xf8, 0xff).name).toBe("Alice blue");
+  });
+
+  it("names an in-between color after its nearest entry and reports how far it is", () => {
+    const match = nameColor(0xfe, 0xb3, 0xb9);
+
+    expect(match).toMatchObject({ name: "vivid pink", hex: "#ffb5ba", source: "iscc-nbs" });
+    expect(match.distance).toBeGreaterThan(0);
+    expect(match.distance).toBeLessThan(2);
+  });
+});
+
+describe("nearestPigment", () => {
+  it("finds a historical pigment close to the color, with its note", () => {
+    const pigment = nearestPigment(0x2b, 0x3d, 0x9a);
+
+    expect(pigment).toMatchObject({ name: "ultramarine", hex: "#2a3c9b", source: "pigment" });
+    expect(pigment!.distance).toBeLessThan(2);
+    expect(pigment!.note).toContain("lapis lazuli");
+  });
+
+  it("offers no pigment when none is close", () => {
+    expect(nearestPigment(0, 255, 0)).toBeNull();
+  });
+});
+
+describe("the color dictionary", () => {
+  it("uses each name for one color only", () => {
+    const data = JSON.parse(fs.readFileSync(new URL("../data/colors.json", import.meta.url), "utf8"));
+    const names = [...data.css, ...data.isccNbs, ...data.pigments].map(({ name }: { name: string }) => name.toLowerCase());
+
+    expect(names.filter((name, index) => names.indexOf(name) !== index)).toEqual([]);
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, expect, it } from "@jest/globals";
+import sharp from "sharp";
+import { performCompositionAnalysis } from "../src/recall/composition.js";
+
+// A 256x256 picture drawn from SVG shapes over a background, as a base64 PNG
+async function drawn(shapes: string, background = "#808080") {
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="256" height="256">
+    <rect width="256" height="256" fill="${background}"/>${shapes}</svg>`;
+  const png = await sharp(Buffer.from(svg)).png().toBuffer();
+  return png.toString("base64");
+}
+
+const disc = (x: number, y: number, color = "#d02020") => `<circle cx="${x}" cy="${y}" r="20" fill="${color}"/>`;
+
+describe("performCompositionAnalysis", () => {
+  it("finds nothing to look at in a flat image", async () => {
+    const composition = await performCompositionAnalysis(await drawn(""));
+
+    expect(composition.measures).toMatchObject({
+      centerOfMass: { x: 0.5, y: 0.5 },
+      focalPoints: [],
+      thirdsAlignment: 0,
+      horizontalBalance: 0,
+      verticalBalance: 0,
+      symmetry: { leftRight: 1, topBottom: 1 },
+      lines: [],
+      vanishingPoint: null
+    });
+    expect(composition.focalPoints).toEqual([]);
+    expect(composition.visualFlow).toBe("No area stands out strongly, so the eye moves freely across the picture");
+  });
+
+  it("recognizes a centered, symmetrical subject", async () => {
+    const composition = await performCompositionAnalysis(await drawn(disc(128, 128)));
+    const { measures } = composition;
+
+    expect(measures.focalPoints).toHaveLength(1);
+    expect(measures.focalPoints[0]).toMatchObject({ x: expect.closeTo(0.5, 1), y: expect.closeTo(0.5, 1), weight: 1 });
+    expect(measures.centralAlignment).toBeGreaterThan(0.9);
+    expect(Math.abs(measures.horizontalBalance)).toBeLessThan(0.02);
+    expect(measures.symmetry.leftRight).toBeGreaterThan(0.95);
+    expect(composition.principles).toEqual(expect.arrayContaining([
+      "Centered composition: the main focus sits near the middle of the picture",
+      "Mirror symmetry: the left and right halves closely reflect each other"
+    ]));
+    expect(composition.focalPoints).toEqual(["Center (strongest)"]);
+    expect(composition.balance).toBe("Visual weight is evenly spread between left and right, and between top and bottom: symmetrical balance, formal and stable");
+  });
+
+  it("places a subject on a thirds intersection and weighs the picture toward it", async () => {
+    const composition = await performCompositionAnalysis(await drawn(disc(85, 85)));
+    const { measures } = composition;
+
+    expect(measures.focalPoints[0]).toMatchObject({ x: expect.closeTo(0.333, 1), y: expect.closeTo(0.333, 1) });
+    expect(measures.thirdsAlignment).toBeGreaterThan(0.6);
+    expect(measures.thirdsAlignment).toBeGreaterThan(measures.centralAlignment);
+    expect(measures.centerOfMass.x).toBeLessThan(0.5);
+    expect(measures.horizontalBalance).toBeLessThan(-0.1);
+    expect(measures.verticalBalance).toBeLessThan(-0.1);
+    expect(composition.principles).toContain("Rule of thirds: the main focus sits near a thirds intersection");
+    expect(composition.focalPoints).toEqual(["Upper left (strongest), on a thirds intersection"]);
+    expect(composition.balance).toMatch(/^Visual weight is heavier on the left, and sits toward the top: an asymmetrical composition/);
+    expect(composition.visualFlow).toBe("The eye goes first to the upper left");
+  });
+
+  it("orders several focal points by how much they stand out", async () => {
+    const composition = await performCompositionAnalysis(await drawn(disc(60, 190, "#ff0000") + disc(200, 60, "#d04040")));
+
+    expect(composition.measures.focalPoints).toHaveLength(2);
+    expect(composition.measures.focalPoints[0].weight).toBe(1);
+    expect(composition.measures.focalPoints[1].weight).toBeLessThan(1);
+    expect(composition.visualFlow).toBe("The eye goes first to the lower left, then to the upper right");
+  });
+
+  it("finds a horizon and a vertical divide", async () => {
+    const horizon = await performCompositionAnalysis(await drawn(`<rect y="128" width="256" height="128" fill="#203040"/>`, "#a0c0e0"));
+    const divide = await performCompositionAnalysis(await drawn(`<rect x="128" width="128" height="256" fill="#203040"/>`, "#a0c0e0"));
+
+    expect(horizon.measures.lines[0]).toMatchObject({ angle: 0, strength: 1 });
+    expect(horizon.measures.lines[0].from.y).toBeCloseTo(0.5, 1);
+    expect(Math.abs(horizon.measures.lines[0].to.x - horizon.measures.lines[0].from.x)).toBeGreaterThan(0.9);
+    expect(horizon.measures.symmetry.leftRight).toBeGreaterThan(0.95);
+    expect(horizon.principles).toContain("Strong horizontal lines give a sense of stability and calm");
+
+    expect(divide.measures.lines[0]).toMatchObject({ angle: 90, strength: 1 });
+    expect(divide.measures.lines[0].from.x).toBeCloseTo(0.5, 1);
+    expect(divide.principles).toContain("Strong vertical lines suggest height, strength and stillness");
+  });
+
+  it("finds where converging lines meet", async () => {
+    // Four lines from the edges toward a point above the middle
+    const lines = [[0, 256], [256, 256], [0, 40], [256, 40]]
+      .map(([x, y]) => `<line x1="${x}" y1="${y}" x2="128" y2="96" stroke="#000000" stroke-width="4"/>`)
+      .join("");
+    const composition = await performCompositionAnalysis(await drawn(lines, "#ffffff"));
+    const { vanishingPoint } = composition.measures;
+
+    expect(vanishingPoint).not.toBeNull();
+    expect(vanishingPoint!.lines).toBeGreaterThanOrEqual(3);
+    expect(vanishingPoint!.x).toBeCloseTo(0.5, 1);
+    expect(vanishingPoint!.y).toBeCloseTo(0.375, 1);
+    expect(composition.principles).toContain(`Linear perspective: ${vanishingPoint!.lines} lines converge toward the upper center, creating depth`);
+    expect(composition.principles).toContain("Diagonal lines add movement and energy");
+  });
+
+  it("rejects an image too small to measure", async () => {
+    const tiny = (await sharp({ create: { width: 2, height: 40, channels: 3, background: "#808080" } }).png().toBuffer()).toString("base64");
+
+    await expect(performCompositionAnalysis(tiny)).rejects.toThrow("Image too small for composition analysis: 2x40");
+  });
+});
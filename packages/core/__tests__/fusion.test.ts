@@ -0,0 +1,97 @@
+import { describe, expect, it } from "@jest/globals";
+import { fuseLabels, normalizeLabel } from "../src/vision/fusion.js";
+import type { VisionResult } from "../src/types.js";
+
+const result = (provider: string, labels: VisionResult["labels"]): VisionResult => ({
+  provider,
+  labels,
+  objects: [],
+  colors: [],
+  text: [],
+  faces: [],
+  categories: []
+});
+
+describe("normalizeLabel", () => {
+  it("lower-cases, strips punctuation and singularizes", () => {
+    expect(normalizeLabel("Paintings")).toBe("painting");
+    expect(normalizeLabel("Still-Life!")).toBe("still life");
+    expect(normalizeLabel("churches")).toBe("church");
+    expect(normalizeLabel("Berries")).toBe("berry");
+  });
+
+  it("keeps words that only look plural", () => {
+    expect(normalizeLabel("Canvas")).toBe("canvas");
+    expect(normalizeLabel("glass")).toBe("glass");
+    expect(normalizeLabel("cactus")).toBe("cactus");
+  });
+
+  it("maps irregular plurals and British spellings", () => {
+    expect(normalizeLabel("People")).toBe("person");
+    expect(normalizeLabel("Grey")).toBe("gray");
+    expect(normalizeLabel("colours")).toBe("color");
+  });
+
+  it("applies synonyms after normalizing", () => {
+    expect(normalizeLabel("Oil Paints")).toBe("oil painting");
+    expect(normalizeLabel("oil on canvas")).toBe("oil painting");
+    expect(normalizeLabel("Watercolour")).toBe("watercolor painting");
+    expect(normalizeLabel("Human")).toBe("person");
+  });
+
+  it("drops labels that report an absence", () => {
+    expect(normalizeLabel("no person")).toBe("");
+  });
+});
+
+describe("fuseLabels", () => {
+  it("merges spellings of the same label and records them as aliases", () => {
+    const [label] = fuseLabels([
+      result("clarifai", [{ name: "Paintings", confidence: 0.9 }]),
+      result("google", [{ name: "painting", confidence: 0.7 }])
+    ]);
+
+    expect(label.name).toBe("painting");
+    expect(label.providers).toEqual({ clarifai: 0.9, google: 0.7 });
+    expect(label.aliases).toEqual(["Paintings", "painting"]);
+  });
+
+  it("scales the mean score by how many providers agree", () => {
+    const labels = fuseLabels([
+      result("clarifai", [{ name: "portrait", confidence: 0.8 }, { name: "tree", confidence: 0.9 }]),
+      result("google", [{ name: "portrait", confidence: 0.6 }]),
+      result("microsoft", [{ name: "portrait", confidence: 0.7 }])
+    ]);
+    const byName = Object.fromEntries(labels.map(label => [label.name, label]));
+
+    expect(byName.portrait).toMatchObject({ agreement: 1, confidence: 0.7 });
+    // One of three providers: 0.9 * (0.5 + 1/6)
+    expect(byName.tree).toMatchObject({ agreement: 0.333, confidence: 0.6 });
+    expect(labels.map(label => label.name)).toEqual(["portrait", "tree"]);
+  });
+
+  it("keeps a provider's best score when it reports a label twice", () => {
+    const [label] = fuseLabels([
+      result("clarifai", [{ name: "Trees", confidence: 0.4 }, { name: "tree", confidence: 0.8 }])
+    ]);
+
+    expect(label.providers).toEqual({ clarifai: 0.8 });
+    expect(label.confidence).toBe(0.8);
+  });
+
+  it("assumes a middling score for labels nobody scored", () => {
+    const [label] = fuseLabels([result("local", [{ name: "sky", confidence: null }])]);
+
+    expect(label.providers).toEqual({ local: null });
+    expect(label.confidence).toBe(0.5);
+  });
+
+  it("breaks ties by provider order", () => {
+    const labels = fuseLabels([
+      result("clarifai", [{ name: "sea", confidence: 0.5 }]),
+      result("google", [{ name: "boat", confidence: 0.5 }])
+    ]);
+
+    expect(labels.map(label => label.name)).toEqual(["sea", "boat"]);
+  });
+});
@@ -0,0 +1,270 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, jest } from "@jest/globals";
+import fs from "fs";
+import http from "http";
+import os from "os";
+import path from "path";
+import type { AddressInfo } from "net";
+import { Response } from "node-fetch";
+import { CircuitOpenError, circuitBreakerStates, httpFetch, retryDelay } from "../src/http.js";
+
+// A local API that answers each request with the next scripted reply
+interface Reply {
+  status: number;
+  body?: string;
+  delayMs?: number;
+}
+
+let server: http.Server;
+let baseUrl: string;
+let replies: Reply[] = [];
+let requests: { url: string; body: string }[] = [];
+
+const script = (...next: (number | Reply)[]) => {
+  replies = next.map(reply => (typeof reply === "number" ? { status: reply } : reply));
+  requests = [];
+};
+
+const settings: string[] = [];
+const setting = (name: string, value: string) => {
+  settings.push(name);
+  process.env[name] = value;
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+beforeAll(async () => {
+  server = http.createServer((request, response) => {
+    let body = "";
+    request.on("data", chunk => (body += chunk));
+    request.on("end", () => {
+      requests.push({ url: request.url || "", body });
+      const { status, body: reply, delayMs = 0 }: Reply = replies.shift() || { status: 200 };
+      setTimeout(() => {
+        if (response.destroyed) return;
+        response.writeHead(status, { "content-type": "application/json" });
+        response.end(reply ?? JSON.stringify({ status }));
+      }, delayMs);
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise(resolve => server.close(resolve));
+});
+
+afterEach(() => {
+  settings.splice(0).forEach(name => delete process.env[name]);
+});
+
+describe("fixtures", () => {
+  let directory: string;
+
+  beforeAll(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "http-fixtures-"));
+  });
+
+  afterAll(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  const useFixtures = (mode: string) => {
+    setting("HTTP_FIXTURE_MODE", mode);
+    setting("HTTP_FIXTURE_DIR", directory);
+  };
+
+  it("replays a recorded response for the same request however it is spelled", async () => {
+    useFixtures("record");
+    script({ status: 200, body: JSON.stringify({ title: "Nocturne" }) });
+    const recorded = await httpFetch(`${baseUrl}/search?q=whistler&limit=5&apikey=first-secret`, {
+      method: "post",
+      body: JSON.stringify({ image: "a".repeat(2000), options: { a: 1, b: 2 } }),
+      provider: "fixturetest"
+    });
+    expect(await recorded.json()).toEqual({ title: "Nocturne" });
+
+    const [file] = fs.readdirSync(directory);
+    const fixture = fs.readFileSync(path.join(directory, file), "utf8");
+    expect(file).toMatch(/^127\.0\.0\.1-[0-9a-f]{24}\.json$/);
+    expect(fixture).not.toContain("first-secret");
+    expect(fixture).not.toContain("a".repeat(2000));
+
+    useFixtures("replay");
+    script();
+    const replayed = await httpFetch(`${baseUrl}/search?limit=5&q=whistler&apikey=second-secret`, {
+      method: "POST",
+      body: JSON.stringify({ options: { b: 2, a: 1 }, image: "a".repeat(2000) }),
+      provider: "fixturetest"
+    });
+    expect(replayed.status).toBe(200);
+    expect(await replayed.json()).toEqual({ title: "Nocturne" });
+    expect(requests).toHaveLength(0);
+  });
+
+  it("refuses to reach the network for a request that was never recorded", async () => {
+    useFixtures("replay");
+    script();
+
+    await expect(httpFetch(`${baseUrl}/search?q=hopper`, { provider: "fixturetest" }))
+      .rejects.toThrow(`No recorded fixture for GET ${baseUrl}/search?q=hopper`);
+    expect(requests).toHaveLength(0);
+  });
+});
+
+describe("retries", () => {
+  it("retries 429 and 5xx responses until one succeeds", async () => {
+    setting("HTTP_RETRYTEST_RETRIES", "2");
+    script(503, 429, 200);
+
+    const response = await httpFetch(`${baseUrl}/retry`, { provider: "retrytest" });
+
+    expect(response.status).toBe(200);
+    expect(requests).toHaveLength(3);
+  });
+
+  it("returns the last response once the retries run out", async () => {
+    setting("HTTP_RETRYTEST_RETRIES", "1");
+    script(500, 502, 200);
+
+    const response = await httpFetch(`${baseUrl}/retry`, { provider: "retrytest" });
+
+    expect(response.status).toBe(502);
+    expect(requests).toHaveLength(2);
+  });
+
+  it("does not retry other 4xx responses", async () => {
+    setting("HTTP_RETRYTEST_RETRIES", "2");
+    script(400, 401, 200);
+
+    const response = await httpFetch(`${baseUrl}/retry`, { provider: "retrytest" });
+
+    expect(response.status).toBe(400);
+    expect(requests).toHaveLength(1);
+  });
+
+  it("times out a slow attempt", async () => {
+    setting("HTTP_SLOWTEST_RETRIES", "0");
+    setting("HTTP_SLOWTEST_TIMEOUT_MS", "50");
+    script({ status: 200, delayMs: 1000 });
+
+    await expect(httpFetch(`${baseUrl}/slow`, { provider: "slowtest" }))
+      .rejects.toThrow("slowtest request timed out after 50 ms");
+  });
+});
+
+describe("retry delay", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const delays = (attempt: number) => {
+    const random = jest.spyOn(Math, "random");
+    random.mockReturnValue(0);
+    const shortest = retryDelay(attempt, null);
+    random.mockReturnValue(1);
+    return [shortest, retryDelay(attempt, null)];
+  };
+
+  it("doubles with each attempt, jittered between half and all of the step", () => {
+    expect(delays(0)).toEqual([150, 300]);
+    expect(delays(1)).toEqual([300, 600]);
+    expect(delays(3)).toEqual([1200, 2400]);
+  });
+
+  it("never waits longer than the cap", () => {
+    expect(delays(10)).toEqual([2500, 5000]);
+  });
+
+  it("honors a Retry-After header in seconds up to the cap, and ignores a date", () => {
+    const after = (seconds: string) => new Response("", { status: 429, headers: { "retry-after": seconds } });
+
+    expect(retryDelay(0, after("2"))).toBe(2000);
+    expect(retryDelay(0, after("3600"))).toBe(5000);
+    jest.spyOn(Math, "random").mockReturnValue(1);
+    expect(retryDelay(1, after("Wed, 21 Oct 2026 07:28:00 GMT"))).toBe(600);
+  });
+});
+
+describe("circuit breaker", () => {
+  const useBreaker = (provider: string) => {
+    const prefix = `HTTP_${provider.toUpperCase()}_`;
+    setting(`${prefix}RETRIES`, "0");
+    setting(`${prefix}BREAKER_THRESHOLD`, "2");
+    setting(`${prefix}BREAKER_COOLDOWN_MS`, "100");
+    return () => httpFetch(`${baseUrl}/breaker`, { provider });
+  };
+
+  it("opens after consecutive failures and fails fast while open", async () => {
+    const call = useBreaker("opentest");
+    script(500, 503, 200);
+
+    await call();
+    expect(circuitBreakerStates().opentest).toMatchObject({ state: "closed", consecutiveFailures: 1 });
+    await call();
+    expect(circuitBreakerStates().opentest).toMatchObject({ state: "open", consecutiveFailures: 2, lastError: "HTTP 503" });
+
+    await expect(call()).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(requests).toHaveLength(2);
+  });
+
+  it("closes again when the trial request after the cooldown succeeds", async () => {
+    const call = useBreaker("recovertest");
+    script(500, 500, 200);
+    await call();
+    await call();
+
+    await sleep(150);
+    expect(circuitBreakerStates().recovertest.state).toBe("half-open");
+    expect((await call()).status).toBe(200);
+    expect(circuitBreakerStates().recovertest).toMatchObject({ state: "closed", consecutiveFailures: 0, openUntil: null });
+  });
+
+  it("reopens at once when the trial request fails", async () => {
+    const call = useBreaker("trialtest");
+    script(500, 500, 500, 200);
+    await call();
+    await call();
+
+    await sleep(150);
+    await call();
+    expect(circuitBreakerStates().trialtest.state).toBe("open");
+    await expect(call()).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(requests).toHaveLength(3);
+  });
+
+  it("lets only one trial request through at a time", async () => {
+    const call = useBreaker("concurrenttest");
+    script(500, 500, { status: 200, delayMs: 50 });
+    await call();
+    await call();
+
+    await sleep(150);
+    const [trial, second] = await Promise.allSettled([call(), call()]);
+    expect(trial.status).toBe("fulfilled");
+    expect(second.status).toBe("rejected");
+    expect((second as PromiseRejectedResult).reason).toBeInstanceOf(CircuitOpenError);
+  });
+
+  it("counts rejected keys and spent quotas as failures, but not other 4xx", async () => {
+    const call = useBreaker("authtest");
+    script(404, 400, 401, 403);
+
+    await call();
+    await call();
+    expect(circuitBreakerStates().authtest).toMatchObject({ state: "closed", consecutiveFailures: 0 });
+    await call();
+    await call();
+    expect(circuitBreakerStates().authtest).toMatchObject({ state: "open", lastError: "HTTP 403" });
+  });
+
+  it("counts a 429 that outlasts its retries as a failure", async () => {
+    const call = useBreaker("quotatest");
+    script(429, 429);
+
+    await call();
+    await call();
+    expect(circuitBreakerStates().quotatest).toMatchObject({ state: "open", lastError: "HTTP 429" });
+  });
+});
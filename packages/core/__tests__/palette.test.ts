@@ -0,0 +1,85 @@
+import { describe, expect, it } from "@jest/globals";
+import sharp from "sharp";
+import { extractPalette, groundPalette } from "../src/recall/palette.js";
+import type { ColorSwatch } from "../src/types.js";
+
+// Stacked horizontal bands, top to bottom, as a base64 PNG
+async function bands(width: number, rows: [number, [number, number, number]][]) {
+  const height = rows.reduce((sum, [size]) => sum + size, 0);
+  const pixels = Buffer.alloc(width * height * 3);
+  let offset = 0;
+  for (const [size, color] of rows) {
+    for (let pixel = 0; pixel < width * size; pixel++, offset += 3) pixels.set(color, offset);
+  }
+  const png = await sharp(pixels, { raw: { width, height, channels: 3 } }).png().toBuffer();
+  return png.toString("base64");
+}
+
+const swatch = (hex: string, name: string, percentage = 0): ColorSwatch => ({
+  hex,
+  name,
+  percentage,
+  emotionalAssociation: "",
+  symbolicMeaning: "",
+  educationalNote: ""
+});
+
+describe("extractPalette", () => {
+  it("measures each color's share of the image", async () => {
+    const image = await bands(100, [[60, [30, 60, 200]], [30, [200, 30, 30]], [10, [255, 255, 255]]]);
+
+    const palette = await extractPalette(image);
+
+    expect(palette.map(({ hex, rgb, percentage }) => ({ hex, rgb, percentage }))).toEqual([
+      { hex: "#1e3cc8", rgb: "rgb(30, 60, 200)", percentage: 60 },
+      { hex: "#c81e1e", rgb: "rgb(200, 30, 30)", percentage: 30 },
+      { hex: "#ffffff", rgb: "rgb(255, 255, 255)", percentage: 10 }
+    ]);
+  });
+
+  it("reports where each color sits", async () => {
+    const image = await bands(90, [[30, [20, 120, 40]], [60, [240, 220, 160]]]);
+
+    const [sand, grass] = await extractPalette(image);
+
+    expect(grass.distribution.center).toEqual({ x: 0.5, y: expect.closeTo(1 / 6, 2) });
+    expect(grass.distribution.regions).toEqual([0.333, 0.333, 0.333, 0, 0, 0, 0, 0, 0]);
+    expect(sand.distribution.regions.slice(0, 3)).toEqual([0, 0, 0]);
+    expect(grass.distribution.spread).toBeLessThan(sand.distribution.spread);
+  });
+
+  it("merges shades the eye cannot tell apart and folds in slivers", async () => {
+    const image = await bands(100, [[50, [200, 30, 30]], [49, [204, 34, 32]], [1, [20, 200, 20]]]);
+
+    const palette = await extractPalette(image);
+
+    expect(palette).toHaveLength(1);
+    expect(palette[0].percentage).toBe(100);
+  });
+});
+
+describe("groundPalette", () => {
+  const measured = [
+    { ...swatch("#1e3cc8", "Blue", 60), family: "Blue" },
+    { ...swatch("#c81e1e", "Red", 30), family: "Red" }
+  ];
+
+  it("moves written colors onto the nearest measured ones", () => {
+    const grounded = groundPalette([swatch("#d02020", "Vermilion", 80), swatch("#2040c0", "Ultramarine", 5)], measured);
+
+    expect(grounded).toEqual([
+      expect.objectContaining({ name: "Ultramarine", hex: "#1e3cc8", percentage: 60, family: "Blue" }),
+      expect.objectContaining({ name: "Vermilion", hex: "#c81e1e", percentage: 30, family: "Red" })
+    ]);
+  });
+
+  it("drops colors that are not in the image or repeat a measured one", () => {
+    const grounded = groundPalette([swatch("#d02020", "Vermilion"), swatch("#c82828", "Crimson"), swatch("#00ff00", "Green")], measured);
+
+    expect(grounded.map(color => color.name)).toEqual(["Vermilion"]);
+  });
+
+  it("falls back to the measured palette when nothing matches", () => {
+    expect(groundPalette([swatch("#00ff00", "Green")], measured)).toBe(measured);
+  });
+});
@@ -0,0 +1,95 @@
+import { afterAll, beforeAll, describe, expect, it } from "@jest/globals";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { createPromptRegistry, parseTemplate } from "../src/prompts.js";
+
+const template = (variables: string, user: string) => [
+  "---",
+  "description: Test prompt",
+  `variables: ${variables}`,
+  "---",
+  "## system",
+  "You are an art educator.",
+  "## user",
+  user,
+  ""
+].join("\n");
+
+describe("parseTemplate", () => {
+  it("reads the front matter and both sections", () => {
+    expect(parseTemplate(template("labels, objects", "Labels: {{labels}}\nObjects: {{ objects }}"), { stage: "interpretation", version: "v2" })).toEqual({
+      id: "interpretation/v2",
+      stage: "interpretation",
+      version: "v2",
+      description: "Test prompt",
+      variables: ["labels", "objects"],
+      system: "You are an art educator.",
+      user: "Labels: {{labels}}\nObjects: {{ objects }}"
+    });
+  });
+
+  it("rejects placeholders that are not declared", () => {
+    expect(() => parseTemplate(template("labels", "Labels: {{labels}} {{lables}} {{lables}}"), { stage: "interpretation", version: "v1" }))
+      .toThrow("Prompt interpretation/v1 uses undeclared variables: lables");
+  });
+
+  it("rejects a file without front matter or sections", () => {
+    expect(() => parseTemplate("## system\nHi\n## user\nHello", { stage: "synthesis", version: "v1" }))
+      .toThrow("Prompt synthesis/v1 is missing its front matter");
+    expect(() => parseTemplate("---\nvariables:\n---\n## system\nHi\n", { stage: "synthesis", version: "v1" }))
+      .toThrow('Prompt synthesis/v1 needs both a "## system" and a "## user" section');
+  });
+});
+
+describe("createPromptRegistry", () => {
+  let directory: string;
+
+  beforeAll(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "prompts-"));
+    fs.mkdirSync(path.join(directory, "synthesis"));
+    fs.writeFileSync(path.join(directory, "synthesis", "v1.md"), template("title", "Old: {{title}}"));
+    fs.writeFileSync(path.join(directory, "synthesis", "v2.md"), template("title", "New: {{title}}"));
+    fs.writeFileSync(path.join(directory, "synthesis", "notes.md"), "Not a template");
+  });
+
+  afterAll(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("renders the latest version", () => {
+    const registry = createPromptRegistry({ PROMPTS_DIR: directory });
+
+    expect(registry.render("synthesis", { title: "Nocturne" })).toEqual({
+      id: "synthesis/v2",
+      messages: [
+        { role: "system", content: "You are an art educator." },
+        { role: "user", content: "New: Nocturne" }
+      ]
+    });
+  });
+
+  it("renders a pinned version", () => {
+    const registry = createPromptRegistry({ PROMPTS_DIR: directory, PROMPT_SYNTHESIS_VERSION: "1" });
+
+    expect(registry.render("synthesis", { title: "Nocturne" }).id).toBe("synthesis/v1");
+  });
+
+  it("fails at startup when the pinned version does not exist", () => {
+    expect(() => createPromptRegistry({ PROMPTS_DIR: directory, PROMPT_SYNTHESIS_VERSION: "v9" }))
+      .toThrow("Unknown prompt version for synthesis: v9");
+  });
+
+  it("requires a value for every declared variable", () => {
+    const registry = createPromptRegistry({ PROMPTS_DIR: directory });
+
+    expect(() => registry.render("synthesis", {})).toThrow("Prompt synthesis/v2 is missing values for: title");
+  });
+
+  it("loads the prompts shipped with the repository", () => {
+    const registry = createPromptRegistry({ PROMPTS_DIR: path.resolve("prompts") });
+
+    expect(registry.template("interpretation").id).toMatch(/^interpretation\/v\d+$/);
+    expect(registry.template("synthesis").id).toMatch(/^synthesis\/v\d+$/);
+  });
+});
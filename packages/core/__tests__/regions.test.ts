@@ -0,0 +1,120 @@
+import { describe, expect, it } from "@jest/globals";
+import { fuseRegions, linkRegions } from "../src/vision/regions.js";
+import type { BoundingBox, ComprehensiveEducationalAnalysis, ImageRegion, VisionResult } from "../src/types.js";
+
+const result = (provider: string, objects: VisionResult["objects"], faces: VisionResult["faces"] = []): VisionResult => ({
+  provider,
+  labels: [],
+  objects,
+  colors: [],
+  text: [],
+  faces,
+  categories: []
+});
+
+const box = (x: number, y: number, width: number, height: number): BoundingBox => ({ x, y, width, height });
+
+const region = (id: string, name: string): ImageRegion => ({
+  id,
+  kind: id.startsWith("face") ? "face" : "object",
+  name,
+  confidence: 0.9,
+  box: box(0, 0, 0.5, 0.5),
+  providers: ["google"]
+});
+
+describe("fuseRegions", () => {
+  it("merges overlapping detections of the same thing, keeping the most confident box", () => {
+    const regions = fuseRegions([
+      result("google", [{ name: "Boat", confidence: 0.7, box: box(0.1, 0.5, 0.3, 0.2) }]),
+      result("microsoft", [{ name: "boats", confidence: 0.9, box: box(0.12, 0.52, 0.3, 0.2) }])
+    ]);
+
+    expect(regions).toEqual([
+      { id: "object-1", kind: "object", name: "boat", confidence: 0.9, box: box(0.12, 0.52, 0.3, 0.2), providers: ["microsoft", "google"] }
+    ]);
+  });
+
+  it("keeps detections apart when their boxes barely overlap or their names differ", () => {
+    const regions = fuseRegions([
+      result("google", [
+        { name: "Tree", confidence: 0.8, box: box(0, 0, 0.4, 0.4) },
+        { name: "Boat", confidence: 0.6, box: box(0.5, 0.5, 0.2, 0.2) }
+      ]),
+      result("microsoft", [
+        // Overlaps the tree by a quarter of its width: IoU of about 0.14
+        { name: "Tree", confidence: 0.7, box: box(0.3, 0, 0.4, 0.4) },
+        { name: "Person", confidence: 0.9, box: box(0.5, 0.5, 0.2, 0.2) }
+      ])
+    ]);
+
+    expect(regions.map(({ id, name, providers }) => [id, name, providers])).toEqual([
+      ["object-1", "person", ["microsoft"]],
+      ["object-2", "tree", ["google"]],
+      ["object-3", "tree", ["microsoft"]],
+      ["object-4", "boat", ["google"]]
+    ]);
+  });
+
+  it("numbers objects then faces, most confident first, and leaves out detections without a box", () => {
+    const regions = fuseRegions([
+      result("google", [{ name: "Umbrella", confidence: 0.5, box: box(0.4, 0.1, 0.2, 0.2) }], [
+        { confidence: 0.6, box: box(0.1, 0.1, 0.05, 0.08) },
+        { confidence: null, box: null }
+      ]),
+      result("clarifai", [{ name: "Hat", confidence: 0.95, box: null }], [
+        { confidence: 0.99, box: box(0.7, 0.2, 0.05, 0.08) }
+      ])
+    ]);
+
+    expect(regions.map(({ id, kind, name, confidence }) => [id, kind, name, confidence])).toEqual([
+      ["object-1", "object", "umbrella", 0.5],
+      ["face-1", "face", "face", 0.99],
+      ["face-2", "face", "face", 0.6]
+    ]);
+  });
+
+  it("does not merge an object and a face with the same box", () => {
+    const same = box(0.2, 0.2, 0.1, 0.1);
+    const regions = fuseRegions([result("google", [{ name: "face", confidence: 0.8, box: same }], [{ confidence: 0.8, box: same }])]);
+
+    expect(regions.map(({ id }) => id)).toEqual(["object-1", "face-1"]);
+  });
+});
+
+describe("linkRegions", () => {
+  const analysis = {
+    compositionAnalysis: {
+      focalPoints: ["The couple under the umbrella", "Two people crossing the square", "The vanishing point"]
+    },
+    visualElements: [
+      { element: "Umbrellas", description: "repeat across the street", educationalValue: "" },
+      { element: "Lamp post", description: "splits the canvas in two", educationalValue: "" }
+    ]
+  } as unknown as Partial<ComprehensiveEducationalAnalysis>;
+
+  it("links focal points and visual elements to the regions they name", () => {
+    const regions = [region("object-1", "umbrella"), region("object-2", "person"), region("object-3", "person"), region("object-4", "lamp post")];
+
+    expect(linkRegions(regions, analysis)).toEqual([
+      { regionId: "object-1", section: "compositionAnalysis.focalPoints", index: 0, text: "The couple under the umbrella" },
+      { regionId: "object-2", section: "compositionAnalysis.focalPoints", index: 1, text: "Two people crossing the square" },
+      { regionId: "object-3", section: "compositionAnalysis.focalPoints", index: 1, text: "Two people crossing the square" },
+      { regionId: "object-1", section: "visualElements", index: 0, text: "Umbrellas repeat across the street" },
+      { regionId: "object-4", section: "visualElements", index: 1, text: "Lamp post splits the canvas in two" }
+    ]);
+  });
+
+  it("matches whole words only", () => {
+    expect(linkRegions([region("object-1", "point"), region("object-2", "cat")], {
+      compositionAnalysis: { focalPoints: ["A catalog of viewpoints", "The vanishing point"] }
+    } as unknown as Partial<ComprehensiveEducationalAnalysis>)).toEqual([
+      { regionId: "object-1", section: "compositionAnalysis.focalPoints", index: 1, text: "The vanishing point" }
+    ]);
+  });
+
+  it("links nothing without regions or an analysis", () => {
+    expect(linkRegions([], analysis)).toEqual([]);
+    expect(linkRegions([region("object-1", "umbrella")])).toEqual([]);
+  });
+});
@@ -0,0 +1,151 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from "@jest/globals";
+import {
+  UNAVAILABLE,
+  fillUnavailable,
+  initialInsightsSchema,
+  parseJsonReply,
+  requestStructured,
+  validate
+} from "../src/schemas.js";
+import type { Schema } from "../src/schemas.js";
+import type { ChatMessage } from "../src/llm.js";
+
+const schema: Schema = {
+  type: "object",
+  properties: {
+    title: { type: "string" },
+    mood: { type: "string", enum: ["calm", "tense"] },
+    confidence: { type: "number", minimum: 0, maximum: 1 },
+    tags: { type: "array", items: { type: "string" } },
+    details: { type: "object", properties: { medium: { type: "string" }, year: { type: "number" } } },
+    note: { type: "string" }
+  },
+  optional: ["note"]
+};
+
+const valid = {
+  title: "Wheat Field",
+  mood: "calm",
+  confidence: 0.4,
+  tags: ["landscape"],
+  details: { medium: "oil", year: 1889 }
+};
+
+// A completion function that answers with each reply in turn and records what it was sent
+function scripted(replies: string[]) {
+  const calls: ChatMessage[][] = [];
+  const complete = async (messages: ChatMessage[]) => {
+    calls.push(messages);
+    return replies[calls.length - 1];
+  };
+  return { complete, calls };
+}
+
+describe("validate", () => {
+  it("accepts a value that fits, without the optional property", () => {
+    expect(validate(schema, valid)).toEqual([]);
+  });
+
+  it("reports each problem with its path", () => {
+    expect(validate(schema, { ...valid, mood: "angry", confidence: 2, tags: ["a", 3], details: {} })).toEqual([
+      "$.mood: expected one of calm, tense",
+      "$.confidence: above 1",
+      "$.tags[1]: expected a string",
+      "$.details.medium: missing",
+      "$.details.year: missing"
+    ]);
+  });
+
+  it("rejects a value of the wrong type", () => {
+    expect(validate(schema, [])).toEqual(["$: expected an object"]);
+    expect(validate(schema, null)).toEqual(["$: missing"]);
+  });
+});
+
+describe("fillUnavailable", () => {
+  it("keeps what fits and marks the rest unavailable", () => {
+    const { value, unavailable } = fillUnavailable(schema, {
+      ...valid,
+      mood: "angry",
+      confidence: "high",
+      tags: ["landscape", 3]
+    });
+
+    expect(value).toEqual({ ...valid, mood: UNAVAILABLE, confidence: 0, tags: ["landscape"] });
+    expect(unavailable).toEqual(["mood", "confidence", "tags"]);
+  });
+
+  it("reports a missing section once rather than each field inside it", () => {
+    const { value, unavailable } = fillUnavailable(schema, { ...valid, details: undefined });
+
+    expect(value).toMatchObject({ details: { medium: UNAVAILABLE, year: 0 } });
+    expect(unavailable).toEqual(["details"]);
+  });
+
+  it("lists every section when there is nothing at all", () => {
+    const { value, unavailable } = fillUnavailable(initialInsightsSchema, undefined);
+
+    expect(unavailable).toEqual([
+      "styleInsights",
+      "techniqueInsights",
+      "themeInsights",
+      "mediumInsights",
+      "reflectionQuestions",
+      "learningObjectives"
+    ]);
+    expect(value).toMatchObject({ styleInsights: [], learningObjectives: [] });
+  });
+});
+
+describe("parseJsonReply", () => {
+  it("finds the object inside code fences and prose", () => {
+    expect(parseJsonReply("Here you go:\n```json\n{\"a\": 1}\n```")).toEqual({ a: 1 });
+  });
+
+  it("fails when there is no object", () => {
+    expect(() => parseJsonReply("Sorry, I can't help with that.")).toThrow("Response contained no JSON object");
+  });
+});
+
+describe("requestStructured", () => {
+  const messages: ChatMessage[] = [{ role: "user", content: "Describe the painting" }];
+
+  beforeEach(() => {
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("returns the first valid reply", async () => {
+    const { complete, calls } = scripted([JSON.stringify(valid)]);
+
+    await expect(requestStructured(complete, messages, schema)).resolves.toEqual({ value: valid, unavailable: [], attempts: 1 });
+    expect(calls).toHaveLength(1);
+  });
+
+  it("sends the problems back to the model for repair", async () => {
+    const { complete, calls } = scripted([JSON.stringify({ ...valid, mood: "angry" }), JSON.stringify(valid)]);
+
+    const result = await requestStructured(complete, messages, schema);
+
+    expect(result).toEqual({ value: valid, unavailable: [], attempts: 2 });
+    const repair = calls[1];
+    expect(repair.slice(0, 2)).toEqual([...messages, { role: "assistant", content: JSON.stringify({ ...valid, mood: "angry" }) }]);
+    expect(repair[2].content).toContain("$.mood: expected one of calm, tense");
+  });
+
+  it("completes the best reply once the repairs run out", async () => {
+    const { complete, calls } = scripted([
+      "not JSON",
+      JSON.stringify({ title: "Wheat Field" }),
+      JSON.stringify({ ...valid, mood: "angry" })
+    ]);
+
+    const result = await requestStructured(complete, messages, schema, { maxRepairs: 2 });
+
+    expect(calls).toHaveLength(3);
+    expect(result).toEqual({ value: { ...valid, mood: UNAVAILABLE }, unavailable: ["mood"], attempts: 3 });
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, expect, it } from "@jest/globals";
+import sharp from "sharp";
+import { performTextureAnalysis } from "../src/recall/texture.js";
+
+// A grayscale image drawn pixel by pixel, as a base64 PNG
+async function drawn(width: number, height: number, shade: (x: number, y: number) => number) {
+  const pixels = Buffer.alloc(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) pixels[y * width + x] = shade(x, y);
+  }
+  const png = await sharp(pixels, { raw: { width, height, channels: 1 } }).png().toBuffer();
+  return png.toString("base64");
+}
+
+// Black and white stripes 8 pixels wide
+const stripes = (position: (x: number, y: number) => number) => drawn(256, 256, (x, y) => (Math.floor(position(x, y) / 8) % 2 ? 255 : 0));
+
+// Repeatable noise, so the test does not depend on Math.random
+const noise = (x: number, y: number) => (Math.imul(x * 73856093 ^ y * 19349663, 2654435761) >>> 24) & 255;
+
+const peakBin = (histogram: number[]) => histogram.indexOf(Math.max(...histogram));
+
+describe("performTextureAnalysis", () => {
+  it("finds no marks, detail or heatmap on a flat image", async () => {
+    const texture = await performTextureAnalysis(await drawn(200, 120, () => 128));
+
+    expect(texture.measures).toEqual({
+      gradientEnergy: 0,
+      edgeDensity: 0,
+      detailLevel: 0,
+      detailConcentration: 0,
+      orientationCoherence: 0,
+      dominantOrientation: 90,
+      orientationHistogram: [0, 0, 0, 0, 0, 0, 0, 0]
+    });
+    expect(texture.heatmap).toBeNull();
+    expect(texture.textureTypes).toEqual([
+      "Smooth surface: tones blend with few distinct marks",
+      "Soft detail with gentle transitions"
+    ]);
+    expect(texture.techniqueNotes[0]).toMatch(/^Smooth transitions suggest blending/);
+  });
+
+  it("reads the direction marks run from stripes", async () => {
+    const vertical = await performTextureAnalysis(await stripes(x => x));
+    const horizontal = await performTextureAnalysis(await stripes((x, y) => y));
+    // Constant along x + y: from the lower left up to the upper right
+    const rising = await performTextureAnalysis(await stripes((x, y) => x + y));
+
+    expect(vertical.measures).toMatchObject({ dominantOrientation: 90, orientationCoherence: 1 });
+    expect(peakBin(vertical.measures.orientationHistogram)).toBe(4);
+    expect(vertical.techniqueNotes[0]).toBe("Marks run mostly vertically, suggesting strokes applied with one consistent movement");
+
+    expect(horizontal.measures).toMatchObject({ dominantOrientation: 0, orientationCoherence: 1 });
+    expect(peakBin(horizontal.measures.orientationHistogram)).toBe(0);
+    expect(horizontal.techniqueNotes[0]).toMatch(/^Marks run mostly horizontally/);
+
+    expect(rising.measures.dominantOrientation).toBe(45);
+    expect(rising.measures.orientationCoherence).toBeGreaterThan(0.9);
+    expect(peakBin(rising.measures.orientationHistogram)).toBe(2);
+    expect(rising.techniqueNotes[0]).toMatch(/^Marks run mostly diagonally, rising to the right/);
+  });
+
+  it("sees marks in every direction in noise", async () => {
+    const texture = await performTextureAnalysis(await drawn(256, 256, noise));
+
+    expect(texture.measures.edgeDensity).toBeGreaterThan(0.5);
+    expect(texture.measures.detailLevel).toBeGreaterThan(0.04);
+    expect(texture.measures.orientationCoherence).toBeLessThan(0.3);
+    expect(Math.max(...texture.measures.orientationHistogram)).toBeLessThan(0.25);
+    expect(texture.textureTypes).toEqual([
+      "Broken, busy surface: distinct marks cover much of the image",
+      "Fine, crisp detail or grain"
+    ]);
+    expect(texture.techniqueNotes).toContain("Detail is spread evenly across the surface, with no single area worked more finely");
+  });
+
+  it("maps where the detail is", async () => {
+    // Noise in the top left quarter of an otherwise flat image
+    const texture = await performTextureAnalysis(await drawn(256, 256, (x, y) => (x < 128 && y < 128 ? noise(x, y) : 128)));
+
+    expect(texture.measures.detailConcentration).toBeGreaterThan(0.9);
+    expect(texture.techniqueNotes).toContain("Detail is concentrated in a few areas, where the artist worked most finely and the eye is drawn");
+    expect(texture.heatmap).toMatchObject({ columns: 16, rows: 16, image: expect.stringMatching(/^data:image\/png;base64,/) });
+
+    const { data, info } = await sharp(Buffer.from(texture.heatmap!.image.split(",")[1], "base64"))
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    const alpha = (column: number, row: number) => data[(row * info.width + column) * info.channels + 3];
+    expect(info).toMatchObject({ width: 16, height: 16, channels: 4 });
+    expect(alpha(2, 2)).toBeGreaterThan(150);
+    expect(alpha(13, 13)).toBe(0);
+  });
+
+  it("measures large images at a reduced size", async () => {
+    const texture = await performTextureAnalysis(await drawn(1024, 512, noise));
+
+    expect(texture.heatmap).toMatchObject({ columns: 32, rows: 16 });
+  });
+
+  it("rejects an image too small to measure", async () => {
+    await expect(performTextureAnalysis(await drawn(2, 40, () => 0))).rejects.toThrow("Image too small for texture analysis: 2x40");
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, expect, it } from "@jest/globals";
+import { recordHttp, recordTokens, stageTiming, Trace, traceCall } from "../src/trace.js";
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// A provider call that waits, then makes `requests` HTTP requests
+const call = (name: string, waitMs: number, requests = 1, result: unknown = [name]) =>
+  traceCall(name, { kind: "recall" }, async () => {
+    await sleep(waitMs);
+    for (let i = 0; i < requests; i++) recordHttp({ provider: name, bytesSent: 10, bytesReceived: 100 });
+    return result;
+  });
+
+describe("Trace", () => {
+  it("nests each call under the stage it ran in while stages of other analyses run alongside", async () => {
+    const first = new Trace();
+    const second = new Trace();
+
+    // The calls finish in a different order from the one they started in, and
+    // the two analyses interleave
+    const [a, b] = await Promise.all([
+      first.stage("recall", () => Promise.all([call("met", 30, 2), call("harvard", 5)])),
+      second.stage("recall", () => Promise.all([call("artic", 15), call("wikipedia", 20, 3)]))
+    ]);
+
+    expect(a.span.children.map(child => child.name)).toEqual(["met", "harvard"]);
+    expect(b.span.children.map(child => child.name)).toEqual(["artic", "wikipedia"]);
+    expect(a.span.children.map(child => child.usage.requests)).toEqual([2, 1]);
+    expect(b.span.children.map(child => child.usage.requests)).toEqual([1, 3]);
+    expect(a.span.usage).toMatchObject({ requests: 3, bytesSent: 30, bytesReceived: 300 });
+    expect(first.root.usage.requests).toBe(3);
+    expect(second.root.usage.requests).toBe(4);
+    expect(Object.keys(first.providerUsage()).sort()).toEqual(["harvard", "met"]);
+    expect(Object.keys(second.providerUsage()).sort()).toEqual(["artic", "wikipedia"]);
+  });
+
+  it("nests a call made inside another call, counting its usage toward both", async () => {
+    const trace = new Trace();
+
+    const { span } = await trace.stage("interpretation", () =>
+      traceCall("interpret", { kind: "llm" }, async () => {
+        recordTokens({ provider: "openai", model: "gpt-4o-mini", promptTokens: 300, completionTokens: 200 });
+        await Promise.all([call("wikipedia", 10), call("met", 5)]);
+        return "insights";
+      }));
+
+    const [interpret] = span.children;
+    expect(interpret.children.map(child => child.name)).toEqual(["wikipedia", "met"]);
+    expect(interpret.usage).toMatchObject({ requests: 2, promptTokens: 300, completionTokens: 200 });
+    expect(span.usage).toMatchObject({ requests: 2, promptTokens: 300 });
+    expect(trace.providerUsage().openai).toEqual({
+      requests: 0,
+      failedRequests: 0,
+      promptTokens: 300,
+      completionTokens: 200,
+      models: { "gpt-4o-mini": { promptTokens: 300, completionTokens: 200 } }
+    });
+  });
+
+  it("keeps stages run one after another apart", async () => {
+    const trace = new Trace();
+
+    const vision = await trace.stage("vision", () => call("google", 0));
+    const recall = await trace.stage("recall", () => call("met", 0));
+    trace.end();
+
+    expect(trace.root.children).toEqual([vision.span, recall.span]);
+    expect(vision.span.children.map(child => child.name)).toEqual(["google"]);
+    expect(recall.span.children.map(child => child.name)).toEqual(["met"]);
+    expect(trace.summary()).toMatchObject({ requests: 2 });
+    expect(stageTiming(recall.span)).toMatchObject({ requests: 1, calls: [{ name: "met", kind: "recall", status: "ok", requests: 1 }] });
+  });
+
+  it("closes a stage that throws as failed and rethrows", async () => {
+    const trace = new Trace();
+
+    await expect(trace.stage("synthesis", async () => {
+      throw new Error("LLM unavailable");
+    })).rejects.toThrow("LLM unavailable");
+
+    expect(trace.root.children[0]).toMatchObject({ name: "synthesis", status: "failed", error: "LLM unavailable" });
+    expect(trace.root.children[0].endedAt).not.toBeNull();
+  });
+});
+
+describe("traceCall", () => {
+  const statusOf = async (fn: () => Promise<unknown>) => {
+    const trace = new Trace();
+    await trace.stage("recall", () => traceCall("source", { kind: "recall" }, fn).catch(() => null));
+    const [span] = trace.root.children[0].children;
+    return { status: span.status, error: span.error };
+  };
+
+  it("marks a call ok, empty, or failed when it throws or comes back empty after an HTTP error", async () => {
+    expect(await statusOf(async () => [{ title: "Nocturne" }])).toEqual({ status: "ok", error: null });
+    expect(await statusOf(async () => [])).toEqual({ status: "empty", error: null });
+    expect(await statusOf(async () => {
+      recordHttp({ provider: "met", error: "HTTP 503" });
+      return null;
+    })).toEqual({ status: "failed", error: "HTTP 503" });
+    expect(await statusOf(async () => {
+      throw new Error("Invalid response");
+    })).toEqual({ status: "failed", error: "Invalid response" });
+  });
+
+  it("counts failed requests, but a retry that succeeds leaves a call that found nothing empty", async () => {
+    const trace = new Trace();
+
+    const { span } = await trace.stage("recall", () => traceCall("met", { kind: "recall" }, async () => {
+      recordHttp({ provider: "met", error: "HTTP 429" });
+      recordHttp({ provider: "met", bytesReceived: 50 });
+      return null;
+    }));
+
+    expect(span.children[0]).toMatchObject({ status: "empty", usage: { requests: 2, failedRequests: 1 } });
+    expect(trace.providerUsage().met).toMatchObject({ requests: 2, failedRequests: 1 });
+  });
+
+  it("just runs the function outside a trace", async () => {
+    const result = await traceCall("met", { kind: "recall" }, async () => {
+      recordHttp({ provider: "met" });
+      recordTokens({ provider: "openai", promptTokens: 10 });
+      return "untraced";
+    });
+
+    expect(result).toBe("untraced");
+  });
+});
@@ -0,0 +1,185 @@
+// Client for the analysis server, shared by the mobile app and the web demo
+// The server emits Server-Sent Events from /api/analyze-comprehensive/stream as
+// each pipeline stage finishes. React Native's fetch cannot read a response body
+// incrementally, so this uses XMLHttpRequest, whose responseText grows on every
+// progress event; browsers support the same. The request body is either JSON
+// (`{ imageBase64 }`) or a FormData upload with an `image` file.
+// Only types are imported, so bundlers pull in nothing from the server side.
+
+import type {
+  AnalysisStreamEvents,
+  ComprehensiveAnalysisResponse,
+  RecallData,
+  RecallSource,
+  StreamedStage
+} from "./types.js";
+
+// The server answered with an error status before streaming began
+export class AnalysisRequestError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "AnalysisRequestError";
+    this.status = status;
+  }
+}
+
+export interface AnalysisProgressHandlers {
+  // Fraction (0-1) of the request body sent so far
+  onUploadProgress?: (fraction: number) => void;
+  onStage?: (stage: StreamedStage) => void;
+  onRecallSource?: <Source extends RecallSource>(source: Source, data: RecallData[Source]) => void;
+}
+
+export interface AnalysisStreamHandlers extends AnalysisProgressHandlers {
+  onComplete: (result: ComprehensiveAnalysisResponse) => void;
+  onError: (error: Error) => void;
+}
+
+// An event as it arrives; narrowing on `event` types `data`
+type StreamMessage = {
+  [Event in keyof AnalysisStreamEvents]: { event: Event; data: AnalysisStreamEvents[Event] };
+}[keyof AnalysisStreamEvents];
+
+const STREAM_EVENTS: (keyof AnalysisStreamEvents)[] = ["stage", "recall-source", "complete", "error"];
+
+const isStreamEvent = (event: string): event is keyof AnalysisStreamEvents =>
+  (STREAM_EVENTS as string[]).includes(event);
+
+// Starts the streaming analysis and returns a function that aborts it.
+export function streamComprehensiveAnalysis(
+  url: string,
+  body: object | FormData,
+  handlers: AnalysisStreamHandlers
+): () => void {
+  const xhr = new XMLHttpRequest();
+  let cursor = 0;
+  let finished = false;
+
+  const finish = (callback: () => void) => {
+    if (finished) return;
+    finished = true;
+    callback();
+  };
+
+  const dispatch = (message: StreamMessage) => {
+    switch (message.event) {
+      case "stage":
+        handlers.onStage?.(message.data);
+        break;
+      case "recall-source":
+        handlers.onRecallSource?.(message.data.source, message.data.data);
+        break;
+      case "complete":
+        finish(() => handlers.onComplete(message.data));
+        break;
+      case "error":
+        finish(() => handlers.onError(new Error(message.data.details || message.data.error || "Analysis failed")));
+        break;
+    }
+  };
+
+  // Parse every complete event block ("event: ...\ndata: ...\n\n") received so far
+  const consume = () => {
+    const text = xhr.responseText || "";
+    let boundary = text.indexOf("\n\n", cursor);
+
+    while (boundary !== -1) {
+      const block = text.slice(cursor, boundary);
+      cursor = boundary + 2;
+
+      let event = "message";
+      const dataLines: string[] = [];
+      block.split("\n").forEach(line => {
+        if (line.startsWith("event:")) event = line.slice(6).trim();
+        else if (line.startsWith("data:")) dataLines.push(line.slice(5).trim());
+      });
+
+      // Other events are ignored, so the server can add new ones
+      if (dataLines.length > 0 && isStreamEvent(event)) {
+        try {
+          // The payload is trusted to match its event name
+          dispatch({ event, data: JSON.parse(dataLines.join("\n")) });
+        } catch (error) {
+          console.warn("Ignoring malformed analysis event:", error);
+        }
+      }
+
+      boundary = text.indexOf("\n\n", cursor);
+    }
+  };
+
+  xhr.onprogress = consume;
+  xhr.onload = () => {
+    if (xhr.status < 200 || xhr.status >= 300) {
+      let message = `Analysis failed: ${xhr.status}`;
+      try {
+        message = JSON.parse(xhr.responseText).error || message;
+      } catch {
+        // Not a JSON error body
+      }
+      finish(() => handlers.onError(new AnalysisRequestError(message, xhr.status)));
+      return;
+    }
+    consume();
+    finish(() => handlers.onError(new Error("Analysis stream ended unexpectedly")));
+  };
+  xhr.onerror = () => finish(() => handlers.onError(new Error("Network request failed")));
+  if (xhr.upload) {
+    xhr.upload.onprogress = event => {
+      if (event.lengthComputable && event.total > 0) {
+        handlers.onUploadProgress?.(event.loaded / event.total);
+      }
+    };
+  }
+
+  xhr.open("POST", url);
+  xhr.setRequestHeader("Accept", "text/event-stream");
+  if (body instanceof FormData) {
+    // XMLHttpRequest sets the multipart boundary itself
+    xhr.send(body);
+  } else {
+    xhr.setRequestHeader("Content-Type", "application/json");
+    xhr.send(JSON.stringify(body));
+  }
+
+  return () => {
+    finished = true;
+    xhr.abort();
+  };
+}
+
+// Promise form of streamComprehensiveAnalysis: resolves with the final response
+// once the `complete` event arrives. Aborting `signal` cancels the request and
+// rejects with an AbortError.
+export function analyzeComprehensive(
+  url: string,
+  body: object | FormData,
+  { signal, ...handlers }: AnalysisProgressHandlers & { signal?: AbortSignal } = {}
+): Promise<ComprehensiveAnalysisResponse> {
+  return new Promise((resolve, reject) => {
+    const abortError = () => Object.assign(new Error("Analysis aborted"), { name: "AbortError" });
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+
+    const onAbort = () => {
+      cancel();
+      reject(abortError());
+    };
+    const cancel = streamComprehensiveAnalysis(url, body, {
+      ...handlers,
+      onComplete: result => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve(result);
+      },
+      onError: error => {
+        signal?.removeEventListener("abort", onAbort);
+        reject(error);
+      }
+    });
+    signal?.addEventListener("abort", onAbort);
+  });
+}
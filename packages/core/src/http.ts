@@ -0,0 +1,357 @@
+// Outbound HTTP for the pipeline
+// Every external API call goes through httpFetch so it can be recorded to, or
+// replayed from, fixture files. HTTP_FIXTURE_MODE selects the behavior:
+//   off (default)  talk to the network
+//   record         talk to the network and save each request/response pair
+//   replay         serve saved responses and never touch the network
+// Fixtures live in HTTP_FIXTURE_DIR (default fixtures/http), one JSON file per
+// request, named after a hash of the normalized request.
+//
+// Network calls are also guarded per provider (see `provider` below):
+//   timeout   each attempt is aborted after HTTP_TIMEOUT_MS
+//   retries   429, 5xx, timeouts and network errors are retried up to
+//             HTTP_RETRIES times with jittered exponential backoff
+//   breaker   after HTTP_BREAKER_THRESHOLD consecutive failed requests the
+//             provider is skipped for HTTP_BREAKER_COOLDOWN_MS, then one trial
+//             request decides whether it is used again. Timeouts, network
+//             errors, 5xx and the 401/403/429 a bad key or spent quota give
+//             count as failures; other 4xx are the caller's mistake
+// Each setting can be overridden per provider, e.g. HTTP_MICROSOFT_TIMEOUT_MS.
+
+import fs from "fs/promises";
+import path from "path";
+import { createHash } from "crypto";
+import fetch, { RequestInit, Response } from "node-fetch";
+import { recordHttp } from "./trace.js";
+
+export type { Response };
+
+// `provider` names the API for timeouts, retries and the circuit breaker
+export interface HttpOptions extends Omit<RequestInit, "body" | "signal"> {
+  body?: string | Buffer;
+  signal?: AbortSignal;
+  provider?: string;
+}
+
+interface HttpPolicy {
+  timeoutMs: number;
+  retries: number;
+  breakerThreshold: number;
+  breakerCooldownMs: number;
+}
+
+interface RecordedResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: string;
+}
+
+// Query parameters that carry credentials; they never reach a fixture or its key
+const SECRET_PARAMS = ["key", "apikey", "api_key", "access_token"];
+
+// Long strings in JSON bodies are almost always base64 images
+const MAX_INLINE_STRING = 1024;
+
+const fixtureMode = () => process.env.HTTP_FIXTURE_MODE || "off";
+const fixtureDir = () => process.env.HTTP_FIXTURE_DIR || path.resolve("fixtures/http");
+
+const sha256 = (value: string | Buffer) => createHash("sha256").update(value).digest("hex");
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+// Providers are named explicitly by the caller, or after the API's host
+const PROVIDER_HOSTS: Record<string, string> = {
+  "api.clarifai.com": "clarifai",
+  "vision.googleapis.com": "google",
+  "api.openai.com": "openai",
+  "collectionapi.metmuseum.org": "met",
+  "api.harvardartmuseums.org": "harvard",
+  "api.artic.edu": "artic",
+  "api.artsearch.io": "artsearch",
+  "api.allorigins.win": "allorigins",
+  "en.wikipedia.org": "wikipedia"
+};
+
+// Defaults per provider; LLM completions are slow, museum APIs should be quick
+const DEFAULT_POLICY: HttpPolicy = { timeoutMs: 10000, retries: 2, breakerThreshold: 5, breakerCooldownMs: 30000 };
+const POLICY_DEFAULTS: Record<string, Partial<HttpPolicy>> = {
+  openai: { timeoutMs: 60000, retries: 1 },
+  llm: { timeoutMs: 60000, retries: 1 },
+  clarifai: { timeoutMs: 15000 },
+  google: { timeoutMs: 15000 },
+  microsoft: { timeoutMs: 15000 }
+};
+
+const RETRY_BASE_MS = 300;
+const MAX_RETRY_DELAY_MS = 5000;
+
+export class CircuitOpenError extends Error {
+  provider: string;
+  openUntil: number;
+
+  constructor(provider: string, openUntil: number) {
+    super(`${provider} is temporarily disabled after repeated failures (retrying after ${new Date(openUntil).toISOString()})`);
+    this.name = "CircuitOpenError";
+    this.provider = provider;
+    this.openUntil = openUntil;
+  }
+}
+
+export const providerFor = (url: string) => {
+  const host = new URL(url).hostname;
+  return PROVIDER_HOSTS[host] || host;
+};
+
+function policyFor(provider: string, env: NodeJS.ProcessEnv = process.env): HttpPolicy {
+  const prefix = `HTTP_${provider.toUpperCase().replace(/[^A-Z0-9]/g, "_")}_`;
+  const setting = (name: string, key: keyof HttpPolicy) => {
+    const value = env[`${prefix}${name}`] ?? env[`HTTP_${name}`];
+    return value !== undefined ? Number(value) : (POLICY_DEFAULTS[provider]?.[key] ?? DEFAULT_POLICY[key]);
+  };
+  return {
+    timeoutMs: setting("TIMEOUT_MS", "timeoutMs"),
+    retries: setting("RETRIES", "retries"),
+    breakerThreshold: setting("BREAKER_THRESHOLD", "breakerThreshold"),
+    breakerCooldownMs: setting("BREAKER_COOLDOWN_MS", "breakerCooldownMs")
+  };
+}
+
+// -------- CIRCUIT BREAKERS --------
+// closed: requests flow; open: requests fail fast until the cooldown ends;
+// half-open: one trial request is let through to test the provider
+interface Breaker {
+  state: "closed" | "open" | "half-open";
+  failures: number;
+  openUntil: number | null;
+  lastError: string | null;
+  trialInFlight: boolean;
+}
+
+const breakers = new Map<string, Breaker>();
+
+function breakerFor(provider: string) {
+  if (!breakers.has(provider)) {
+    breakers.set(provider, { state: "closed", failures: 0, openUntil: null, lastError: null, trialInFlight: false });
+  }
+  return breakers.get(provider)!;
+}
+
+function enterBreaker(provider: string) {
+  const breaker = breakerFor(provider);
+  if (breaker.state === "open") {
+    if (Date.now() < breaker.openUntil!) {
+      throw new CircuitOpenError(provider, breaker.openUntil!);
+    }
+    breaker.state = "half-open";
+  }
+  if (breaker.state === "half-open") {
+    if (breaker.trialInFlight) {
+      throw new CircuitOpenError(provider, breaker.openUntil!);
+    }
+    breaker.trialInFlight = true;
+  }
+  return breaker;
+}
+
+function recordOutcome(breaker: Breaker, policy: HttpPolicy, error: string | null) {
+  breaker.trialInFlight = false;
+  if (!error) {
+    breaker.state = "closed";
+    breaker.failures = 0;
+    breaker.openUntil = null;
+    return;
+  }
+  breaker.failures += 1;
+  breaker.lastError = error;
+  if (breaker.state === "half-open" || breaker.failures >= policy.breakerThreshold) {
+    breaker.state = "open";
+    breaker.openUntil = Date.now() + policy.breakerCooldownMs;
+  }
+}
+
+// Breaker state per provider, for the status endpoint
+export function circuitBreakerStates() {
+  return Object.fromEntries([...breakers].map(([provider, breaker]) => [provider, {
+    state: breaker.state === "open" && Date.now() >= breaker.openUntil! ? "half-open" : breaker.state,
+    consecutiveFailures: breaker.failures,
+    openUntil: breaker.openUntil ? new Date(breaker.openUntil).toISOString() : null,
+    lastError: breaker.lastError
+  }]));
+}
+
+const isRetryableStatus = (status: number) => status === 429 || status >= 500;
+
+// A rejected key or an exhausted quota will not recover on the next request
+const isBreakerFailure = (status: number) => status === 401 || status === 403 || isRetryableStatus(status);
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener("abort", () => {
+    clearTimeout(timer);
+    reject(signal.reason);
+  }, { once: true });
+});
+
+// Honors a Retry-After header in seconds. Otherwise the delay doubles with each
+// attempt, with equal jitter: between half and all of the exponential step.
+export function retryDelay(attempt: number, response: Response | null) {
+  const retryAfter = Number(response?.headers.get("retry-after"));
+  if (retryAfter > 0) return Math.min(retryAfter * 1000, MAX_RETRY_DELAY_MS);
+  return Math.min(RETRY_BASE_MS * 2 ** attempt, MAX_RETRY_DELAY_MS) * (0.5 + Math.random() / 2);
+}
+
+// The DOM typings this package compiles against predate these Node 20 statics
+const Signals = AbortSignal as typeof AbortSignal & {
+  timeout(ms: number): AbortSignal;
+  any(signals: AbortSignal[]): AbortSignal;
+};
+
+// One network request with the provider's timeout, retries and breaker applied.
+// Resolves with the last response (which may still be a 429/5xx once retries run
+// out) and rejects on timeouts, network errors and open circuits.
+async function guardedFetch(url: string, { provider: name, ...options }: HttpOptions): Promise<Response> {
+  const provider = name || providerFor(url);
+  const policy = policyFor(provider);
+  const breaker = enterBreaker(provider);
+  const bytesSent = options.body ? Buffer.byteLength(options.body) : 0;
+
+  let attempt = 0;
+  for (;;) {
+    const timeout = Signals.timeout(policy.timeoutMs);
+    const signal = options.signal ? Signals.any([options.signal, timeout]) : timeout;
+
+    let response: Response | null = null;
+    let failure: string | null = null;
+    try {
+      response = await fetch(url, { ...options, signal });
+      // Read the body here so the timeout covers it and the trace can count it
+      const body = Buffer.from(await response.arrayBuffer());
+      response = new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+      if (isBreakerFailure(response.status)) failure = `HTTP ${response.status}`;
+      recordHttp({ provider, bytesSent, bytesReceived: body.length, error: response.ok ? null : `HTTP ${response.status}` });
+    } catch (error) {
+      // The caller gave up; that says nothing about the provider's health
+      if (options.signal?.aborted) {
+        breaker.trialInFlight = false;
+        throw error;
+      }
+      failure = timeout.aborted ? `Timed out after ${policy.timeoutMs} ms` : errorMessage(error);
+      recordHttp({ provider, bytesSent, error: failure });
+      if (attempt >= policy.retries) {
+        recordOutcome(breaker, policy, failure);
+        throw timeout.aborted ? new Error(`${provider} request timed out after ${policy.timeoutMs} ms`) : error;
+      }
+    }
+
+    if (response && (!failure || !isRetryableStatus(response.status) || attempt >= policy.retries)) {
+      recordOutcome(breaker, policy, failure);
+      return response;
+    }
+
+    try {
+      await sleep(retryDelay(attempt, response), options.signal);
+    } catch (error) {
+      breaker.trialInFlight = false;
+      throw error;
+    }
+    attempt += 1;
+  }
+}
+
+// `options.provider` names the API for timeouts, retries and the circuit
+// breaker; it defaults to one derived from the URL's host
+export async function httpFetch(url: string, options: HttpOptions = {}): Promise<Response> {
+  const mode = fixtureMode();
+  if (mode === "off") {
+    return guardedFetch(url, options);
+  }
+
+  const request = normalizeRequest(url, options);
+  const file = path.join(fixtureDir(), fixtureName(request));
+
+  if (mode === "replay") {
+    let fixture: { response: RecordedResponse };
+    try {
+      fixture = JSON.parse(await fs.readFile(file, "utf8"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        throw new Error(`No recorded fixture for ${request.method} ${request.url} (${path.basename(file)})`);
+      }
+      throw error;
+    }
+    recordHttp({
+      provider: options.provider || providerFor(url),
+      bytesSent: options.body ? Buffer.byteLength(options.body) : 0,
+      bytesReceived: Buffer.byteLength(fixture.response.body),
+      error: fixture.response.status >= 400 ? `HTTP ${fixture.response.status}` : null
+    });
+    return toResponse(fixture.response);
+  }
+
+  if (mode !== "record") {
+    throw new Error(`Unknown HTTP_FIXTURE_MODE: ${mode}`);
+  }
+
+  const response = await guardedFetch(url, options);
+  const recorded: RecordedResponse = {
+    status: response.status,
+    statusText: response.statusText,
+    headers: { "content-type": response.headers.get("content-type") || "application/json" },
+    body: await response.text()
+  };
+
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, JSON.stringify({ request, response: recorded }, null, 2));
+  return toResponse(recorded);
+}
+
+// Reduces a request to the parts that identify it: method, URL without
+// credentials and with sorted query parameters, and a canonical body.
+// Headers are left out because they mostly carry API keys.
+function normalizeRequest(url: string, { method = "GET", body }: HttpOptions = {}) {
+  const parsed = new URL(url);
+  SECRET_PARAMS.forEach(param => parsed.searchParams.delete(param));
+  parsed.searchParams.sort();
+
+  return {
+    method: method.toUpperCase(),
+    url: parsed.toString(),
+    body: normalizeBody(body)
+  };
+}
+
+function normalizeBody(body: string | Buffer | undefined): unknown {
+  if (body === undefined || body === null) return null;
+  if (typeof body !== "string") {
+    return `sha256:${sha256(Buffer.from(body))}`;
+  }
+
+  try {
+    return canonicalJson(JSON.parse(body));
+  } catch {
+    return body.length > MAX_INLINE_STRING ? `sha256:${sha256(body)}` : body;
+  }
+}
+
+// Sorts object keys so property order does not change the hash
+function canonicalJson(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(canonicalJson);
+  if (value && typeof value === "object") {
+    const object = value as Record<string, unknown>;
+    return Object.fromEntries(Object.keys(object).sort().map(key => [key, canonicalJson(object[key])]));
+  }
+  if (typeof value === "string" && value.length > MAX_INLINE_STRING) {
+    return `sha256:${sha256(value)}`;
+  }
+  return value;
+}
+
+function fixtureName(request: { url: string }) {
+  const host = new URL(request.url).hostname;
+  return `${host}-${sha256(JSON.stringify(request)).slice(0, 24)}.json`;
+}
+
+function toResponse({ status, statusText, headers, body }: RecordedResponse) {
+  return new Response(body, { status, statusText, headers });
+}
@@ -0,0 +1,59 @@
+// Image helpers for the pipeline
+// Images reach the pipeline already normalized by the server (a JPEG data URL
+// with no metadata); vision providers then get a copy downscaled to their own
+// limits (see `limits` on each provider).
+
+import sharp from "sharp";
+
+export class ImageError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "ImageError";
+    this.status = status;
+  }
+}
+
+// What a vision provider accepts; both optional
+export interface ImageLimits {
+  maxDimension?: number;
+  maxBytes?: number;
+}
+
+// Strips an optional data URL prefix and decodes the base64 payload
+export function decodeBase64Image(imageBase64: string) {
+  const base64Content = imageBase64.includes(",") ? imageBase64.split(",")[1] : imageBase64;
+  return Buffer.from(base64Content, "base64");
+}
+
+// Pixel size of an encoded image
+export async function imageDimensions(imageBase64: string) {
+  const { width = 0, height = 0 } = await sharp(decodeBase64Image(imageBase64)).metadata();
+  return { width, height };
+}
+
+// Downscales a prepared image to a provider's `{ maxDimension, maxBytes }`,
+// lowering JPEG quality if the size limit still is not met. Images already
+// within limits are returned unchanged.
+export async function fitImageToLimits(imageBase64: string, limits: ImageLimits = {}) {
+  const { maxDimension, maxBytes } = limits;
+  if (!maxDimension && !maxBytes) return imageBase64;
+
+  const buffer = decodeBase64Image(imageBase64);
+  const { width = 0, height = 0 } = await sharp(buffer).metadata();
+  const withinDimension = !maxDimension || Math.max(width, height) <= maxDimension;
+  if (withinDimension && (!maxBytes || buffer.length <= maxBytes)) return imageBase64;
+
+  for (const quality of [85, 75, 65, 55]) {
+    const resized = await sharp(buffer)
+      .resize(maxDimension || width, maxDimension || height, { fit: "inside", withoutEnlargement: true })
+      .jpeg({ quality })
+      .toBuffer();
+    if (!maxBytes || resized.length <= maxBytes) {
+      return `data:image/jpeg;base64,${resized.toString("base64")}`;
+    }
+  }
+
+  throw new ImageError(`Image cannot be compressed below ${maxBytes} bytes`, 413);
+}
@@ -0,0 +1,39 @@
+// @slowlook/core: the analysis pipeline and everything it is built from
+// The server imports from here. Clients import only ./types and ./client, which
+// have no Node dependencies.
+
+export * from "./types.js";
+
+export { createPipeline } from "./pipeline.js";
+export type { AnalysisPipeline, PipelineOptions, PipelineResult, RunOptions } from "./pipeline.js";
+
+export { createVisionRegistry, combineVisionResults, emptyVisionResult, registerVisionProvider, VisionRegistry } from "./vision/index.js";
+export type { VisionAnalysis, VisionProvider, VisionProviderFactory } from "./vision/index.js";
+export { fuseLabels, normalizeLabel } from "./vision/fusion.js";
+export { fuseRegions, linkRegions } from "./vision/regions.js";
+
+export { createLlmClient } from "./llm.js";
+export type { ChatMessage, LlmClient, LlmStage } from "./llm.js";
+export { createPromptRegistry, parseTemplate, PromptRegistry, renderTemplate } from "./prompts.js";
+export type { PromptTemplate, RenderedPrompt } from "./prompts.js";
+export {
+  comprehensiveAnalysisSchema,
+  fillUnavailable,
+  initialInsightsSchema,
+  parseJsonReply,
+  requestStructured,
+  UNAVAILABLE,
+  validate
+} from "./schemas.js";
+export type { Schema } from "./schemas.js";
+
+export { performComprehensiveRecall, performTargetedRecall, recallInsights } from "./recall/index.js";
+export type { RecallOptions } from "./recall/index.js";
+export { synthesizeFromRules } from "./synthesis/rules.js";
+
+export { circuitBreakerStates, CircuitOpenError, httpFetch, providerFor } from "./http.js";
+export type { HttpOptions } from "./http.js";
+export { decodeBase64Image, fitImageToLimits, ImageError, imageDimensions } from "./images.js";
+export type { ImageLimits } from "./images.js";
+export { recordHttp, recordTokens, Span, stageTiming, Trace, traceCall } from "./trace.js";
+export type { ProviderUsage } from "./trace.js";
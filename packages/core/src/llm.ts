@@ -0,0 +1,203 @@
+// LLM client for the interpretation and synthesis stages
+// Each stage resolves its own backend, base URL, model, temperature and token
+// limit from the environment. A stage-specific variable wins over the shared one:
+//   LLM_INTERPRETATION_MODEL  >  LLM_MODEL  >  built-in default
+// Backends:
+//   openai    any OpenAI-compatible /chat/completions endpoint (OpenAI itself,
+//             or a self-hosted server such as vLLM, Ollama or llama.cpp)
+//   scripted  never leaves the machine; replies come from LLM_SCRIPT_FILE
+//   none      no LLM; the pipeline falls back to its rule-based synthesis
+
+import fs from "fs";
+import { httpFetch } from "./http.js";
+import { recordTokens, traceCall } from "./trace.js";
+
+const OPENAI_BASE_URL = "https://api.openai.com/v1";
+
+export type LlmStage = "interpretation" | "synthesis";
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface LlmClient {
+  // Resolves with the reply text for `messages`
+  complete(stage: LlmStage, messages: ChatMessage[]): Promise<string>;
+  // Human-readable name of the backend serving `stage`, for stage records
+  displayName(stage: LlmStage): string;
+  // False when `stage` has no usable backend, e.g. OpenAI without a key
+  configured(stage: LlmStage): boolean;
+}
+
+interface StageConfig {
+  stage: LlmStage;
+  provider: string;
+  baseUrl: string;
+  apiKey: string | undefined;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  scriptFile: string | undefined;
+}
+
+interface Backend {
+  displayName: string;
+  configured: boolean;
+  complete(messages: ChatMessage[], config: StageConfig): Promise<string>;
+}
+
+const STAGE_DEFAULTS: Record<LlmStage, { maxTokens: number; temperature: number }> = {
+  interpretation: { maxTokens: 1500, temperature: 0.3 },
+  synthesis: { maxTokens: 2000, temperature: 0.4 }
+};
+
+const backends: Record<string, (config: StageConfig) => Backend> = {
+  openai: createOpenAICompatibleBackend,
+  scripted: createScriptedBackend,
+  none: createDisabledBackend
+};
+
+export function createLlmClient(env: NodeJS.ProcessEnv = process.env): LlmClient {
+  const stages = new Map<LlmStage, StageConfig & { backend: Backend }>();
+
+  const stageConfig = (stage: LlmStage) => {
+    if (!stages.has(stage)) {
+      stages.set(stage, resolveStageConfig(stage, env));
+    }
+    return stages.get(stage)!;
+  };
+
+  return {
+    // Each call is a span in the analysis trace, so repair round-trips show up separately
+    async complete(stage, messages) {
+      const config = stageConfig(stage);
+      return traceCall(config.provider, { kind: "llm", model: config.model }, () => config.backend.complete(messages, config));
+    },
+
+    displayName(stage) {
+      return stageConfig(stage).backend.displayName;
+    },
+
+    configured(stage) {
+      return stageConfig(stage).backend.configured;
+    }
+  };
+}
+
+function resolveStageConfig(stage: LlmStage, env: NodeJS.ProcessEnv) {
+  const prefix = `LLM_${stage.toUpperCase()}_`;
+  const setting = (name: string) => env[`${prefix}${name}`] ?? env[`LLM_${name}`];
+  const numeric = (name: string, fallback: number) => (setting(name) !== undefined ? Number(setting(name)) : fallback);
+  const defaults = STAGE_DEFAULTS[stage] || STAGE_DEFAULTS.synthesis;
+
+  const provider = setting("PROVIDER") || "openai";
+  const createBackend = backends[provider];
+  if (!createBackend) {
+    throw new Error(`Unknown LLM provider for ${stage}: ${provider}`);
+  }
+
+  const baseUrl = (setting("BASE_URL") || OPENAI_BASE_URL).replace(/\/$/, "");
+  const config: StageConfig = {
+    stage,
+    provider,
+    baseUrl,
+    // The OpenAI key only ever goes to OpenAI, never to another endpoint
+    apiKey: setting("API_KEY") ?? (baseUrl === OPENAI_BASE_URL ? env.VITE_OPENAI_API_KEY : undefined),
+    model: setting("MODEL") || "gpt-4",
+    temperature: numeric("TEMPERATURE", defaults.temperature),
+    maxTokens: numeric("MAX_TOKENS", defaults.maxTokens),
+    scriptFile: setting("SCRIPT_FILE")
+  };
+
+  return { ...config, backend: createBackend(config) };
+}
+
+// -------- OPENAI-COMPATIBLE --------
+interface ChatCompletion {
+  choices?: { message?: { content?: string } }[];
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+function createOpenAICompatibleBackend({ baseUrl, apiKey }: StageConfig): Backend {
+  const isOpenAI = baseUrl === OPENAI_BASE_URL;
+
+  return {
+    displayName: isOpenAI ? "OpenAI" : "Self-hosted LLM",
+    configured: !isOpenAI || Boolean(apiKey),
+    async complete(messages, { apiKey, model, temperature, maxTokens }) {
+      // Self-hosted servers often run without authentication
+      if (isOpenAI && !apiKey) {
+        throw new Error("OpenAI API key not configured");
+      }
+
+      const response = await httpFetch(`${baseUrl}/chat/completions`, {
+        method: "POST",
+        headers: {
+          ...(apiKey ? { "Authorization": `Bearer ${apiKey}` } : {}),
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          model,
+          messages,
+          max_tokens: maxTokens,
+          temperature
+        }),
+        provider: isOpenAI ? "openai" : "llm"
+      });
+
+      if (!response.ok) {
+        throw new Error(`LLM API error: ${response.status}`);
+      }
+
+      const data = await response.json() as ChatCompletion;
+      recordTokens({
+        provider: isOpenAI ? "openai" : "llm",
+        model,
+        promptTokens: data.usage?.prompt_tokens,
+        completionTokens: data.usage?.completion_tokens
+      });
+      const content = data.choices?.[0]?.message?.content;
+
+      if (!content) {
+        throw new Error("No content received from LLM");
+      }
+
+      return content;
+    }
+  };
+}
+
+// -------- SCRIPTED STAND-IN --------
+// LLM_SCRIPT_FILE holds a JSON object keyed by stage. A value is the reply to
+// send (a string, or an object that is serialized), or an array of replies used
+// in turn, with the last one repeated. Stages without a script reply "{}".
+function createScriptedBackend({ scriptFile }: StageConfig): Backend {
+  const script: Record<string, unknown> = scriptFile ? JSON.parse(fs.readFileSync(scriptFile, "utf8")) : {};
+  const calls = new Map<string, number>();
+
+  return {
+    displayName: "Scripted LLM",
+    configured: true,
+    async complete(messages, { stage }) {
+      const entry = script[stage];
+      const call = calls.get(stage) || 0;
+      calls.set(stage, call + 1);
+
+      const reply = Array.isArray(entry) ? entry[Math.min(call, entry.length - 1)] : entry;
+      if (reply === undefined) return "{}";
+      return typeof reply === "string" ? reply : JSON.stringify(reply);
+    }
+  };
+}
+
+// -------- DISABLED --------
+function createDisabledBackend(): Backend {
+  return {
+    displayName: "No LLM",
+    configured: false,
+    async complete(messages, { stage }) {
+      throw new Error(`No LLM configured for ${stage}`);
+    }
+  };
+}
@@ -0,0 +1,366 @@
+// The four-stage analysis pipeline
+// vision -> interpretation -> recall -> synthesis. A pipeline is built from a
+// vision registry, an LLM client and the prompt templates; the server builds
+// one for normal use and a cheaper one for when a budget is spent. Caching,
+// budgets and cost accounting stay with the server, around `run`.
+
+import type { LlmClient } from "./llm.js";
+import type { PromptRegistry } from "./prompts.js";
+import { groundPalette, performComprehensiveRecall, performTargetedRecall, recallInsights } from "./recall/index.js";
+import { comprehensiveAnalysisSchema, fillUnavailable, initialInsightsSchema, requestStructured, Schema } from "./schemas.js";
+import { synthesizeFromRules } from "./synthesis/rules.js";
+import { stageTiming, Trace } from "./trace.js";
+import type {
+  CombinedVision,
+  ComprehensiveEducationalAnalysis,
+  InitialInsights,
+  RecallData,
+  RecallSource,
+  RegionReference,
+  StageData,
+  StageName,
+  StageRecord,
+  StageStatus,
+  VisionData
+} from "./types.js";
+import { linkRegions } from "./vision/regions.js";
+import type { VisionRegistry } from "./vision/index.js";
+
+export interface PipelineOptions {
+  visionRegistry: VisionRegistry;
+  llm: LlmClient;
+  prompts: PromptRegistry;
+  env?: NodeJS.ProcessEnv;
+}
+
+export interface RunOptions {
+  // Collects timing and usage; the caller summarizes and prices it
+  trace: Trace;
+  // Called with each finished stage ("stage") and each recall source
+  // ("recall-source") so streaming clients can render them as they arrive
+  onProgress?: (event: "stage" | "recall-source", data: unknown) => void;
+  // Aborting stops the run at the next stage boundary
+  signal?: AbortSignal;
+}
+
+export interface PipelineResult {
+  analysis: ComprehensiveEducationalAnalysis;
+  visionData: VisionData;
+  // Where the focal points and visual elements are, from visionData.combined.regions
+  regionReferences: RegionReference[];
+  recallData: RecallData;
+  stages: StageRecord[];
+}
+
+type StageOutcome = { status: StageStatus; reason?: string };
+
+// Stage status: "ok", "degraded" when part of the stage's work failed, or
+// "failed" when none of it succeeded; `reason` lists what went wrong
+function stageStatus(failures: string[], attempted: number): StageOutcome {
+  if (failures.length === 0) return { status: "ok" };
+  return {
+    status: failures.length >= attempted ? "failed" : "degraded",
+    reason: failures.join("; ")
+  };
+}
+
+// LLM stages are degraded when sections of the reply had to be filled in
+function completenessStatus(unavailableSections: string[] = []): StageOutcome {
+  if (unavailableSections.length === 0) return { status: "ok" };
+  return { status: "degraded", reason: `Unavailable sections: ${unavailableSections.join(", ")}` };
+}
+
+// Stand-in for an LLM stage that produced nothing: the full shape, all unavailable
+function unavailableResult<T>(schema: Schema): T & { unavailableSections: string[] } {
+  const { value, unavailable } = fillUnavailable(schema, undefined);
+  return { ...(value as T), unavailableSections: unavailable };
+}
+
+// Recall data as the synthesis prompt gets it: the texture heatmap is an image,
+// so the model gets the measures behind it instead
+function promptRecallData(recallData: RecallData) {
+  if (!recallData.textureAnalysis) return recallData;
+  return { ...recallData, textureAnalysis: { ...recallData.textureAnalysis, heatmap: undefined } };
+}
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+export function createPipeline({ visionRegistry, llm, prompts, env = process.env }: PipelineOptions) {
+  // How many times a malformed LLM reply is sent back for repair
+  const maxRepairs = env.LLM_MAX_REPAIRS !== undefined ? Number(env.LLM_MAX_REPAIRS) : 2;
+
+  async function generateInitialInterpretation(visionData: CombinedVision): Promise<InitialInsights> {
+    const prompt = prompts.render("interpretation", {
+      labels: visionData.labels?.join(", ") || "None detected",
+      objects: visionData.objects?.join(", ") || "None detected",
+      colors: visionData.colors?.join(", ") || "None detected",
+      text: visionData.text?.join(", ") || "None detected"
+    });
+
+    const { value, unavailable } = await requestStructured<InitialInsights>(
+      messages => llm.complete("interpretation", messages),
+      prompt.messages,
+      initialInsightsSchema,
+      { maxRepairs }
+    );
+
+    return { ...value, unavailableSections: unavailable, promptVersion: prompt.id };
+  }
+
+  async function generateFinalSynthesis(visionData: CombinedVision, initialInsights: InitialInsights, recallData: RecallData): Promise<ComprehensiveEducationalAnalysis> {
+    const prompt = prompts.render("synthesis", {
+      visionData: JSON.stringify(visionData, null, 2),
+      initialInsights: JSON.stringify(initialInsights, null, 2),
+      recallData: JSON.stringify(promptRecallData(recallData), null, 2)
+    });
+
+    const { value, unavailable } = await requestStructured<ComprehensiveEducationalAnalysis>(
+      messages => llm.complete("synthesis", messages),
+      prompt.messages,
+      comprehensiveAnalysisSchema,
+      { maxRepairs }
+    );
+
+    // The palette's coverage comes from the measured colors, not the model
+    const colorAnalysis = {
+      ...value.colorAnalysis,
+      colorPalette: groundPalette(value.colorAnalysis.colorPalette, recallData.colorAnalysis?.dominantColors || [])
+    };
+
+    // Sections listed here could not be recovered from the model's reply and hold
+    // "Unavailable" placeholders; `promptVersion` names the template that was sent
+    return { ...value, colorAnalysis, unavailableSections: unavailable, promptVersion: prompt.id };
+  }
+
+  // Runs the comprehensive pipeline. Each stage record carries a `status` (ok,
+  // degraded, failed) and a `reason`; a failing stage does not stop the stages
+  // after it.
+  async function run(imageBase64: string, { trace, onProgress = () => {}, signal }: RunOptions): Promise<PipelineResult> {
+    console.log("🎨 Starting comprehensive educational artwork analysis with all APIs...");
+
+    const stages: StageRecord[] = [];
+    const completeStage = <Name extends StageName>(stage: StageRecord & { stage: Name }, data: StageData[Name]) => {
+      stages.push(stage);
+      onProgress("stage", { ...stage, data });
+    };
+
+    // Stage 1: Vision Analysis - Run all configured vision providers in parallel
+    console.log("🔍 Stage 1: Performing comprehensive visual analysis...");
+    const { result: vision, span: visionSpan } = await trace.stage("vision", () =>
+      visionRegistry.analyze(imageBase64, { signal })
+    );
+    const combinedVision = vision.combined;
+
+    const visionFailures = Object.entries(vision.errors).map(([name, message]) => `${name}: ${message}`);
+
+    completeStage({
+      stage: "vision",
+      description: "Comprehensive visual analysis completed",
+      apisUsed: visionRegistry.displayNames,
+      insights: combinedVision.labels.slice(0, 5),
+      ...stageTiming(visionSpan),
+      ...stageStatus(visionFailures, visionRegistry.providers.length)
+    }, combinedVision);
+
+    signal?.throwIfAborted();
+
+    // Stage 2: Initial AI Interpretation
+    // From here on a failing stage is recorded and later stages work with what is left
+    console.log("🧠 Stage 2: Generating initial AI interpretation...");
+    let initialInsights!: InitialInsights;
+    let interpretationStatus!: StageOutcome;
+    let interpretationApis = [llm.displayName("interpretation")];
+    const { span: interpretationSpan } = await trace.stage("interpretation", async () => {
+      // Without a usable LLM there is nothing to interpret with; that is how the
+      // deployment is set up, not an outage, so the stage is degraded, not failed
+      if (!llm.configured("interpretation")) {
+        initialInsights = unavailableResult<InitialInsights>(initialInsightsSchema);
+        interpretationStatus = { status: "degraded", reason: "No LLM configured for interpretation; later stages work from the vision data" };
+        interpretationApis = [];
+        return;
+      }
+      try {
+        initialInsights = await generateInitialInterpretation(combinedVision);
+        interpretationStatus = completenessStatus(initialInsights.unavailableSections);
+      } catch (error) {
+        console.warn("Initial interpretation failed:", errorMessage(error));
+        initialInsights = unavailableResult<InitialInsights>(initialInsightsSchema);
+        interpretationStatus = { status: "failed", reason: errorMessage(error) };
+      }
+    });
+
+    completeStage({
+      stage: "interpretation",
+      description: "Initial AI interpretation completed",
+      apisUsed: interpretationApis,
+      promptVersion: initialInsights.promptVersion,
+      insights: initialInsights.styleInsights?.slice(0, 3) || [],
+      ...stageTiming(interpretationSpan),
+      ...interpretationStatus
+    }, initialInsights);
+
+    signal?.throwIfAborted();
+
+    // Stage 3: Comprehensive Targeted Recall - Based on initial interpretation
+    console.log("🎯 Stage 3: Performing comprehensive targeted recall...");
+    let recallData = {} as RecallData;
+    let recallError: unknown = null;
+    const { span: recallSpan } = await trace.stage("recall", async () => {
+      try {
+        recallData = await performComprehensiveRecall(combinedVision, initialInsights, {
+          env,
+          imageBase64,
+          onSource: (source: RecallSource, data: unknown) => onProgress("recall-source", { source, data })
+        });
+      } catch (error) {
+        console.warn("Targeted recall failed:", errorMessage(error));
+        recallError = error;
+      }
+    });
+    // Each source is a call in the trace, including sources that catch their own
+    // errors and come back empty
+    const failedSources = recallSpan.children
+      .filter(call => call.status === "failed")
+      .map(call => `${call.name}: ${call.error}`);
+    const recallStatus: StageOutcome = recallError
+      ? { status: "failed", reason: errorMessage(recallError) }
+      : stageStatus(failedSources, recallSpan.children.length);
+
+    completeStage({
+      stage: "recall",
+      description: "Comprehensive targeted recall completed",
+      apisUsed: ["Wikipedia", "Met Museum", "Harvard", "Art Institute", "Art Search", "Color Analysis", "Texture Analysis", "Composition Analysis"],
+      insights: recallInsights(recallData),
+      ...stageTiming(recallSpan),
+      ...recallStatus
+    }, recallData);
+
+    signal?.throwIfAborted();
+
+    // Stage 4: Final Synthesis with all data
+    console.log("🎨 Stage 4: Generating final educational synthesis...");
+    // Without a usable LLM the rule-based synthesis stands in, built from the same
+    // vision and recall data
+    const ruleBasedSynthesis = () => synthesizeFromRules({
+      visionData: combinedVision,
+      initialInsights,
+      recallData,
+      visionSources: visionRegistry.displayNames.filter((_, index) => vision.results[visionRegistry.providers[index].name])
+    }) as ComprehensiveEducationalAnalysis;
+    let finalAnalysis!: ComprehensiveEducationalAnalysis;
+    let synthesisStatus!: StageOutcome;
+    let synthesisApis = [llm.displayName("synthesis")];
+    const { span: synthesisSpan } = await trace.stage("synthesis", async () => {
+      if (!llm.configured("synthesis")) {
+        finalAnalysis = ruleBasedSynthesis();
+        synthesisStatus = completenessStatus(finalAnalysis.unavailableSections);
+        synthesisApis = ["Rule-based synthesis"];
+        return;
+      }
+      try {
+        finalAnalysis = await generateFinalSynthesis(combinedVision, initialInsights, recallData);
+        synthesisStatus = completenessStatus(finalAnalysis.unavailableSections);
+      } catch (error) {
+        console.warn("Final synthesis failed, using rule-based synthesis:", errorMessage(error));
+        finalAnalysis = ruleBasedSynthesis();
+        synthesisStatus = { status: "degraded", reason: `${errorMessage(error)}; built from rules instead` };
+        synthesisApis = [...synthesisApis, "Rule-based synthesis"];
+      }
+    });
+
+    completeStage({
+      stage: "synthesis",
+      description: "Final educational synthesis completed",
+      apisUsed: synthesisApis,
+      promptVersion: finalAnalysis.promptVersion,
+      insights: ["Comprehensive analysis generated"],
+      ...stageTiming(synthesisSpan),
+      ...synthesisStatus
+    }, finalAnalysis);
+
+    trace.end();
+    console.log(`✅ Comprehensive educational analysis complete in ${trace.root.durationMs} ms!`);
+
+    return {
+      analysis: finalAnalysis,
+      visionData: { ...vision.results, combined: combinedVision },
+      regionReferences: linkRegions(combinedVision.regions, finalAnalysis),
+      recallData,
+      stages
+    };
+  }
+
+  // The original four-stage flow behind /api/analyze-educational: the smaller
+  // targeted recall, and any failing stage fails the whole analysis
+  async function runBasic(imageBase64: string, { trace }: Pick<RunOptions, "trace">): Promise<Omit<PipelineResult, "recallData">> {
+    console.log("🎨 Starting comprehensive educational artwork analysis...");
+
+    console.log("🔍 Stage 1: Performing comprehensive visual analysis...");
+    const { result: vision, span: visionSpan } = await trace.stage("vision", () => visionRegistry.analyze(imageBase64));
+    const combinedVision = vision.combined;
+
+    console.log("🧠 Stage 2: Generating initial AI interpretation...");
+    const { result: initialInsights, span: interpretationSpan } = await trace.stage("interpretation", () =>
+      generateInitialInterpretation(combinedVision)
+    );
+
+    console.log("🎯 Stage 3: Performing targeted recall based on AI insights...");
+    const { result: recallData, span: recallSpan } = await trace.stage("recall", () =>
+      performTargetedRecall(combinedVision, initialInsights, { env, imageBase64 })
+    );
+
+    console.log("🎨 Stage 4: Generating final educational synthesis...");
+    const { result: finalAnalysis, span: synthesisSpan } = await trace.stage("synthesis", () =>
+      generateFinalSynthesis(combinedVision, initialInsights, recallData)
+    );
+
+    trace.end();
+    console.log("✅ Educational analysis complete!");
+
+    return {
+      analysis: finalAnalysis,
+      visionData: { ...vision.results, combined: combinedVision },
+      regionReferences: linkRegions(combinedVision.regions, finalAnalysis),
+      stages: [
+        {
+          stage: "vision",
+          description: "Comprehensive visual analysis completed",
+          apisUsed: visionRegistry.displayNames,
+          insights: combinedVision.labels.slice(0, 5),
+          status: "ok",
+          ...stageTiming(visionSpan)
+        },
+        {
+          stage: "interpretation",
+          description: "Initial AI interpretation completed",
+          apisUsed: [llm.displayName("interpretation")],
+          promptVersion: initialInsights.promptVersion,
+          insights: initialInsights.styleInsights?.slice(0, 3) || [],
+          status: "ok",
+          ...stageTiming(interpretationSpan)
+        },
+        {
+          stage: "recall",
+          description: "Targeted recall operations completed",
+          apisUsed: ["Wikipedia", "Met Museum", "Harvard", "Art Institute"],
+          insights: Object.keys(recallData).filter(key => recallData[key as RecallSource] !== null),
+          status: "ok",
+          ...stageTiming(recallSpan)
+        },
+        {
+          stage: "synthesis",
+          description: "Final educational synthesis completed",
+          apisUsed: [llm.displayName("synthesis")],
+          promptVersion: finalAnalysis.promptVersion,
+          insights: ["Comprehensive analysis generated"],
+          status: "ok",
+          ...stageTiming(synthesisSpan)
+        }
+      ]
+    };
+  }
+
+  return { visionRegistry, llm, run, runBasic };
+}
+
+export type AnalysisPipeline = ReturnType<typeof createPipeline>;
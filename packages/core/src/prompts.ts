@@ -0,0 +1,162 @@
+// Versioned prompt templates for the LLM stages
+// Templates live in PROMPTS_DIR (default prompts/), one directory per stage and
+// one file per version: prompts/interpretation/v1.md, prompts/interpretation/v2.md.
+// A file is front matter followed by a "## system" and a "## user" section:
+//
+//   ---
+//   description: What changed in this version
+//   variables: labels, objects
+//   ---
+//   ## system
+//   You are an art educator...
+//   ## user
+//   Labels: {{labels}}
+//
+// The highest version is used unless PROMPT_<STAGE>_VERSION pins another
+// (e.g. PROMPT_SYNTHESIS_VERSION=v1). Rendered prompts carry their id
+// ("synthesis/v1") so responses can record which wording produced them.
+
+import fs from "fs";
+import path from "path";
+import type { ChatMessage } from "./llm.js";
+
+const VERSION_FILE = /^v(\d+)\.md$/;
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+export interface PromptTemplate {
+  id: string;
+  stage: string;
+  version: string;
+  description: string;
+  variables: string[];
+  system: string;
+  user: string;
+}
+
+export interface RenderedPrompt {
+  id: string;
+  messages: ChatMessage[];
+}
+
+export function createPromptRegistry(env: NodeJS.ProcessEnv = process.env) {
+  const directory = env.PROMPTS_DIR || path.resolve("prompts");
+  const templates = new Map<string, PromptTemplate[]>();
+
+  for (const stage of fs.readdirSync(directory)) {
+    const stageDirectory = path.join(directory, stage);
+    if (!fs.statSync(stageDirectory).isDirectory()) continue;
+
+    const versions = fs.readdirSync(stageDirectory)
+      .filter(file => VERSION_FILE.test(file))
+      .map(file => parseTemplate(
+        fs.readFileSync(path.join(stageDirectory, file), "utf8"),
+        { stage, version: `v${file.match(VERSION_FILE)![1]}` }
+      ))
+      .sort((a, b) => Number(a.version.slice(1)) - Number(b.version.slice(1)));
+
+    if (versions.length > 0) templates.set(stage, versions);
+  }
+
+  const registry = new PromptRegistry(templates, env);
+  // Fail at startup, not mid-analysis, when a pinned version does not exist
+  templates.forEach((_, stage) => registry.template(stage));
+  return registry;
+}
+
+export class PromptRegistry {
+  templates: Map<string, PromptTemplate[]>;
+  env: NodeJS.ProcessEnv;
+
+  constructor(templates: Map<string, PromptTemplate[]>, env: NodeJS.ProcessEnv = {}) {
+    this.templates = templates;
+    this.env = env;
+  }
+
+  // The pinned version of `stage`, or its latest
+  template(stage: string) {
+    const versions = this.templates.get(stage);
+    if (!versions) {
+      throw new Error(`No prompt templates for ${stage}`);
+    }
+
+    const pinned = this.env[`PROMPT_${stage.toUpperCase()}_VERSION`];
+    if (!pinned) return versions[versions.length - 1];
+
+    const version = pinned.startsWith("v") ? pinned : `v${pinned}`;
+    const template = versions.find(candidate => candidate.version === version);
+    if (!template) {
+      throw new Error(`Unknown prompt version for ${stage}: ${pinned}`);
+    }
+    return template;
+  }
+
+  // Returns `{ id, messages }`, ready for the LLM client
+  render(stage: string, values: Record<string, string>): RenderedPrompt {
+    const template = this.template(stage);
+    return {
+      id: template.id,
+      messages: [
+        { role: "system", content: renderTemplate(template.system, values, template) },
+        { role: "user", content: renderTemplate(template.user, values, template) }
+      ]
+    };
+  }
+}
+
+export function parseTemplate(source: string, { stage, version }: { stage: string; version: string }): PromptTemplate {
+  const id = `${stage}/${version}`;
+  const match = source.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n([\s\S]*)$/);
+  if (!match) {
+    throw new Error(`Prompt ${id} is missing its front matter`);
+  }
+
+  const meta: Record<string, string> = Object.fromEntries(match[1].split(/\r?\n/)
+    .map(line => line.match(/^(\w+):\s*(.*)$/))
+    .filter((line): line is RegExpMatchArray => Boolean(line))
+    .map(([, key, value]) => [key, value.trim()]));
+
+  const sections: Partial<Record<"system" | "user", string[]>> = {};
+  let current: "system" | "user" | null = null;
+  for (const line of match[2].split(/\r?\n/)) {
+    const heading = line.match(/^##\s+(system|user)\s*$/);
+    if (heading) {
+      current = heading[1] as "system" | "user";
+      sections[current] = [];
+    } else if (current) {
+      sections[current]!.push(line);
+    }
+  }
+
+  if (!sections.system || !sections.user) {
+    throw new Error(`Prompt ${id} needs both a "## system" and a "## user" section`);
+  }
+
+  const template = {
+    id,
+    stage,
+    version,
+    description: meta.description || "",
+    variables: (meta.variables || "").split(",").map(name => name.trim()).filter(Boolean),
+    system: sections.system.join("\n").trim(),
+    user: sections.user.join("\n").trim()
+  };
+
+  // Catch typos when the file is loaded rather than when a student is waiting
+  const undeclared = [...`${template.system}\n${template.user}`.matchAll(PLACEHOLDER)]
+    .map(([, name]) => name)
+    .filter(name => !template.variables.includes(name));
+  if (undeclared.length > 0) {
+    throw new Error(`Prompt ${id} uses undeclared variables: ${[...new Set(undeclared)].join(", ")}`);
+  }
+
+  return template;
+}
+
+// Substitutes {{name}} placeholders; every declared variable must be supplied
+export function renderTemplate(text: string, values: Record<string, string>, template: PromptTemplate) {
+  const missing = template.variables.filter(name => values[name] === undefined);
+  if (missing.length > 0) {
+    throw new Error(`Prompt ${template.id} is missing values for: ${missing.join(", ")}`);
+  }
+  return text.replace(PLACEHOLDER, (_, name: string) => String(values[name]));
+}
@@ -0,0 +1,359 @@
+// Color analysis of the palette measured from the image
+// Colors arrive from extractPalette (palette.ts) with their coverage and
+// placement; the helpers take "rgb(r, g, b)" strings. Each color is named from
+// the color dictionary (colorNames.ts), with the nearest historical pigment
+// when one is close. Emotional and symbolic notes go by hue family, and the
+// palette as a whole is described by its hue spread (harmony) and its balance
+// of warm and cool hues.
+
+import { nameColor, nearestPigment } from "./colorNames.js";
+import type { ColorAnalysis, ColorDistribution, PigmentMatch } from "../types.js";
+import type { PaletteColor } from "./palette.js";
+
+type ColorFamily = "Red" | "Orange" | "Yellow" | "Green" | "Cyan" | "Blue" | "Purple" | "Pink" | "White" | "Black" | "Gray";
+
+const RGB = /rgb\((\d+),\s*(\d+),\s*(\d+)\)/;
+
+function parseRgb(color: string) {
+  const match = color.match(RGB);
+  if (!match) return null;
+  return { r: parseInt(match[1]), g: parseInt(match[2]), b: parseInt(match[3]) };
+}
+
+export function rgbToHsl(r: number, g: number, b: number) {
+  r /= 255;
+  g /= 255;
+  b /= 255;
+
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  let h = 0;
+  let s = 0;
+  const l = (max + min) / 2;
+
+  if (max !== min) {
+    const d = max - min;
+    s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+
+    switch (max) {
+      case r: h = (g - b) / d + (g < b ? 6 : 0); break;
+      case g: h = (b - r) / d + 2; break;
+      case b: h = (r - g) / d + 4; break;
+    }
+    h /= 6;
+  }
+
+  return {
+    h: Math.round(h * 360),
+    s: Math.round(s * 100),
+    l: Math.round(l * 100)
+  };
+}
+
+// sRGB channel (0-255) to linear light (0-1)
+const linearize = (channel: number) => {
+  const c = channel / 255;
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+};
+
+const labCurve = (t: number) => (t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116);
+
+// CIELAB (D65), where straight-line distance roughly matches how different
+// two colors look. L is 0-100; a and b are about -128 to 127.
+export function rgbToLab(r: number, g: number, b: number) {
+  const lr = linearize(r);
+  const lg = linearize(g);
+  const lb = linearize(b);
+
+  const x = labCurve((0.4124 * lr + 0.3576 * lg + 0.1805 * lb) / 0.95047);
+  const y = labCurve(0.2126 * lr + 0.7152 * lg + 0.0722 * lb);
+  const z = labCurve((0.0193 * lr + 0.1192 * lg + 0.9505 * lb) / 1.08883);
+
+  return { l: 116 * y - 16, a: 500 * (x - y), b: 200 * (y - z) };
+}
+
+type Lab = ReturnType<typeof rgbToLab>;
+
+const radians = (degrees: number) => (degrees * Math.PI) / 180;
+const hueAngle = (b: number, a: number) => {
+  const degrees = (Math.atan2(b, a) * 180) / Math.PI;
+  return degrees < 0 ? degrees + 360 : degrees;
+};
+
+// CIEDE2000 color difference: about 1 is the smallest difference most people
+// notice side by side, and over 10 the colors are clearly different. Follows
+// Sharma, Wu and Dalal (2005), with the usual weights of 1.
+export function deltaE2000(first: Lab, second: Lab) {
+  const c1 = Math.hypot(first.a, first.b);
+  const c2 = Math.hypot(second.a, second.b);
+  const meanC7 = ((c1 + c2) / 2) ** 7;
+  const g = 0.5 * (1 - Math.sqrt(meanC7 / (meanC7 + 25 ** 7)));
+
+  const a1 = first.a * (1 + g);
+  const a2 = second.a * (1 + g);
+  const chroma1 = Math.hypot(a1, first.b);
+  const chroma2 = Math.hypot(a2, second.b);
+  const hue1 = chroma1 === 0 ? 0 : hueAngle(first.b, a1);
+  const hue2 = chroma2 === 0 ? 0 : hueAngle(second.b, a2);
+
+  const deltaL = second.l - first.l;
+  const deltaC = chroma2 - chroma1;
+  let deltaHue = 0;
+  if (chroma1 * chroma2 !== 0) {
+    deltaHue = hue2 - hue1;
+    if (deltaHue > 180) deltaHue -= 360;
+    else if (deltaHue < -180) deltaHue += 360;
+  }
+  const deltaH = 2 * Math.sqrt(chroma1 * chroma2) * Math.sin(radians(deltaHue / 2));
+
+  const meanL = (first.l + second.l) / 2;
+  const meanChroma = (chroma1 + chroma2) / 2;
+  let meanHue = hue1 + hue2;
+  if (chroma1 * chroma2 !== 0) {
+    if (Math.abs(hue1 - hue2) <= 180) meanHue /= 2;
+    else meanHue = hue1 + hue2 < 360 ? (meanHue + 360) / 2 : (meanHue - 360) / 2;
+  }
+
+  const t = 1
+    - 0.17 * Math.cos(radians(meanHue - 30))
+    + 0.24 * Math.cos(radians(2 * meanHue))
+    + 0.32 * Math.cos(radians(3 * meanHue + 6))
+    - 0.2 * Math.cos(radians(4 * meanHue - 63));
+  const meanChroma7 = meanChroma ** 7;
+  const rotation = -2 * Math.sqrt(meanChroma7 / (meanChroma7 + 25 ** 7))
+    * Math.sin(radians(60 * Math.exp(-(((meanHue - 275) / 25) ** 2))));
+  const lightnessWeight = 1 + (0.015 * (meanL - 50) ** 2) / Math.sqrt(20 + (meanL - 50) ** 2);
+  const chromaWeight = 1 + 0.045 * meanChroma;
+  const hueWeight = 1 + 0.015 * meanChroma * t;
+
+  return Math.sqrt(
+    (deltaL / lightnessWeight) ** 2
+    + (deltaC / chromaWeight) ** 2
+    + (deltaH / hueWeight) ** 2
+    + rotation * (deltaC / chromaWeight) * (deltaH / hueWeight)
+  );
+}
+
+const hslOf = (color: string) => {
+  const rgb = parseRgb(color);
+  return rgb ? rgbToHsl(rgb.r, rgb.g, rgb.b) : null;
+};
+
+// Reds through yellows, and magentas
+export const isWarm = (color: string) => {
+  const hsl = hslOf(color);
+  return Boolean(hsl) && (hsl!.h <= 60 || hsl!.h >= 300);
+};
+
+const isCool = (color: string) => {
+  const hsl = hslOf(color);
+  return Boolean(hsl) && hsl!.h > 60 && hsl!.h < 300;
+};
+
+export function rgbToHex(rgb: string) {
+  const color = parseRgb(rgb);
+  if (!color) return "#000000";
+  return `#${((1 << 24) + (color.r << 16) + (color.g << 8) + color.b).toString(16).slice(1)}`;
+}
+
+// Dictionary names are in running-text case ("raw umber", "Prussian blue")
+const capitalize = (name: string) => name.charAt(0).toUpperCase() + name.slice(1);
+
+// The nearest name in the color dictionary, such as "Cornflower blue" or
+// "Moderate reddish brown"
+export function getColorName(rgb: string) {
+  const color = parseRgb(rgb);
+  return color ? capitalize(nameColor(color.r, color.g, color.b).name) : "Unknown";
+}
+
+// Colors with less CIELAB chroma than this read as white, gray or black.
+// HSL saturation is no guide: a faintly tinted cream or slate has a high one.
+const NEUTRAL_CHROMA = 8;
+
+// Broad hue group, which keys the emotional, symbolic and educational notes
+export function getColorFamily(rgb: string): ColorFamily | "Unknown" {
+  const color = parseRgb(rgb);
+  if (!color) return "Unknown";
+
+  const lab = rgbToLab(color.r, color.g, color.b);
+  if (Math.hypot(lab.a, lab.b) < NEUTRAL_CHROMA) {
+    if (lab.l > 80) return "White";
+    if (lab.l < 20) return "Black";
+    return "Gray";
+  }
+
+  const { h } = rgbToHsl(color.r, color.g, color.b);
+  if (h < 15 || h > 345) return "Red";
+  if (h < 45) return "Orange";
+  if (h < 75) return "Yellow";
+  if (h < 150) return "Green";
+  if (h < 210) return "Cyan";
+  if (h < 270) return "Blue";
+  if (h < 330) return "Purple";
+  return "Pink";
+}
+
+const EMOTIONAL_ASSOCIATIONS: Partial<Record<ColorFamily, string>> = {
+  Red: "Passion, Energy",
+  Blue: "Calm, Trust",
+  Green: "Nature, Growth",
+  Yellow: "Joy, Optimism",
+  Purple: "Luxury, Mystery",
+  Orange: "Warmth, Enthusiasm",
+  Pink: "Gentleness, Love",
+  Black: "Power, Elegance",
+  White: "Purity, Simplicity",
+  Gray: "Balance, Neutrality"
+};
+
+const SYMBOLIC_MEANINGS: Partial<Record<ColorFamily, string>> = {
+  Red: "Energy, Power",
+  Blue: "Stability, Depth",
+  Green: "Harmony, Renewal",
+  Yellow: "Intellect, Creativity",
+  Purple: "Royalty, Spirituality",
+  Orange: "Vitality, Success",
+  Pink: "Compassion, Nurturing",
+  Black: "Mystery, Sophistication",
+  White: "Clarity, New Beginnings",
+  Gray: "Wisdom, Maturity"
+};
+
+const EDUCATIONAL_NOTES: Partial<Record<ColorFamily, string>> = {
+  Red: "Creates visual emphasis and draws attention",
+  Blue: "Establishes depth and creates calm atmosphere",
+  Green: "Balances composition and suggests nature",
+  Yellow: "Adds energy and creates focal points",
+  Purple: "Conveys luxury and spiritual themes",
+  Orange: "Warms the composition and adds vitality",
+  Pink: "Softens harsh contrasts and adds warmth",
+  Black: "Creates strong contrast and defines shapes",
+  White: "Provides breathing room and highlights",
+  Gray: "Creates sophisticated neutral tones"
+};
+
+const lookup = (table: Partial<Record<ColorFamily, string>>, color: string, fallback: string) => {
+  const family = getColorFamily(color);
+  return (family !== "Unknown" && table[family]) || fallback;
+};
+
+export const getEmotionalAssociation = (color: string) => lookup(EMOTIONAL_ASSOCIATIONS, color, "Complex emotions");
+export const getSymbolicMeaning = (color: string) => lookup(SYMBOLIC_MEANINGS, color, "Rich symbolism");
+export const getEducationalNote = (color: string) => lookup(EDUCATIONAL_NOTES, color, "Important compositional element");
+
+export function analyzeColorHarmony(colors: string[]) {
+  if (colors.length < 2) return "Monochromatic harmony";
+
+  const hues = colors.map(color => hslOf(color)?.h ?? 0);
+  const hueRange = Math.max(...hues) - Math.min(...hues);
+
+  if (hueRange < 30) return "Monochromatic harmony - creates unity and cohesion";
+  if (hueRange < 60) return "Analogous harmony - colors work together harmoniously";
+  if (hueRange > 120 && hueRange < 180) return "Complementary harmony - creates dynamic contrast";
+  return "Complex color relationship - multiple harmonies working together";
+}
+
+// Weights, such as each color's coverage, default to counting colors equally
+export function analyzeEmotionalImpact(colors: string[], weights = colors.map(() => 1)) {
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  const warm = colors.reduce((sum, color, index) => sum + (isWarm(color) ? weights[index] : 0), 0);
+
+  if (warm > total / 2) {
+    return "Warm color palette creates energy, passion, and vitality";
+  } else {
+    return "Cool color palette creates calm, peaceful, and serene feelings";
+  }
+}
+
+export function generateColorTheoryInsights(colors: string[]) {
+  const insights = [];
+
+  if (colors.length >= 3) {
+    insights.push("Demonstrates sophisticated understanding of color relationships");
+  }
+
+  if (colors.some(isWarm) && colors.some(isCool)) {
+    insights.push("Strategic use of warm and cool colors creates visual tension and depth");
+  }
+
+  return insights;
+}
+
+const REGION_NAMES = [
+  "upper left", "top", "upper right",
+  "left", "center", "right",
+  "lower left", "bottom", "lower right"
+];
+const ROW_NAMES = ["across the top", "across the middle", "along the bottom"];
+const COLUMN_NAMES = ["down the left side", "down the center", "down the right side"];
+
+// Where a color sits, for colors that gather in one area or run through the whole image
+function describePlacement(name: string, percentage: number, { spread, regions }: ColorDistribution) {
+  const label = `${name} (${percentage}%)`;
+  const thirds = [0, 1, 2];
+  const rows = thirds.map(row => regions[row * 3] + regions[row * 3 + 1] + regions[row * 3 + 2]);
+  const columns = thirds.map(column => regions[column] + regions[column + 3] + regions[column + 6]);
+  const cell = Math.max(...regions);
+  const row = Math.max(...rows);
+  const column = Math.max(...columns);
+
+  if (spread >= 0.85) return `${label} runs through the whole picture, tying it together`;
+  if (cell >= 0.4) return `${label} gathers at the ${REGION_NAMES[regions.indexOf(cell)]}`;
+  if (row >= 0.6 && row >= column) return `${label} lies mostly ${ROW_NAMES[rows.indexOf(row)]}`;
+  if (column >= 0.6) return `${label} lies mostly ${COLUMN_NAMES[columns.indexOf(column)]}`;
+  // Two neighboring rows or columns, such as a sky filling the upper two-thirds
+  if (rows[0] + rows[1] >= 0.9) return `${label} fills the upper part of the picture`;
+  if (rows[1] + rows[2] >= 0.9) return `${label} fills the lower part of the picture`;
+  if (columns[0] + columns[1] >= 0.9) return `${label} fills the left of the picture`;
+  if (columns[1] + columns[2] >= 0.9) return `${label} fills the right of the picture`;
+  return null;
+}
+
+// Offers a pigment as vocabulary, not as a claim about what the artist used
+function describePigment({ name, distance, note }: PigmentMatch) {
+  const closeness = distance <= 5 ? "Very close to" : "Close to";
+  return `${closeness} the pigment ${name}. ${note}.`;
+}
+
+export async function performColorAnalysis(palette: PaletteColor[]): Promise<ColorAnalysis> {
+  if (palette.length === 0) {
+    return {
+      dominantColors: [],
+      colorHarmony: "No color data available",
+      emotionalImpact: "Unable to analyze color mood",
+      colorTheory: ["Color analysis not available"]
+    };
+  }
+
+  const dominant = palette.slice(0, 6);
+  const colors = dominant.map(color => color.rgb);
+  const placements = dominant
+    .slice(0, 3)
+    .map(color => describePlacement(getColorName(color.rgb), color.percentage, color.distribution))
+    .filter((note): note is string => Boolean(note));
+
+  return {
+    dominantColors: dominant.map(color => {
+      const rgb = parseRgb(color.rgb)!;
+      const nameMatch = nameColor(rgb.r, rgb.g, rgb.b);
+      const pigment = nearestPigment(rgb.r, rgb.g, rgb.b);
+      const note = getEducationalNote(color.rgb);
+
+      return {
+        hex: color.hex,
+        name: capitalize(nameMatch.name),
+        percentage: color.percentage,
+        emotionalAssociation: getEmotionalAssociation(color.rgb),
+        symbolicMeaning: getSymbolicMeaning(color.rgb),
+        educationalNote: pigment ? `${note}. ${describePigment(pigment)}` : note,
+        family: getColorFamily(color.rgb),
+        nameMatch,
+        ...(pigment && { pigment }),
+        distribution: color.distribution
+      };
+    }),
+    colorHarmony: analyzeColorHarmony(colors),
+    emotionalImpact: analyzeEmotionalImpact(colors, dominant.map(color => color.percentage)),
+    colorTheory: [...generateColorTheoryInsights(colors), ...placements]
+  };
+}
@@ -0,0 +1,106 @@
+// Color naming from a dictionary of named colors
+// data/colors.json holds the CSS/X11 color keywords, the 267 ISCC-NBS centroid
+// colors ("moderate reddish brown"), and historical artists' pigments with a
+// note on each. A color takes the name of the nearest entry by CIEDE2000, and
+// the distance is reported so callers can tell a close match from a loose one.
+// Names are stored as they read in a sentence: "raw umber", "Prussian blue".
+// Each name means one color: where CSS reuses an ISCC-NBS or pigment name for a
+// different color (CSS "dark gray" is lighter than "gray"), the CSS entry is
+// left out, and loading fails if a duplicate slips back in.
+// Pigment swatches are representative: the real color varies with the source,
+// the binder, how thickly it is laid and how it has aged.
+
+import fs from "fs";
+import { deltaE2000, rgbToLab } from "./color.js";
+import type { ColorNameMatch, PigmentMatch } from "../types.js";
+
+interface ColorEntry {
+  name: string;
+  hex: string;
+  note?: string;
+}
+
+interface ColorDictionary {
+  version: number;
+  css: ColorEntry[];
+  isccNbs: ColorEntry[];
+  pigments: (ColorEntry & { note: string })[];
+}
+
+type NamedColor = ColorEntry & { source: ColorNameMatch["source"]; lab: ReturnType<typeof rgbToLab> };
+
+// A pigment further than this from the color is not offered as vocabulary
+const PIGMENT_MATCH_DISTANCE = 12;
+
+const round = (value: number) => Number(value.toFixed(1));
+
+const hexToRgb = (hex: string) => {
+  const value = parseInt(hex.slice(1), 16);
+  return { r: (value >> 16) & 255, g: (value >> 8) & 255, b: value & 255 };
+};
+
+const labOf = (hex: string) => {
+  const { r, g, b } = hexToRgb(hex);
+  return rgbToLab(r, g, b);
+};
+
+// Loaded on first use; color.ts imports this module and this module needs
+// rgbToLab from color.ts, so nothing here may run at import time
+let dictionary: NamedColor[] | null = null;
+
+function namedColors() {
+  if (!dictionary) {
+    // The same two levels up from src/recall and dist/recall
+    const data: ColorDictionary = JSON.parse(fs.readFileSync(new URL("../../data/colors.json", import.meta.url), "utf8"));
+    const load = (entries: ColorEntry[], source: NamedColor["source"]) =>
+      entries.map(entry => ({ ...entry, source, lab: labOf(entry.hex) }));
+    const entries = [...load(data.css, "css"), ...load(data.isccNbs, "iscc-nbs"), ...load(data.pigments, "pigment")];
+    checkUniqueNames(entries);
+    dictionary = entries;
+  }
+  return dictionary;
+}
+
+function checkUniqueNames(entries: NamedColor[]) {
+  const seen = new Map<string, NamedColor>();
+  const duplicates: string[] = [];
+  for (const entry of entries) {
+    const key = entry.name.toLowerCase();
+    const first = seen.get(key);
+    if (first) {
+      duplicates.push(`"${entry.name}" (${first.source} ${first.hex}, ${entry.source} ${entry.hex})`);
+    } else {
+      seen.set(key, entry);
+    }
+  }
+  if (duplicates.length > 0) {
+    throw new Error(`data/colors.json names more than one color: ${duplicates.join(", ")}`);
+  }
+}
+
+function nearest(r: number, g: number, b: number, candidates: NamedColor[]) {
+  const lab = rgbToLab(r, g, b);
+  let best = candidates[0];
+  let bestDistance = Infinity;
+  for (const candidate of candidates) {
+    const distance = deltaE2000(lab, candidate.lab);
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return { entry: best, distance: round(bestDistance) };
+}
+
+// The nearest named color of any source
+export function nameColor(r: number, g: number, b: number): ColorNameMatch {
+  const { entry, distance } = nearest(r, g, b, namedColors());
+  return { name: entry.name, hex: entry.hex, source: entry.source, distance };
+}
+
+// The nearest historical pigment, or null when none is within PIGMENT_MATCH_DISTANCE
+export function nearestPigment(r: number, g: number, b: number): PigmentMatch | null {
+  const { entry, distance } = nearest(r, g, b, namedColors().filter(color => color.source === "pigment"));
+  if (distance > PIGMENT_MATCH_DISTANCE) return null;
+  return { name: entry.name, hex: entry.hex, source: "pigment", distance, note: entry.note || "" };
+}
@@ -0,0 +1,467 @@
+// Composition analysis from the image itself
+// Works on a copy no larger than ANALYSIS_SIZE, on the CPU:
+// - saliency is frequency-tuned (Achanta et al., 2009): how far each pixel of a
+//   blurred copy is, in CIELAB, from the image's mean color. Its weighted center
+//   is the center of visual mass and its peaks are the focal points, which are
+//   scored against the thirds intersections, the golden-ratio points and the center
+// - balance compares the saliency on either side of the center lines, and
+//   symmetry correlates the blurred image with its mirror images
+// - dominant lines come from a Hough transform of the Sobel edges, each edge
+//   voting only near its own direction; three or more lines meeting near one
+//   point make a vanishing point
+// Like texture.ts, this measures the photo: a tilted or cropped shot of the
+// artwork changes the result.
+
+import sharp from "sharp";
+import { decodeBase64Image } from "../images.js";
+import type { CompositionAnalysis, CompositionLine, CompositionMeasures, ImagePoint } from "../types.js";
+import { rgbToLab } from "./color.js";
+
+// Longest side, in pixels, the image is measured at
+const ANALYSIS_SIZE = 256;
+// Blur before saliency and symmetry, so regions count rather than fine texture
+const SALIENCY_BLUR = 2;
+// Saliency grid cell size, in analysis pixels, for finding focal points
+const CELL_SIZE = 16;
+const MAX_FOCAL_POINTS = 3;
+// A peak needs this share of the strongest peak's saliency to be a focal point
+const MIN_FOCAL_WEIGHT = 0.5;
+// Cells around a peak at this share of its saliency or more belong to it
+const PEAK_REGION = 0.8;
+// A region larger than this share of the image is a field, like one side of a
+// horizon, not a focal point
+const MAX_FOCAL_AREA = 0.25;
+// How quickly alignment falls off with distance from a guide point, in 0-1 image units
+const ALIGNMENT_SPREAD = 0.06;
+// Normalized Sobel magnitude above which a pixel votes for lines
+const EDGE_THRESHOLD = 0.15;
+// Each edge votes for lines within this many degrees of its own direction
+const VOTE_SPREAD = 8;
+const MAX_LINES = 6;
+// A line needs supporting edge pixels over this share of the image's shorter side
+const MIN_LINE_SUPPORT = 0.3;
+// Peaks closer than this (degrees, and share of the diagonal) are the same line
+const LINE_SEPARATION_ANGLE = 6;
+const LINE_SEPARATION_DISTANCE = 0.03;
+// Lines meeting at less than this many degrees are treated as parallel
+const MIN_CONVERGENCE_ANGLE = 10;
+// Intersections within this share of the diagonal count as one point
+const VANISHING_RADIUS = 0.08;
+
+const THIRDS = [1 / 3, 2 / 3];
+const GOLDEN = [0.382, 0.618];
+// Thresholds for the notes
+const ALIGNED = 0.6;
+const SYMMETRIC = 0.75;
+const BALANCED = 0.1;
+
+const MAX_GRADIENT = 4 * 255 * Math.SQRT2;
+const DEGREES = Math.PI / 180;
+
+const round = (value: number, places = 3) => Number(value.toFixed(places));
+const roundPoint = ({ x, y }: ImagePoint) => ({ x: round(x), y: round(y) });
+
+interface Line {
+  theta: number;
+  rho: number;
+  votes: number;
+}
+
+export async function performCompositionAnalysis(imageBase64: string): Promise<CompositionAnalysis> {
+  const measures = await measureComposition(imageBase64);
+  return { ...describeComposition(measures), measures };
+}
+
+async function measureComposition(imageBase64: string): Promise<CompositionMeasures> {
+  const resized = sharp(decodeBase64Image(imageBase64))
+    .resize(ANALYSIS_SIZE, ANALYSIS_SIZE, { fit: "inside", withoutEnlargement: true })
+    .removeAlpha()
+    .toColorspace("srgb");
+  const [{ data: original, info }, { data: blurred }] = await Promise.all([
+    resized.clone().raw().toBuffer({ resolveWithObject: true }),
+    resized.clone().blur(SALIENCY_BLUR).raw().toBuffer({ resolveWithObject: true })
+  ]);
+  const { width, height, channels } = info;
+  if (width < 3 || height < 3) throw new Error(`Image too small for composition analysis: ${width}x${height}`);
+
+  const pixels = width * height;
+  const luma = (data: Buffer, i: number) => 0.299 * data[i * channels] + 0.587 * data[i * channels + 1] + 0.114 * data[i * channels + 2];
+  const gray = Float64Array.from({ length: pixels }, (_, i) => luma(original, i));
+  const blurredGray = Float64Array.from({ length: pixels }, (_, i) => luma(blurred, i));
+
+  const saliency = saliencyMap(original, blurred, pixels, channels);
+  const { centerOfMass, horizontalBalance, verticalBalance } = visualWeight(saliency, width, height);
+  const focalPoints = findFocalPoints(saliency, width, height);
+
+  const edges = sobelEdges(gray, width, height);
+  const lines = findLines(edges, width, height);
+  const diagonal = Math.hypot(width, height);
+
+  return {
+    centerOfMass: roundPoint(centerOfMass),
+    focalPoints: focalPoints.map(point => ({ ...roundPoint(point), weight: round(point.weight) })),
+    thirdsAlignment: round(alignment(focalPoints, gridPoints(THIRDS))),
+    goldenRatioAlignment: round(alignment(focalPoints, gridPoints(GOLDEN))),
+    centralAlignment: round(alignment(focalPoints, [{ x: 0.5, y: 0.5 }])),
+    horizontalBalance: round(horizontalBalance),
+    verticalBalance: round(verticalBalance),
+    symmetry: {
+      leftRight: round(mirrorCorrelation(blurredGray, width, height, (x, y) => y * width + (width - 1 - x))),
+      topBottom: round(mirrorCorrelation(blurredGray, width, height, (x, y) => (height - 1 - y) * width + x))
+    },
+    lines: lines.map(line => lineSegment(line, lines[0].votes, edges, width, height)),
+    vanishingPoint: vanishingPoint(lines, width, height, diagonal)
+  };
+}
+
+// Distance of each blurred pixel from the image's mean color in CIELAB
+function saliencyMap(data: Buffer, blurred: Buffer, pixels: number, channels: number) {
+  const labAt = (buffer: Buffer, i: number) => rgbToLab(buffer[i * channels], buffer[i * channels + 1], buffer[i * channels + 2]);
+
+  const mean = { l: 0, a: 0, b: 0 };
+  for (let i = 0; i < pixels; i++) {
+    const lab = labAt(data, i);
+    mean.l += lab.l / pixels;
+    mean.a += lab.a / pixels;
+    mean.b += lab.b / pixels;
+  }
+
+  return Float64Array.from({ length: pixels }, (_, i) => {
+    const lab = labAt(blurred, i);
+    return Math.hypot(lab.l - mean.l, lab.a - mean.a, lab.b - mean.b);
+  });
+}
+
+function visualWeight(saliency: Float64Array, width: number, height: number) {
+  let total = 0, sumX = 0, sumY = 0, left = 0, right = 0, top = 0, bottom = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const weight = saliency[y * width + x];
+      total += weight;
+      sumX += weight * (x + 0.5);
+      sumY += weight * (y + 0.5);
+      if (x + 0.5 < width / 2) left += weight;
+      else if (x + 0.5 > width / 2) right += weight;
+      if (y + 0.5 < height / 2) top += weight;
+      else if (y + 0.5 > height / 2) bottom += weight;
+    }
+  }
+
+  // A flat image has no visual weight anywhere; treat it as centered
+  if (total === 0) return { centerOfMass: { x: 0.5, y: 0.5 }, horizontalBalance: 0, verticalBalance: 0 };
+  return {
+    centerOfMass: { x: sumX / total / width, y: sumY / total / height },
+    horizontalBalance: (right - left) / total,
+    verticalBalance: (bottom - top) / total
+  };
+}
+
+// Peaks of the saliency averaged over cells. Each peak grows into the
+// connected cells at least PEAK_REGION of its value, and the focal point is the
+// weighted center of that region; a broad, even area gives one point, not many.
+function findFocalPoints(saliency: Float64Array, width: number, height: number) {
+  const columns = Math.max(1, Math.round(width / CELL_SIZE));
+  const rows = Math.max(1, Math.round(height / CELL_SIZE));
+  const sums = new Float64Array(columns * rows);
+  const counts = new Float64Array(columns * rows);
+
+  for (let y = 0; y < height; y++) {
+    const row = Math.min(rows - 1, Math.floor((y * rows) / height));
+    for (let x = 0; x < width; x++) {
+      const cell = row * columns + Math.min(columns - 1, Math.floor((x * columns) / width));
+      sums[cell] += saliency[y * width + x];
+      counts[cell]++;
+    }
+  }
+  const cells = Array.from(sums, (sum, cell) => (counts[cell] ? sum / counts[cell] : 0));
+
+  const neighbors = (cell: number) => {
+    const column = cell % columns, row = Math.floor(cell / columns);
+    const found = [];
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        const c = column + dx, r = row + dy;
+        if ((dx || dy) && c >= 0 && c < columns && r >= 0 && r < rows) found.push(r * columns + c);
+      }
+    }
+    return found;
+  };
+
+  const order = cells.map((_, cell) => cell).sort((a, b) => cells[b] - cells[a]);
+  const strongest = cells[order[0]];
+  if (!strongest) return [];
+
+  const claimed = new Uint8Array(cells.length);
+  const points = [];
+  for (const peak of order) {
+    if (points.length === MAX_FOCAL_POINTS || cells[peak] < strongest * MIN_FOCAL_WEIGHT) break;
+    if (claimed[peak] || neighbors(peak).some(cell => cells[cell] > cells[peak])) continue;
+
+    const region = [peak];
+    claimed[peak] = 1;
+    for (let i = 0; i < region.length; i++) {
+      for (const cell of neighbors(region[i])) {
+        if (!claimed[cell] && cells[cell] >= cells[peak] * PEAK_REGION) {
+          claimed[cell] = 1;
+          region.push(cell);
+        }
+      }
+    }
+
+    if (region.length > cells.length * MAX_FOCAL_AREA) continue;
+    const weight = region.reduce((sum, cell) => sum + cells[cell], 0);
+    points.push({
+      x: region.reduce((sum, cell) => sum + cells[cell] * ((cell % columns) + 0.5), 0) / weight / columns,
+      y: region.reduce((sum, cell) => sum + cells[cell] * (Math.floor(cell / columns) + 0.5), 0) / weight / rows,
+      weight: cells[peak] / strongest
+    });
+  }
+  return points;
+}
+
+const gridPoints = (positions: number[]) => positions.flatMap(x => positions.map(y => ({ x, y })));
+
+// How close a point sits to the nearest guide point: 1 on it, falling off with distance
+const closeness = (point: ImagePoint, guides: ImagePoint[]) => Math.max(
+  ...guides.map(guide => Math.exp(-((point.x - guide.x) ** 2 + (point.y - guide.y) ** 2) / (2 * ALIGNMENT_SPREAD ** 2)))
+);
+
+// Closeness of the focal points to the guides, weighted by how strong each
+// point is; 0 without focal points
+function alignment(points: (ImagePoint & { weight: number })[], guides: ImagePoint[]) {
+  const total = points.reduce((sum, point) => sum + point.weight, 0);
+  if (total === 0) return 0;
+  return points.reduce((sum, point) => sum + point.weight * closeness(point, guides), 0) / total;
+}
+
+// Correlation between the image and a mirrored copy, clamped to 0-1; `mirror`
+// maps a pixel to the index of its reflection
+function mirrorCorrelation(values: Float64Array, width: number, height: number, mirror: (x: number, y: number) => number) {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  let covariance = 0, variance = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = values[y * width + x] - mean;
+      covariance += value * (values[mirror(x, y)] - mean);
+      variance += value * value;
+    }
+  }
+  // A uniform image is its own mirror image
+  if (variance === 0) return 1;
+  return Math.max(0, covariance / variance);
+}
+
+interface Edge {
+  x: number;
+  y: number;
+  // Direction of the gradient, 0-180 degrees in image coordinates: the normal
+  // of any line the edge lies on
+  normal: number;
+}
+
+function sobelEdges(gray: Float64Array, width: number, height: number) {
+  const edges: Edge[] = [];
+  const at = (x: number, y: number) => gray[y * width + x];
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const gx = (at(x + 1, y - 1) + 2 * at(x + 1, y) + at(x + 1, y + 1)) - (at(x - 1, y - 1) + 2 * at(x - 1, y) + at(x - 1, y + 1));
+      const gy = (at(x - 1, y + 1) + 2 * at(x, y + 1) + at(x + 1, y + 1)) - (at(x - 1, y - 1) + 2 * at(x, y - 1) + at(x + 1, y - 1));
+      if (Math.hypot(gx, gy) / MAX_GRADIENT > EDGE_THRESHOLD) {
+        edges.push({ x, y, normal: ((Math.atan2(gy, gx) / DEGREES) % 180 + 180) % 180 });
+      }
+    }
+  }
+  return edges;
+}
+
+// Angular distance between two directions, 0-90 degrees
+const angleBetween = (a: number, b: number) => {
+  const difference = Math.abs(a - b) % 180;
+  return Math.min(difference, 180 - difference);
+};
+
+// Hough transform with lines as (theta, rho): x cos(theta) + y sin(theta) = rho,
+// theta in whole degrees 0-179
+function findLines(edges: Edge[], width: number, height: number): Line[] {
+  const diagonal = Math.ceil(Math.hypot(width, height));
+  const span = 2 * diagonal + 1;
+  const votes = new Int32Array(180 * span);
+  const cos = Array.from({ length: 180 }, (_, theta) => Math.cos(theta * DEGREES));
+  const sin = Array.from({ length: 180 }, (_, theta) => Math.sin(theta * DEGREES));
+
+  for (const edge of edges) {
+    const center = Math.round(edge.normal);
+    for (let offset = -VOTE_SPREAD; offset <= VOTE_SPREAD; offset++) {
+      const theta = (center + offset + 180) % 180;
+      const rho = Math.round(edge.x * cos[theta] + edge.y * sin[theta]);
+      votes[theta * span + rho + diagonal]++;
+    }
+  }
+
+  const minSupport = MIN_LINE_SUPPORT * Math.min(width, height);
+  const candidates: Line[] = [];
+  votes.forEach((count, index) => {
+    if (count >= minSupport) {
+      candidates.push({ theta: Math.floor(index / span), rho: (index % span) - diagonal, votes: count });
+    }
+  });
+  candidates.sort((a, b) => b.votes - a.votes);
+
+  // Across theta = 0/180 the same line has the opposite rho
+  const sameLine = (a: Line, b: Line) => {
+    const wraps = Math.abs(a.theta - b.theta) > 90;
+    return angleBetween(a.theta, b.theta) < LINE_SEPARATION_ANGLE &&
+      Math.abs(a.rho - (wraps ? -b.rho : b.rho)) < LINE_SEPARATION_DISTANCE * diagonal;
+  };
+
+  const lines: Line[] = [];
+  for (const candidate of candidates) {
+    if (lines.length === MAX_LINES) break;
+    if (!lines.some(line => sameLine(line, candidate))) lines.push(candidate);
+  }
+  return lines;
+}
+
+// The stretch of a Hough line its edges actually cover, ignoring the furthest
+// few per cent at either end so scattered pixels do not stretch it
+function lineSegment(line: Line, strongest: number, edges: Edge[], width: number, height: number): CompositionLine {
+  const cos = Math.cos(line.theta * DEGREES);
+  const sin = Math.sin(line.theta * DEGREES);
+
+  const positions = edges
+    .filter(edge => Math.abs(edge.x * cos + edge.y * sin - line.rho) <= 1.5 && angleBetween(edge.normal, line.theta) <= VOTE_SPREAD)
+    .map(edge => -edge.x * sin + edge.y * cos)
+    .sort((a, b) => a - b);
+  const percentile = (share: number) => positions[Math.min(positions.length - 1, Math.floor(positions.length * share))] ?? 0;
+
+  const pointAt = (position: number) => roundPoint({
+    x: (line.rho * cos - position * sin + 0.5) / width,
+    y: (line.rho * sin + position * cos + 0.5) / height
+  });
+
+  return {
+    from: pointAt(percentile(0.02)),
+    to: pointAt(percentile(0.98)),
+    // Along the line is (-sin, cos) in image coordinates, whose y runs downwards
+    angle: Math.round(((Math.atan2(-cos, -sin) / DEGREES) % 180 + 180) % 180),
+    strength: round(line.votes / strongest)
+  };
+}
+
+// The point where the most lines cross, when at least three do
+function vanishingPoint(lines: Line[], width: number, height: number, diagonal: number): CompositionMeasures["vanishingPoint"] {
+  const crossings = [];
+  for (let i = 0; i < lines.length; i++) {
+    for (let j = i + 1; j < lines.length; j++) {
+      const a = lines[i], b = lines[j];
+      if (angleBetween(a.theta, b.theta) < MIN_CONVERGENCE_ANGLE) continue;
+      const determinant = Math.sin((b.theta - a.theta) * DEGREES);
+      const x = (a.rho * Math.sin(b.theta * DEGREES) - b.rho * Math.sin(a.theta * DEGREES)) / determinant;
+      const y = (b.rho * Math.cos(a.theta * DEGREES) - a.rho * Math.cos(b.theta * DEGREES)) / determinant;
+      // Nearly parallel lines meet far away, where the point means little
+      if (Math.hypot(x - width / 2, y - height / 2) <= 2 * diagonal) crossings.push({ x, y, lines: [i, j] });
+    }
+  }
+
+  let best: { x: number; y: number; lines: number } | null = null;
+  for (const crossing of crossings) {
+    const nearby = crossings.filter(other => Math.hypot(other.x - crossing.x, other.y - crossing.y) <= VANISHING_RADIUS * diagonal);
+    const lineCount = new Set(nearby.flatMap(other => other.lines)).size;
+    if (lineCount >= 3 && (!best || lineCount > best.lines)) {
+      best = {
+        x: nearby.reduce((sum, other) => sum + other.x, 0) / nearby.length,
+        y: nearby.reduce((sum, other) => sum + other.y, 0) / nearby.length,
+        lines: lineCount
+      };
+    }
+  }
+
+  return best && { x: round((best.x + 0.5) / width), y: round((best.y + 0.5) / height), lines: best.lines };
+}
+
+// "upper left", "center", "middle right", or outside the picture. The middle
+// band is narrower than a third, so a point on a thirds intersection is named
+// after its corner.
+function positionName({ x, y }: ImagePoint) {
+  if (x < 0 || x > 1 || y < 0 || y > 1) {
+    const sides = [y < 0 ? "above" : y > 1 ? "below" : "", x < 0 ? "to the left" : x > 1 ? "to the right" : ""].filter(Boolean);
+    return `point ${sides.join(" and ")} of the picture`;
+  }
+  const row = y < 0.4 ? "upper" : y <= 0.6 ? "middle" : "lower";
+  const column = x < 0.4 ? "left" : x <= 0.6 ? "center" : "right";
+  if (row === "middle" && column === "center") return "center";
+  return `${row} ${column}`;
+}
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+const lineKind = (angle: number) => (angle < 15 || angle > 165 ? "horizontal" : angle > 75 && angle < 105 ? "vertical" : "diagonal");
+
+// Plain-language notes on the measures, for students and for the synthesis
+function describeComposition(measures: CompositionMeasures): Omit<CompositionAnalysis, "measures"> {
+  const { focalPoints, thirdsAlignment, goldenRatioAlignment, centralAlignment, symmetry, lines, vanishingPoint } = measures;
+  const principles = [];
+
+  const placements = [
+    { score: centralAlignment, note: "Centered composition: the main focus sits near the middle of the picture" },
+    { score: thirdsAlignment, note: "Rule of thirds: the main focus sits near a thirds intersection" },
+    { score: goldenRatioAlignment, note: "Golden ratio: the main focus sits near a golden-ratio point" }
+  ].sort((a, b) => b.score - a.score);
+  if (placements[0].score >= ALIGNED) principles.push(placements[0].note);
+
+  if (symmetry.leftRight >= SYMMETRIC) principles.push("Mirror symmetry: the left and right halves closely reflect each other");
+  if (symmetry.topBottom >= SYMMETRIC) principles.push("The top and bottom halves reflect each other, as in a reflection on water");
+
+  const kinds = new Set(lines.filter(line => line.strength >= 0.5).map(line => lineKind(line.angle)));
+  if (kinds.has("horizontal")) principles.push("Strong horizontal lines give a sense of stability and calm");
+  if (kinds.has("vertical")) principles.push("Strong vertical lines suggest height, strength and stillness");
+  if (kinds.has("diagonal")) principles.push("Diagonal lines add movement and energy");
+  if (vanishingPoint) {
+    principles.push(`Linear perspective: ${vanishingPoint.lines} lines converge toward the ${positionName(vanishingPoint)}, creating depth`);
+  }
+
+  if (principles.length === 0) principles.push("An informal layout, without a strong grid, symmetry or dominant lines");
+
+  return {
+    principles,
+    balance: describeBalance(measures),
+    visualFlow: describeFlow(measures),
+    focalPoints: focalPoints.map((point, index) => {
+      const guide = closeness(point, gridPoints(THIRDS)) >= ALIGNED ? ", on a thirds intersection" : "";
+      return `${capitalize(positionName(point))}${index === 0 ? " (strongest)" : ""}${guide}`;
+    })
+  };
+}
+
+function describeBalance({ horizontalBalance, verticalBalance, symmetry }: CompositionMeasures) {
+  const sideways = Math.abs(horizontalBalance) < BALANCED
+    ? "evenly spread between left and right"
+    : `heavier on the ${horizontalBalance > 0 ? "right" : "left"}`;
+  const upright = Math.abs(verticalBalance) < BALANCED
+    ? "between top and bottom"
+    : `toward the ${verticalBalance > 0 ? "bottom" : "top"}`;
+  const joiner = Math.abs(horizontalBalance) < BALANCED && Math.abs(verticalBalance) < BALANCED ? "and" : "and sits";
+
+  const kind = Math.abs(horizontalBalance) >= BALANCED
+    ? "an asymmetrical composition that creates tension or movement"
+    : symmetry.leftRight >= SYMMETRIC
+      ? "symmetrical balance, formal and stable"
+      : "asymmetrical balance: different elements carry similar weight";
+
+  return `Visual weight is ${sideways}, ${joiner} ${upright}: ${kind}`;
+}
+
+function describeFlow({ focalPoints, lines, vanishingPoint }: CompositionMeasures) {
+  if (focalPoints.length === 0) return "No area stands out strongly, so the eye moves freely across the picture";
+
+  const stops = focalPoints.map(point => positionName(point));
+  let flow = `The eye goes first to the ${stops[0]}`;
+  if (stops.length > 1) flow += `, then to the ${stops.slice(1).join(" and the ")}`;
+  if (vanishingPoint) {
+    flow += `, and is led along converging lines toward the ${positionName(vanishingPoint)}`;
+  } else if (lines[0] && lineKind(lines[0].angle) === "diagonal") {
+    flow += ", and follows the strongest diagonal across the picture";
+  }
+  return flow;
+}
@@ -0,0 +1,235 @@
+// Recall stage
+// Gathers context for the synthesis from the vision data and the initial
+// insights: color analysis, Wikipedia, museum collections, texture and
+// composition measured from the image (texture.ts, composition.ts) and the
+// local analyses in local.ts. Sources run in parallel and a failing source is logged
+// and left null; the others carry on without it.
+
+import { traceCall } from "../trace.js";
+import type { CombinedVision, InitialInsights, RecallData, RecallSource } from "../types.js";
+import { performColorAnalysis } from "./color.js";
+import { extractPalette } from "./palette.js";
+import { performCompositionAnalysis } from "./composition.js";
+import { generateLearningResources, performEmotionalAnalysis } from "./local.js";
+import {
+  findSimilarArtworks,
+  searchArtInstitute,
+  searchArtSearch,
+  searchHarvardArtwork,
+  searchMetMuseum,
+  searchWikipedia
+} from "./museums.js";
+import { performTextureAnalysis } from "./texture.js";
+
+export { performColorAnalysis } from "./color.js";
+export { extractPalette, groundPalette } from "./palette.js";
+
+// Fused label confidence (0-1) a label needs to be used as a search term
+const MIN_SEARCH_LABEL_CONFIDENCE = 0.4;
+
+const emptyRecallData = (): RecallData => ({
+  // Vision and texture analysis
+  textureAnalysis: null,
+  compositionAnalysis: null,
+  colorAnalysis: null,
+  emotionalAnalysis: null,
+
+  // Historical and cultural context
+  wikipediaData: null,
+  historicalContext: null,
+  culturalContext: null,
+
+  // Museum and collection data
+  metMuseumData: null,
+  harvardData: null,
+  artInstituteData: null,
+  artSearchData: null,
+
+  // Comparative and educational data
+  comparativeExamples: null,
+  similarArtworks: null,
+  artisticMovements: null,
+
+  // Educational content
+  learningResources: null,
+  discussionPrompts: null,
+  visualElements: null
+});
+
+export interface RecallOptions {
+  env?: NodeJS.ProcessEnv;
+  // The prepared image, for sources that look at its pixels; they are skipped without it
+  imageBase64?: string;
+  // Called as each source resolves, for streaming clients
+  onSource?: <Source extends RecallSource>(source: Source, data: RecallData[Source]) => void;
+}
+
+// The smaller recall of /api/analyze-educational: color analysis and the first
+// search term against Wikipedia and three museums
+export async function performTargetedRecall(
+  visionData: CombinedVision,
+  initialInsights: InitialInsights,
+  { env = process.env, imageBase64 }: RecallOptions = {}
+): Promise<RecallData> {
+  console.log("🎯 Performing targeted recall based on AI insights...");
+
+  const recallData = emptyRecallData();
+  const recallPromises = [];
+
+  const searchTerms = extractSearchTerms(searchLabels(visionData), initialInsights);
+
+  if (imageBase64) {
+    recallPromises.push(
+      extractPalette(imageBase64).then(performColorAnalysis).then(result => {
+        recallData.colorAnalysis = result;
+      }).catch(err => console.warn("Color analysis failed:", err))
+    );
+  }
+
+  if (searchTerms.length > 0) {
+    recallPromises.push(
+      searchWikipedia(searchTerms[0]).then(result => {
+        recallData.wikipediaData = result;
+      }).catch(err => console.warn("Wikipedia search failed:", err)),
+      searchMetMuseum(searchTerms[0]).then(result => {
+        recallData.metMuseumData = result;
+      }).catch(err => console.warn("Met Museum search failed:", err)),
+      searchArtInstitute(searchTerms[0]).then(result => {
+        recallData.artInstituteData = result;
+      }).catch(err => console.warn("Art Institute search failed:", err))
+    );
+  }
+
+  if (env.VITE_HARVARD_ART_MUSEUMS_API_KEY && searchTerms.length > 0) {
+    recallPromises.push(
+      searchHarvardArtwork(searchTerms[0], env).then(result => {
+        recallData.harvardData = result;
+      }).catch(err => console.warn("Harvard search failed:", err))
+    );
+  }
+
+  await Promise.allSettled(recallPromises);
+
+  return recallData;
+}
+
+// The full recall of the comprehensive pipeline. Each source is a call in the
+// analysis trace, including sources that catch their own errors and come back
+// empty, so the stage can report which ones failed.
+export async function performComprehensiveRecall(
+  visionData: CombinedVision,
+  initialInsights: InitialInsights,
+  { env = process.env, imageBase64, onSource = () => {} }: RecallOptions = {}
+): Promise<RecallData> {
+  console.log("🎯 Performing comprehensive targeted recall with all APIs...");
+
+  const recallData = emptyRecallData();
+  const recallPromises: Promise<void>[] = [];
+
+  // Runs one source as a traced call, then records it and reports it to
+  // streaming listeners; a failed source is logged and stays null
+  const recall = <Source extends RecallSource>(source: Source, label: string, run: () => Promise<RecallData[Source]>) => {
+    recallPromises.push(
+      traceCall(source, { kind: "recall" }, run).then(result => {
+        recallData[source] = result;
+        onSource(source, result);
+        if (Array.isArray(result) ? result.length > 0 : result) console.log(`✅ ${label} completed`);
+      }).catch(err => console.warn(`${label} failed:`, err))
+    );
+  };
+
+  const searchTerms = extractComprehensiveSearchTerms(searchLabels(visionData), initialInsights);
+  console.log("🔍 Search terms extracted:", searchTerms);
+  const query = searchTerms[0];
+
+  if (query) {
+    recall("wikipediaData", "Wikipedia search", () => searchWikipedia(query));
+    recall("metMuseumData", "Met Museum search", () => searchMetMuseum(query));
+    recall("artInstituteData", "Art Institute search", () => searchArtInstitute(query));
+    if (env.VITE_HARVARD_ART_MUSEUMS_API_KEY) {
+      recall("harvardData", "Harvard search", () => searchHarvardArtwork(query, env));
+    }
+    if (env.VITE_ARTSEARCH_API_KEY) {
+      recall("artSearchData", "Art Search", () => searchArtSearch(query, env));
+    }
+  }
+
+  if (imageBase64) {
+    recall("colorAnalysis", "Color analysis", () => extractPalette(imageBase64).then(performColorAnalysis));
+    recall("textureAnalysis", "Texture analysis", () => performTextureAnalysis(imageBase64));
+    recall("compositionAnalysis", "Composition analysis", () => performCompositionAnalysis(imageBase64));
+  }
+
+  recall("emotionalAnalysis", "Emotional analysis", () => performEmotionalAnalysis(visionData, initialInsights));
+  recall("learningResources", "Learning resources generation", () => generateLearningResources(visionData, initialInsights));
+
+  if (searchTerms.length > 0) {
+    recall("similarArtworks", "Similar artworks search", () => findSimilarArtworks(searchTerms));
+  }
+
+  console.log("⏳ Waiting for all recall operations to complete...");
+  await Promise.allSettled(recallPromises);
+
+  const completedOperations = Object.keys(recallData).filter(key => recallData[key as RecallSource] !== null);
+  console.log("✅ Recall operations completed:", completedOperations.length, "out of", Object.keys(recallData).length);
+
+  return recallData;
+}
+
+// What each recall source found, one line per source, for the stage record
+export function recallInsights(recallData: Partial<RecallData>) {
+  const insights = [];
+  if (recallData.wikipediaData?.title) insights.push(`Wikipedia: ${recallData.wikipediaData.title}`);
+  if (recallData.metMuseumData?.title) insights.push(`Met Museum: ${recallData.metMuseumData.title}`);
+  ([
+    ["harvardData", "Harvard Art Museums"],
+    ["artInstituteData", "Art Institute of Chicago"],
+    ["artSearchData", "Art Search"],
+    ["similarArtworks", "Similar artworks"]
+  ] as const).forEach(([key, label]) => {
+    const count = recallData[key]?.length;
+    if (count) insights.push(`${label}: ${count} artwork${count === 1 ? "" : "s"}`);
+  });
+  const colors = recallData.colorAnalysis?.dominantColors?.map(color => `${color.name} ${color.percentage}%`) || [];
+  if (colors.length > 0) insights.push(`Colors: ${colors.join(", ")}`);
+  if (recallData.textureAnalysis?.textureTypes[0]) insights.push(`Texture: ${recallData.textureAnalysis.textureTypes[0]}`);
+  if (recallData.compositionAnalysis?.principles[0]) insights.push(`Composition: ${recallData.compositionAnalysis.principles[0]}`);
+  if (recallData.emotionalAnalysis?.dominantMood) insights.push(`Mood: ${recallData.emotionalAnalysis.dominantMood}`);
+  return insights;
+}
+
+// Labels worth searching with, best-supported first (see vision/fusion.ts).
+// Labels with little support, such as a low score from a single provider, are
+// left out; vision data without fused scores is used as it is.
+function searchLabels(visionData: Partial<CombinedVision>) {
+  if (!visionData.rankedLabels) return visionData.labels || [];
+  return visionData.rankedLabels
+    .filter(label => label.confidence >= MIN_SEARCH_LABEL_CONFIDENCE)
+    .map(label => label.name);
+}
+
+const cleanTerms = (terms: string[], limit: number) => [...new Set(terms)]
+  .map(term => term.replace(/[^a-zA-Z0-9\s-]/g, " ").trim())
+  .filter(term => term.length > 2)
+  .slice(0, limit);
+
+function extractSearchTerms(labels: string[], insights: Partial<InitialInsights>) {
+  return cleanTerms([
+    ...labels,
+    ...(insights.styleInsights || []).slice(0, 2),
+    ...(insights.themeInsights || []).slice(0, 2)
+  ], 3);
+}
+
+// More insight categories and more terms than extractSearchTerms, with
+// art-specific terms appended as a fallback that reliably finds something
+function extractComprehensiveSearchTerms(labels: string[], insights: Partial<InitialInsights>) {
+  return cleanTerms([
+    ...labels,
+    ...(insights.styleInsights || []).slice(0, 3),
+    ...(insights.themeInsights || []).slice(0, 3),
+    ...(insights.techniqueInsights || []).slice(0, 2),
+    ...(insights.mediumInsights || []).slice(0, 2),
+    "art", "painting", "artwork", "artist", "museum", "gallery", "artistic", "visual"
+  ], 5);
+}
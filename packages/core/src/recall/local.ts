@@ -0,0 +1,58 @@
+// Recall sources computed without any API: the emotional reading of the
+// palette and generic learning resources
+
+import type { CombinedVision, EmotionalAnalysis, InitialInsights, LearningResources } from "../types.js";
+import { isWarm } from "./color.js";
+
+// Mood from the balance of warm and cool colors, and depth from the objects found
+export async function performEmotionalAnalysis(visionData: CombinedVision, initialInsights: InitialInsights): Promise<EmotionalAnalysis> {
+  const emotionalCues = [];
+
+  if (visionData.colors && visionData.colors.length > 0) {
+    const warmColors = visionData.colors.filter(isWarm);
+
+    if (warmColors.length > visionData.colors.length / 2) {
+      emotionalCues.push("Warm, energetic mood");
+    } else {
+      emotionalCues.push("Cool, contemplative mood");
+    }
+  }
+
+  if (visionData.objects && visionData.objects.length > 0) {
+    emotionalCues.push("Complex composition suggests depth of meaning");
+  }
+
+  return {
+    dominantMood: emotionalCues[0] || "Balanced emotional tone",
+    emotionalCues: emotionalCues,
+    psychologicalImpact: "Invites contemplation and emotional engagement",
+    educationalValue: "Teaches about color psychology and emotional expression in art"
+  };
+}
+
+export async function generateLearningResources(visionData: CombinedVision, initialInsights: InitialInsights): Promise<LearningResources> {
+  return {
+    keyConcepts: [
+      "Visual composition principles",
+      "Color theory and psychology",
+      "Artistic technique and material use",
+      "Historical and cultural context"
+    ],
+    discussionPrompts: [
+      "What emotions does this artwork evoke in you?",
+      "How does the artist use color to create mood?",
+      "What techniques can you identify in the brushwork?",
+      "How does the composition guide your eye?"
+    ],
+    learningActivities: [
+      "Create a color study inspired by this artwork",
+      "Write a descriptive analysis of the composition",
+      "Research the historical period and artistic movement",
+      "Compare with other artworks from the same period"
+    ],
+    vocabulary: [
+      "Composition", "Chiaroscuro", "Color harmony", "Brushwork", "Perspective",
+      "Texture", "Value", "Form", "Line", "Space"
+    ]
+  };
+}
@@ -0,0 +1,142 @@
+// Wikipedia and museum collection searches
+// Every search resolves with null (or nothing found) rather than throwing, so
+// one unreachable source never fails the recall stage; the trace still records
+// the HTTP error (see traceCall). Keyed sources read their key from `env`.
+
+import { httpFetch } from "../http.js";
+import type { ArticArtwork, HarvardRecord, MetObject, SimilarArtwork, WikipediaSummary } from "../types.js";
+
+export async function searchWikipedia(query: string): Promise<WikipediaSummary | null> {
+  try {
+    const cleanQuery = query.replace(/[^a-zA-Z0-9\s-]/g, " ").trim();
+    const targetUrl = `https://en.wikipedia.org/api/rest_v1/page/summary/${encodeURIComponent(cleanQuery)}`;
+    const proxyUrl = `https://api.allorigins.win/raw?url=${encodeURIComponent(targetUrl)}`;
+
+    const response = await httpFetch(proxyUrl, { provider: "wikipedia" });
+    if (!response.ok) return null;
+
+    const data = await response.json() as {
+      title: string;
+      extract: string;
+      description: string;
+      content_urls?: { desktop?: { page?: string } };
+    };
+    return {
+      title: data.title,
+      extract: data.extract,
+      description: data.description,
+      url: data.content_urls?.desktop?.page || ""
+    };
+  } catch (error) {
+    return null;
+  }
+}
+
+export async function searchMetMuseum(query: string): Promise<MetObject | null> {
+  try {
+    const response = await httpFetch(`https://collectionapi.metmuseum.org/public/collection/v1/search?q=${encodeURIComponent(query)}&hasImages=true&isOnView=true`);
+    if (!response.ok) return null;
+
+    const data = await response.json() as { objectIDs?: number[] | null };
+    if (!data.objectIDs || data.objectIDs.length === 0) return null;
+
+    // Get details for first result
+    const detailResponse = await httpFetch(`https://collectionapi.metmuseum.org/public/collection/v1/objects/${data.objectIDs[0]}`);
+    if (!detailResponse.ok) return null;
+
+    return await detailResponse.json() as MetObject;
+  } catch (error) {
+    return null;
+  }
+}
+
+export async function searchHarvardArtwork(query: string, env: NodeJS.ProcessEnv = process.env): Promise<HarvardRecord[] | null> {
+  if (!env.VITE_HARVARD_ART_MUSEUMS_API_KEY) return null;
+
+  try {
+    const response = await httpFetch(
+      `https://api.harvardartmuseums.org/object?q=${encodeURIComponent(query)}&size=3&hasimage=1&fields=title,people,dated,culture,period,medium,classification,technique,description&apikey=${env.VITE_HARVARD_ART_MUSEUMS_API_KEY}`
+    );
+    if (!response.ok) return null;
+
+    const data = await response.json() as { records?: HarvardRecord[] };
+    return data.records || [];
+  } catch (error) {
+    return null;
+  }
+}
+
+export async function searchArtInstitute(query: string): Promise<ArticArtwork[] | null> {
+  try {
+    const response = await httpFetch(
+      `https://api.artic.edu/api/v1/artworks/search?q=${encodeURIComponent(query)}&limit=3&fields=id,title,artist_display,date_display,style_titles,medium_display,description,image_id`
+    );
+    if (!response.ok) return null;
+
+    const data = await response.json() as { data?: ArticArtwork[] };
+    return data.data || [];
+  } catch (error) {
+    return null;
+  }
+}
+
+export async function searchArtSearch(query: string, env: NodeJS.ProcessEnv = process.env): Promise<Record<string, unknown>[] | null> {
+  if (!env.VITE_ARTSEARCH_API_KEY) {
+    return null;
+  }
+
+  try {
+    const response = await httpFetch(`https://api.artsearch.io/v1/search?query=${encodeURIComponent(query)}&limit=5`, {
+      headers: {
+        "X-API-KEY": env.VITE_ARTSEARCH_API_KEY
+      }
+    });
+
+    if (!response.ok) return null;
+
+    // The response shape has changed between API versions
+    const data = await response.json() as Record<string, Record<string, unknown>[] | undefined>;
+    return data.items || data.results || data.data || [];
+  } catch (error) {
+    return null;
+  }
+}
+
+// Artworks from the Met and the Art Institute matching the first two search
+// terms, at most six
+export async function findSimilarArtworks(searchTerms: string[]): Promise<SimilarArtwork[]> {
+  const searchPromises = searchTerms.slice(0, 2).map(async (term) => {
+    try {
+      const [metResults, artInstituteResults] = await Promise.allSettled([
+        searchMetMuseum(term),
+        searchArtInstitute(term)
+      ]);
+
+      const results: SimilarArtwork[] = [];
+      if (metResults.status === "fulfilled" && metResults.value) {
+        results.push({
+          title: metResults.value.title,
+          artist: metResults.value.artistDisplayName,
+          period: metResults.value.objectDate,
+          source: "Metropolitan Museum of Art"
+        });
+      }
+
+      if (artInstituteResults.status === "fulfilled" && artInstituteResults.value) {
+        results.push(...artInstituteResults.value.slice(0, 2).map(artwork => ({
+          title: artwork.title,
+          artist: artwork.artist_display,
+          period: artwork.date_display,
+          source: "Art Institute of Chicago"
+        })));
+      }
+
+      return results;
+    } catch (error) {
+      return [];
+    }
+  });
+
+  const allResults = await Promise.all(searchPromises);
+  return allResults.flat().slice(0, 6);
+}
@@ -0,0 +1,310 @@
+// Palette extraction from the image itself
+// Every pixel of a copy no larger than ANALYSIS_SIZE is converted to CIELAB, so
+// distances follow how different colors look. Median cut splits the pixels into
+// up to MAX_COLORS boxes, and k-means refines the box means into clusters.
+// Clusters that look alike are merged and slivers are folded into their
+// neighbors, so every pixel belongs to a color and coverage sums to 100%.
+
+import sharp from "sharp";
+import { decodeBase64Image } from "../images.js";
+import { rgbToLab } from "./color.js";
+import type { ColorDistribution, ColorSwatch } from "../types.js";
+
+// Longest side, in pixels, the image is measured at
+const ANALYSIS_SIZE = 128;
+const MAX_COLORS = 8;
+const MAX_ITERATIONS = 12;
+// Clusters closer than this (ΔE*ab) are one color to the eye
+const MERGE_DISTANCE = 10;
+// Smallest share of the image a color must cover to be kept
+const MIN_COVERAGE = 0.02;
+// Furthest (ΔE*ab) a color named in the synthesis may be from a measured one
+const MATCH_DISTANCE = 20;
+// RMS distance from the center of a color spread evenly over the unit square
+const EVEN_SPREAD = Math.sqrt(1 / 6);
+
+export interface PaletteColor {
+  hex: string;
+  // "rgb(r, g, b)", as the color helpers expect
+  rgb: string;
+  // Share of the image, 0-100
+  percentage: number;
+  distribution: ColorDistribution;
+}
+
+interface Pixels {
+  count: number;
+  width: number;
+  height: number;
+  rgb: Uint8Array;
+  // L, a, b per pixel
+  lab: Float64Array;
+}
+
+type Centroid = [number, number, number];
+
+const round = (value: number, places = 3) => Number(value.toFixed(places));
+
+const distanceSquared = (lab: Float64Array, pixel: number, centroid: Centroid) => {
+  const dl = lab[pixel * 3] - centroid[0];
+  const da = lab[pixel * 3 + 1] - centroid[1];
+  const db = lab[pixel * 3 + 2] - centroid[2];
+  return dl * dl + da * da + db * db;
+};
+
+const deltaE = (a: Centroid, b: Centroid) => Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+
+const toHex = (r: number, g: number, b: number) =>
+  `#${((1 << 24) + (r << 16) + (g << 8) + b).toString(16).slice(1)}`;
+
+// Colors covering the image, largest first
+export async function extractPalette(imageBase64: string): Promise<PaletteColor[]> {
+  const pixels = await readPixels(imageBase64);
+  let centroids = medianCut(pixels);
+
+  for (;;) {
+    const assignment = kMeans(pixels, centroids);
+    const counts = countClusters(assignment, centroids.length);
+    const adjusted = mergeOrDrop(centroids, counts, pixels.count);
+    if (!adjusted) return describeClusters(pixels, assignment, centroids.length);
+    centroids = adjusted;
+  }
+}
+
+async function readPixels(imageBase64: string): Promise<Pixels> {
+  const { data, info } = await sharp(decodeBase64Image(imageBase64))
+    .resize(ANALYSIS_SIZE, ANALYSIS_SIZE, { fit: "inside", withoutEnlargement: true })
+    .flatten({ background: "#ffffff" })
+    .removeAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const { width, height, channels } = info;
+  const count = width * height;
+  if (count === 0) throw new Error("Image has no pixels to extract a palette from");
+
+  const rgb = new Uint8Array(count * 3);
+  const lab = new Float64Array(count * 3);
+  for (let pixel = 0; pixel < count; pixel++) {
+    const r = data[pixel * channels];
+    const g = data[pixel * channels + 1];
+    const b = data[pixel * channels + 2];
+    const color = rgbToLab(r, g, b);
+    rgb.set([r, g, b], pixel * 3);
+    lab.set([color.l, color.a, color.b], pixel * 3);
+  }
+
+  return { count, width, height, rgb, lab };
+}
+
+// Repeatedly splits the box with the most pixels times widest range at the
+// median of that range, and starts k-means from the box means
+function medianCut({ count, lab }: Pixels): Centroid[] {
+  const extent = (box: number[]) => {
+    let widest = { channel: 0, range: 0 };
+    for (let channel = 0; channel < 3; channel++) {
+      let min = Infinity;
+      let max = -Infinity;
+      for (const pixel of box) {
+        const value = lab[pixel * 3 + channel];
+        if (value < min) min = value;
+        if (value > max) max = value;
+      }
+      if (max - min > widest.range) widest = { channel, range: max - min };
+    }
+    return widest;
+  };
+
+  const boxes = [Array.from({ length: count }, (_, pixel) => pixel)];
+  while (boxes.length < MAX_COLORS) {
+    let chosen = -1;
+    let chosenExtent = { channel: 0, range: 0 };
+    let bestScore = 0;
+    boxes.forEach((box, index) => {
+      const boxExtent = extent(box);
+      const score = box.length * boxExtent.range;
+      if (box.length > 1 && score > bestScore) {
+        chosen = index;
+        chosenExtent = boxExtent;
+        bestScore = score;
+      }
+    });
+    if (chosen < 0) break;
+
+    const { channel } = chosenExtent;
+    const sorted = [...boxes[chosen]].sort((a, b) => lab[a * 3 + channel] - lab[b * 3 + channel]);
+    const middle = Math.floor(sorted.length / 2);
+    boxes.splice(chosen, 1, sorted.slice(0, middle), sorted.slice(middle));
+  }
+
+  return boxes.map(box => {
+    const sum: Centroid = [0, 0, 0];
+    for (const pixel of box) {
+      for (let channel = 0; channel < 3; channel++) sum[channel] += lab[pixel * 3 + channel];
+    }
+    return sum.map(value => value / box.length) as Centroid;
+  });
+}
+
+// Moves the centroids in place to the means of their nearest pixels until no
+// pixel changes cluster; returns each pixel's cluster
+function kMeans({ count, lab }: Pixels, centroids: Centroid[]) {
+  const assignment = new Int32Array(count).fill(-1);
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    let changed = false;
+    for (let pixel = 0; pixel < count; pixel++) {
+      let nearest = 0;
+      let nearestDistance = Infinity;
+      centroids.forEach((centroid, cluster) => {
+        const distance = distanceSquared(lab, pixel, centroid);
+        if (distance < nearestDistance) {
+          nearest = cluster;
+          nearestDistance = distance;
+        }
+      });
+      if (assignment[pixel] !== nearest) {
+        assignment[pixel] = nearest;
+        changed = true;
+      }
+    }
+    if (!changed) break;
+
+    const sums = centroids.map(() => [0, 0, 0, 0]);
+    for (let pixel = 0; pixel < count; pixel++) {
+      const sum = sums[assignment[pixel]];
+      for (let channel = 0; channel < 3; channel++) sum[channel] += lab[pixel * 3 + channel];
+      sum[3]++;
+    }
+    sums.forEach(([l, a, b, pixels], cluster) => {
+      if (pixels > 0) centroids[cluster] = [l / pixels, a / pixels, b / pixels];
+    });
+  }
+
+  return assignment;
+}
+
+function countClusters(assignment: Int32Array, clusters: number) {
+  const counts = new Array<number>(clusters).fill(0);
+  for (const cluster of assignment) counts[cluster]++;
+  return counts;
+}
+
+// One clean-up step: merges the closest pair of clusters if they look alike,
+// otherwise drops the smallest cluster if it is a sliver or empty. Returns the
+// new centroids, or null when the palette is settled.
+function mergeOrDrop(centroids: Centroid[], counts: number[], total: number): Centroid[] | null {
+  let closest = { first: -1, second: -1, distance: Infinity };
+  for (let first = 0; first < centroids.length; first++) {
+    for (let second = first + 1; second < centroids.length; second++) {
+      const distance = deltaE(centroids[first], centroids[second]);
+      if (distance < closest.distance) closest = { first, second, distance };
+    }
+  }
+
+  if (closest.distance < MERGE_DISTANCE) {
+    const { first, second } = closest;
+    const weight = counts[first] + counts[second];
+    const merged = centroids[first].map((value, channel) =>
+      weight > 0 ? (value * counts[first] + centroids[second][channel] * counts[second]) / weight : value
+    ) as Centroid;
+    return centroids.filter((_, cluster) => cluster !== second).map((centroid, cluster) => (cluster === first ? merged : centroid));
+  }
+
+  const smallest = counts.indexOf(Math.min(...counts));
+  if (centroids.length > 1 && counts[smallest] < total * MIN_COVERAGE) {
+    return centroids.filter((_, cluster) => cluster !== smallest);
+  }
+
+  return null;
+}
+
+function describeClusters({ count, width, height, rgb }: Pixels, assignment: Int32Array, clusters: number): PaletteColor[] {
+  const stats = Array.from({ length: clusters }, () => ({
+    pixels: 0,
+    rgb: [0, 0, 0],
+    x: 0,
+    y: 0,
+    xx: 0,
+    yy: 0,
+    regions: new Array<number>(9).fill(0)
+  }));
+
+  for (let pixel = 0; pixel < count; pixel++) {
+    const cluster = stats[assignment[pixel]];
+    const x = ((pixel % width) + 0.5) / width;
+    const y = (Math.floor(pixel / width) + 0.5) / height;
+    cluster.pixels++;
+    for (let channel = 0; channel < 3; channel++) {
+      cluster.rgb[channel] += rgb[pixel * 3 + channel];
+    }
+    cluster.x += x;
+    cluster.y += y;
+    cluster.xx += x * x;
+    cluster.yy += y * y;
+    cluster.regions[Math.min(2, Math.floor(y * 3)) * 3 + Math.min(2, Math.floor(x * 3))]++;
+  }
+
+  return stats
+    .filter(cluster => cluster.pixels > 0)
+    .map(cluster => {
+      const { pixels } = cluster;
+      // The mean of the actual pixels, so the swatch shows a color that is in the image
+      const [r, g, b] = cluster.rgb.map(sum => Math.round(sum / pixels));
+      const center = { x: cluster.x / pixels, y: cluster.y / pixels };
+      const variance = cluster.xx / pixels - center.x ** 2 + cluster.yy / pixels - center.y ** 2;
+
+      return {
+        hex: toHex(r, g, b),
+        rgb: `rgb(${r}, ${g}, ${b})`,
+        percentage: round((pixels / count) * 100, 1),
+        distribution: {
+          center: { x: round(center.x), y: round(center.y) },
+          spread: round(Math.min(1, Math.sqrt(Math.max(0, variance)) / EVEN_SPREAD)),
+          regions: cluster.regions.map(region => round(region / pixels))
+        }
+      };
+    })
+    .sort((a, b) => b.percentage - a.percentage);
+}
+
+const hexToLab = (hex: string): Centroid | null => {
+  const match = hex.match(/^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i);
+  if (!match) return null;
+  const { l, a, b } = rgbToLab(parseInt(match[1], 16), parseInt(match[2], 16), parseInt(match[3], 16));
+  return [l, a, b];
+};
+
+// Grounds the palette a language model wrote in the measured one. Each written
+// color takes the hex, coverage, dictionary matches and placement of the
+// nearest measured color within MATCH_DISTANCE, keeping its own name and notes;
+// colors with no match, or matching a color already used, are dropped. When
+// nothing matches, the measured swatches are returned instead.
+export function groundPalette(written: ColorSwatch[], measured: ColorSwatch[]): ColorSwatch[] {
+  if (measured.length === 0) return written;
+
+  const measuredLab = measured.map(swatch => hexToLab(swatch.hex));
+  const used = new Set<number>();
+  const grounded: ColorSwatch[] = [];
+
+  for (const swatch of written) {
+    const lab = hexToLab(swatch.hex);
+    if (!lab) continue;
+    let nearest = -1;
+    let nearestDistance = MATCH_DISTANCE;
+    measuredLab.forEach((candidate, index) => {
+      if (!candidate || used.has(index)) return;
+      const distance = deltaE(lab, candidate);
+      if (distance <= nearestDistance) {
+        nearest = index;
+        nearestDistance = distance;
+      }
+    });
+    if (nearest < 0) continue;
+
+    used.add(nearest);
+    const { hex, percentage, family, nameMatch, pigment, distribution } = measured[nearest];
+    grounded.push({ ...swatch, hex, percentage, family, nameMatch, pigment, distribution });
+  }
+
+  return grounded.length > 0 ? grounded.sort((a, b) => b.percentage - a.percentage) : measured;
+}
@@ -0,0 +1,209 @@
+// Texture analysis from the image itself
+// Works on a grayscale copy no larger than ANALYSIS_SIZE, on the CPU:
+// - Sobel gradients give gradient energy, edge density and, at edge pixels, the
+//   direction marks run (perpendicular to the gradient), binned into a histogram
+// - the structure tensor summed over the image gives how coherent that direction is
+// - the Laplacian gives high-frequency detail, averaged over a grid of cells that
+//   becomes the heatmap
+// The measures describe the photo, not the object: focus, glare, lighting and
+// JPEG compression all change them, so the notes are worded as observations.
+
+import sharp from "sharp";
+import { decodeBase64Image } from "../images.js";
+import type { TextureAnalysis, TextureHeatmap, TextureMeasures } from "../types.js";
+
+// Longest side, in pixels, the image is measured at
+const ANALYSIS_SIZE = 512;
+// Approximate heatmap cell size, in analysis pixels
+const CELL_SIZE = 16;
+// Normalized gradient strength above which a pixel is on an edge
+const EDGE_THRESHOLD = 0.1;
+const ORIENTATION_BINS = 8;
+// Cells at this percentile of detail or above are drawn at full strength, so
+// one very sharp patch does not wash out the rest of the map
+const HEATMAP_PERCENTILE = 0.95;
+// Heatmap opacity for the most detailed cells (0-255)
+const HEATMAP_MAX_ALPHA = 190;
+
+// Largest Sobel magnitude on 8-bit input, and largest 4-neighbor Laplacian
+const MAX_GRADIENT = 4 * 255 * Math.SQRT2;
+const MAX_LAPLACIAN = 4 * 255;
+
+const round = (value: number, places = 3) => Number(value.toFixed(places));
+
+export async function performTextureAnalysis(imageBase64: string): Promise<TextureAnalysis> {
+  const { measures, detailGrid, columns, rows } = await measureTexture(imageBase64);
+  const heatmap = await renderHeatmap(detailGrid, columns, rows).catch(error => {
+    console.warn("Texture heatmap failed:", error);
+    return null;
+  });
+
+  return { ...describeTexture(measures), measures, heatmap };
+}
+
+async function measureTexture(imageBase64: string) {
+  const { data, info } = await sharp(decodeBase64Image(imageBase64))
+    .resize(ANALYSIS_SIZE, ANALYSIS_SIZE, { fit: "inside", withoutEnlargement: true })
+    .grayscale()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const { width, height, channels } = info;
+  if (width < 3 || height < 3) throw new Error(`Image too small for texture analysis: ${width}x${height}`);
+
+  const at = (x: number, y: number) => data[(y * width + x) * channels];
+
+  // Cells divide the image exactly, so the heatmap lines up when stretched over it
+  const columns = Math.max(1, Math.round(width / CELL_SIZE));
+  const rows = Math.max(1, Math.round(height / CELL_SIZE));
+  const cellDetail = new Float64Array(columns * rows);
+  const cellPixels = new Float64Array(columns * rows);
+
+  const histogram = new Array<number>(ORIENTATION_BINS).fill(0);
+  let gradientSum = 0;
+  let detailSum = 0;
+  let edgePixels = 0;
+  let jxx = 0;
+  let jyy = 0;
+  let jxy = 0;
+
+  for (let y = 1; y < height - 1; y++) {
+    const row = Math.min(rows - 1, Math.floor((y * rows) / height));
+    for (let x = 1; x < width - 1; x++) {
+      const topLeft = at(x - 1, y - 1), top = at(x, y - 1), topRight = at(x + 1, y - 1);
+      const left = at(x - 1, y), center = at(x, y), right = at(x + 1, y);
+      const bottomLeft = at(x - 1, y + 1), bottom = at(x, y + 1), bottomRight = at(x + 1, y + 1);
+
+      const gx = (topRight + 2 * right + bottomRight) - (topLeft + 2 * left + bottomLeft);
+      // Image rows run downwards; flip so angles are counter-clockwise as usual
+      const gy = (topLeft + 2 * top + topRight) - (bottomLeft + 2 * bottom + bottomRight);
+      const magnitude = Math.hypot(gx, gy) / MAX_GRADIENT;
+      const laplacian = Math.abs(4 * center - left - right - top - bottom) / MAX_LAPLACIAN;
+
+      gradientSum += magnitude;
+      detailSum += laplacian;
+      jxx += gx * gx;
+      jyy += gy * gy;
+      jxy += gx * gy;
+
+      if (magnitude > EDGE_THRESHOLD) {
+        edgePixels++;
+        // A mark runs along the edge, at right angles to the gradient
+        const orientation = ((Math.atan2(gy, gx) * 180) / Math.PI + 90 + 360) % 180;
+        histogram[Math.round(orientation / (180 / ORIENTATION_BINS)) % ORIENTATION_BINS] += magnitude;
+      }
+
+      const cell = row * columns + Math.min(columns - 1, Math.floor((x * columns) / width));
+      cellDetail[cell] += laplacian;
+      cellPixels[cell]++;
+    }
+  }
+
+  const pixels = (width - 2) * (height - 2);
+  const histogramTotal = histogram.reduce((sum, value) => sum + value, 0);
+  const tensorTotal = jxx + jyy;
+  // The structure tensor's main axis is the dominant gradient direction; marks
+  // run at right angles to it
+  const gradientAngle = (0.5 * Math.atan2(2 * jxy, jxx - jyy) * 180) / Math.PI;
+
+  const detailGrid = Array.from(cellDetail, (sum, cell) => (cellPixels[cell] ? sum / cellPixels[cell] : 0));
+
+  const measures: TextureMeasures = {
+    gradientEnergy: round(gradientSum / pixels),
+    edgeDensity: round(edgePixels / pixels),
+    detailLevel: round(detailSum / pixels),
+    detailConcentration: round(concentration(detailGrid)),
+    orientationCoherence: round(tensorTotal > 0 ? Math.hypot(jxx - jyy, 2 * jxy) / tensorTotal : 0),
+    dominantOrientation: Math.round((gradientAngle + 90 + 180) % 180),
+    orientationHistogram: histogram.map(value => round(histogramTotal > 0 ? value / histogramTotal : 0))
+  };
+
+  return { measures, detailGrid, columns, rows };
+}
+
+// Share of the total in the top quarter of cells; 0.25 when detail is even
+function concentration(values: number[]) {
+  const total = values.reduce((sum, value) => sum + value, 0);
+  if (total === 0) return 0;
+  const sorted = [...values].sort((a, b) => b - a);
+  const top = sorted.slice(0, Math.max(1, Math.round(sorted.length / 4)));
+  return top.reduce((sum, value) => sum + value, 0) / total;
+}
+
+async function renderHeatmap(detailGrid: number[], columns: number, rows: number): Promise<TextureHeatmap | null> {
+  const sorted = [...detailGrid].sort((a, b) => a - b);
+  const ceiling = sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * HEATMAP_PERCENTILE))];
+  if (!ceiling) return null;
+
+  // Clear through yellow to red
+  const pixels = Buffer.alloc(columns * rows * 4);
+  detailGrid.forEach((detail, cell) => {
+    const strength = Math.min(1, detail / ceiling);
+    pixels[cell * 4] = 255;
+    pixels[cell * 4 + 1] = Math.round(220 * (1 - strength));
+    pixels[cell * 4 + 2] = 0;
+    pixels[cell * 4 + 3] = Math.round(HEATMAP_MAX_ALPHA * strength);
+  });
+
+  const png = await sharp(pixels, { raw: { width: columns, height: rows, channels: 4 } }).png().toBuffer();
+  return { image: `data:image/png;base64,${png.toString("base64")}`, columns, rows };
+}
+
+function orientationName(degrees: number) {
+  if (degrees < 22.5 || degrees >= 157.5) return "horizontally";
+  if (degrees < 67.5) return "diagonally, rising to the right";
+  if (degrees < 112.5) return "vertically";
+  return "diagonally, falling to the right";
+}
+
+// Plain-language notes on the measures, for students and for the synthesis
+function describeTexture(measures: TextureMeasures): Pick<TextureAnalysis, "textureTypes" | "techniqueNotes" | "educationalValue"> {
+  const { edgeDensity, detailLevel, detailConcentration, orientationCoherence, dominantOrientation } = measures;
+  const textureTypes = [];
+  const techniqueNotes = [];
+
+  const busy = edgeDensity >= 0.25;
+  const smooth = edgeDensity < 0.08;
+  if (busy) {
+    textureTypes.push("Broken, busy surface: distinct marks cover much of the image");
+  } else if (smooth) {
+    textureTypes.push("Smooth surface: tones blend with few distinct marks");
+  } else {
+    textureTypes.push("Moderately textured surface with visible marks in places");
+  }
+
+  if (detailLevel >= 0.04) {
+    textureTypes.push("Fine, crisp detail or grain");
+  } else if (detailLevel < 0.015) {
+    textureTypes.push("Soft detail with gentle transitions");
+  }
+
+  const directional = orientationCoherence >= 0.3;
+  if (directional) {
+    techniqueNotes.push(`Marks run mostly ${orientationName(dominantOrientation)}, suggesting strokes applied with one consistent movement`);
+  } else if (!smooth) {
+    techniqueNotes.push("Marks run in many directions, as in loose brushwork, hatching from several angles or a worked surface");
+  }
+
+  if (smooth) {
+    techniqueNotes.push("Smooth transitions suggest blending, glazing or a fine, even application");
+  } else if (busy && !directional) {
+    techniqueNotes.push("Dense, varied marks suggest broken color, thick paint or layered strokes left visible");
+  }
+
+  if (detailConcentration >= 0.55) {
+    techniqueNotes.push("Detail is concentrated in a few areas, where the artist worked most finely and the eye is drawn");
+  } else if (detailConcentration > 0 && detailConcentration <= 0.35) {
+    techniqueNotes.push("Detail is spread evenly across the surface, with no single area worked more finely");
+  }
+
+  techniqueNotes.push("Measured from the photo, so focus, lighting and glare affect these notes");
+
+  return {
+    textureTypes,
+    techniqueNotes,
+    educationalValue: [
+      "Compare the most detailed areas of the texture map with the calmest ones: what did the artist choose to work up?",
+      "Follow the direction of the marks and notice where they lead your eye"
+    ]
+  };
+}
@@ -0,0 +1,289 @@
+// Runtime schemas for structured LLM output
+// The model is asked for JSON in a fixed shape; these schemas check what actually
+// came back. Invalid responses are sent back to the model for repair a bounded
+// number of times, and whatever still does not fit is replaced with explicit
+// "unavailable" markers so clients always receive the full shape.
+
+import type { ChatMessage } from "./llm.js";
+
+export const UNAVAILABLE = "Unavailable";
+
+// Schemas use a small JSON Schema subset: type, properties, items, enum,
+// minimum/maximum. Every object property is required unless listed in `optional`.
+export type Schema =
+  | { type: "string"; enum?: string[] }
+  | { type: "number"; minimum?: number; maximum?: number }
+  | { type: "array"; items?: Schema }
+  | { type: "object"; properties?: Record<string, Schema>; optional?: string[] };
+
+const string: Schema = { type: "string" };
+const stringList: Schema = { type: "array", items: string };
+const number = (minimum: number, maximum: number): Schema => ({ type: "number", minimum, maximum });
+const object = (properties: Record<string, Schema>, optional: string[] = []): Schema => ({ type: "object", properties, optional });
+const list = (items: Schema): Schema => ({ type: "array", items });
+
+export const initialInsightsSchema = object({
+  styleInsights: stringList,
+  techniqueInsights: stringList,
+  themeInsights: stringList,
+  mediumInsights: stringList,
+  reflectionQuestions: stringList,
+  learningObjectives: stringList
+});
+
+export const comprehensiveAnalysisSchema = object({
+  styleAnalysis: object({
+    primaryStyle: string,
+    styleCharacteristics: stringList,
+    movementContext: string,
+    stylisticInfluences: stringList,
+    visualLanguage: string,
+    educationalInsights: stringList
+  }),
+  techniqueAnalysis: object({
+    primaryTechniques: stringList,
+    materialProperties: stringList,
+    applicationMethods: stringList,
+    technicalInnovations: stringList,
+    skillLevel: string,
+    educationalValue: stringList
+  }),
+  themeAnalysis: object({
+    primaryThemes: stringList,
+    symbolicElements: stringList,
+    emotionalTone: string,
+    culturalContext: string,
+    narrativeElements: stringList,
+    interpretiveApproaches: stringList
+  }),
+  mediumAnalysis: object({
+    primaryMedium: string,
+    materialCharacteristics: stringList,
+    historicalUsage: string,
+    technicalAdvantages: stringList,
+    conservationNotes: stringList,
+    educationalSignificance: stringList
+  }),
+  colorAnalysis: object({
+    colorPalette: list(object({
+      hex: string,
+      name: string,
+      percentage: number(0, 100),
+      emotionalAssociation: string,
+      symbolicMeaning: string,
+      educationalNote: string
+    })),
+    colorHarmony: string,
+    emotionalImpact: string,
+    symbolicMeaning: stringList,
+    colorTheory: stringList,
+    educationalInsights: stringList
+  }),
+  compositionAnalysis: object({
+    compositionalPrinciples: stringList,
+    visualFlow: string,
+    focalPoints: stringList,
+    spatialRelationships: stringList,
+    balanceAndRhythm: string,
+    educationalApplications: stringList
+  }),
+  reflectionQuestions: list(object({
+    category: { type: "string", enum: ["observation", "interpretation", "connection", "technique"] },
+    question: string,
+    followUp: string,
+    educationalGoal: string
+  }, ["followUp"])),
+  learningObjectives: list(object({
+    skill: string,
+    description: string,
+    assessmentMethod: string,
+    difficulty: { type: "string", enum: ["beginner", "intermediate", "advanced"] }
+  })),
+  discussionPrompts: list(object({
+    topic: string,
+    question: string,
+    context: string,
+    suggestedResponses: stringList
+  })),
+  artisticMovements: list(object({
+    name: string,
+    timePeriod: string,
+    characteristics: stringList,
+    keyArtists: stringList,
+    culturalContext: string,
+    educationalRelevance: string
+  })),
+  visualElements: list(object({
+    element: string,
+    description: string,
+    educationalValue: string,
+    observationTips: stringList,
+    relatedConcepts: stringList
+  })),
+  comparativeExamples: list(object({
+    title: string,
+    artist: string,
+    similarity: string,
+    contrast: string,
+    educationalValue: string,
+    imageUrl: string
+  }, ["imageUrl"])),
+  historicalContext: object({
+    timePeriod: string,
+    culturalBackground: string,
+    artisticClimate: string,
+    socialInfluences: stringList,
+    educationalSignificance: string
+  }),
+  confidence: number(0, 1),
+  sources: stringList,
+  analysisStages: list({ type: "object" })
+}, ["analysisStages"]);
+
+// Returns a list of "path: problem" strings; empty when the value fits
+export function validate(schema: Schema, value: unknown, path = "$"): string[] {
+  if (value === undefined || value === null) {
+    return [`${path}: missing`];
+  }
+
+  switch (schema.type) {
+    case "string":
+      if (typeof value !== "string") return [`${path}: expected a string`];
+      if (schema.enum && !schema.enum.includes(value)) return [`${path}: expected one of ${schema.enum.join(", ")}`];
+      return [];
+    case "number":
+      if (typeof value !== "number" || Number.isNaN(value)) return [`${path}: expected a number`];
+      if (schema.minimum !== undefined && value < schema.minimum) return [`${path}: below ${schema.minimum}`];
+      if (schema.maximum !== undefined && value > schema.maximum) return [`${path}: above ${schema.maximum}`];
+      return [];
+    case "array": {
+      if (!Array.isArray(value)) return [`${path}: expected an array`];
+      const { items } = schema;
+      return items ? value.flatMap((item, index) => validate(items, item, `${path}[${index}]`)) : [];
+    }
+    case "object": {
+      if (typeof value !== "object" || Array.isArray(value)) return [`${path}: expected an object`];
+      const record = value as Record<string, unknown>;
+      return Object.entries(schema.properties || {}).flatMap(([key, propertySchema]) => {
+        if (record[key] === undefined && schema.optional?.includes(key)) return [];
+        return validate(propertySchema, record[key], `${path}.${key}`);
+      });
+    }
+    default:
+      return [];
+  }
+}
+
+// Keeps every part of `value` that fits the schema and replaces the rest:
+// strings become UNAVAILABLE, numbers 0, lists drop their invalid entries.
+// Returns the completed value and the dotted paths that had to be filled in;
+// a missing top-level value reports each of its sections.
+export function fillUnavailable(schema: Schema, value: unknown) {
+  const unavailable: string[] = [];
+
+  // `reported` stops a missing object from also listing every field inside it
+  const fill = (schema: Schema, value: unknown, path: string, reported: boolean): unknown => {
+    const markUnavailable = () => {
+      if (!reported) unavailable.push(path);
+    };
+
+    switch (schema.type) {
+      case "object": {
+        if (!schema.properties) {
+          return value && typeof value === "object" ? value : {};
+        }
+        const isObject = Boolean(value) && typeof value === "object" && !Array.isArray(value);
+        const isSection = Boolean(path);
+        if (!isObject && isSection) markUnavailable();
+        const source = (isObject ? value : {}) as Record<string, unknown>;
+        const result: Record<string, unknown> = { ...source };
+        Object.entries(schema.properties).forEach(([key, propertySchema]) => {
+          if (source[key] === undefined && schema.optional?.includes(key)) return;
+          const childPath = isSection ? `${path}.${key}` : key;
+          result[key] = fill(propertySchema, source[key], childPath, reported || (!isObject && isSection));
+        });
+        return result;
+      }
+      case "array": {
+        if (!Array.isArray(value)) {
+          markUnavailable();
+          return [];
+        }
+        const { items } = schema;
+        const valid = items
+          ? value.filter(item => validate(items, item).length === 0)
+          : value;
+        if (valid.length < value.length) markUnavailable();
+        return valid;
+      }
+      default:
+        if (validate(schema, value).length === 0) return value;
+        markUnavailable();
+        return schema.type === "number" ? 0 : UNAVAILABLE;
+    }
+  };
+
+  return { value: fill(schema, value, "", false), unavailable };
+}
+
+// Pulls a JSON object out of a model reply, tolerating code fences and prose
+export function parseJsonReply(content: string): unknown {
+  try {
+    return JSON.parse(content);
+  } catch {
+    const start = content.indexOf("{");
+    const end = content.lastIndexOf("}");
+    if (start === -1 || end <= start) throw new Error("Response contained no JSON object");
+    return JSON.parse(content.slice(start, end + 1));
+  }
+}
+
+// Asks the model for JSON matching `schema`. `complete(messages)` resolves with
+// the reply text. Invalid replies are returned to the model with the problems
+// listed, up to `maxRepairs` times; after that the best reply is completed with
+// unavailable markers. Resolves with `{ value, unavailable, attempts }`, where
+// `T` is the shape the schema describes.
+export async function requestStructured<T>(
+  complete: (messages: ChatMessage[]) => Promise<string>,
+  messages: ChatMessage[],
+  schema: Schema,
+  { maxRepairs = 2 } = {}
+): Promise<{ value: T; unavailable: string[]; attempts: number }> {
+  let conversation = messages;
+  let best: { parsed: unknown; problems: string[] } | null = null;
+
+  for (let attempt = 1; attempt <= maxRepairs + 1; attempt++) {
+    const content = await complete(conversation);
+
+    let parsed: unknown;
+    let problems: string[];
+    try {
+      parsed = parseJsonReply(content);
+      problems = validate(schema, parsed);
+    } catch (error) {
+      problems = [`$: ${error instanceof Error ? error.message : String(error)}`];
+    }
+
+    if (parsed !== undefined && problems.length === 0) {
+      return { value: parsed as T, unavailable: [], attempts: attempt };
+    }
+
+    if (parsed !== undefined && (!best || problems.length < best.problems.length)) {
+      best = { parsed, problems };
+    }
+
+    console.warn(`⚠️  Structured output attempt ${attempt} invalid: ${problems.slice(0, 5).join("; ")}`);
+
+    conversation = [
+      ...messages,
+      { role: "assistant", content },
+      {
+        role: "user",
+        content: `That response did not match the required JSON format:\n- ${problems.slice(0, 20).join("\n- ")}\nReply with the corrected, complete JSON object only.`
+      }
+    ];
+  }
+
+  const { value, unavailable } = fillUnavailable(schema, best?.parsed);
+  return { value: value as T, unavailable, attempts: maxRepairs + 1 };
+}
@@ -0,0 +1,350 @@
+// Rule-based educational synthesis
+// Builds a complete comprehensive analysis without an LLM, from the combined
+// vision labels, the color analysis and the museum recall data. Wording and art
+// knowledge come from data/knowledge.json, a curated file that can be extended
+// without touching this code. Output is deterministic for the same inputs.
+
+import fs from "fs";
+import { UNAVAILABLE } from "../schemas.js";
+import type {
+  ColorAnalysis,
+  ColorSwatch,
+  CombinedVision,
+  CompositionAnalysis,
+  ComprehensiveEducationalAnalysis,
+  InitialInsights,
+  RecallData
+} from "../types.js";
+
+type Analysis = ComprehensiveEducationalAnalysis;
+
+interface Matchable {
+  name: string;
+  keywords?: string[];
+  weakKeywords?: string[];
+}
+
+interface Style extends Matchable {
+  timePeriod: string;
+  movementContext: string;
+  characteristics: string[];
+  influences: string[];
+  keyArtists: string[];
+  visualLanguage: string;
+  culturalContext: string;
+  artisticClimate: string;
+  socialInfluences: string[];
+  educationalInsights: string[];
+}
+
+interface Medium extends Matchable {
+  characteristics: string[];
+  historicalUsage: string;
+  advantages: string[];
+  conservation: string[];
+  significance: string[];
+  techniques: string[];
+  applicationMethods: string[];
+  innovations: string[];
+}
+
+interface Subject extends Matchable {
+  themes: string[];
+  symbols: string[];
+  narrative: string[];
+  approaches: string[];
+  culturalContext: string;
+}
+
+interface Layout {
+  principles: string[];
+  visualFlow: string;
+  spatial: string[];
+  balance: string;
+}
+
+interface Knowledge {
+  version: number;
+  styles: Style[];
+  defaultStyle: Style;
+  media: Medium[];
+  defaultMedium: Medium;
+  subjects: Subject[];
+  defaultSubject: Subject;
+  composition: { single: Layout; multiple: Layout; none: Layout; applications: string[] };
+  questions: (Omit<Analysis["reflectionQuestions"][number], "followUp"> & { followUp: string })[];
+  learningObjectives: Analysis["learningObjectives"];
+  discussionPrompts: Analysis["discussionPrompts"];
+  visualElements: Omit<Analysis["visualElements"][number], "educationalValue">[];
+}
+
+// The same two levels up from src/synthesis and dist/synthesis
+const knowledge: Knowledge = JSON.parse(fs.readFileSync(new URL("../../data/knowledge.json", import.meta.url), "utf8"));
+
+// Rule-based results never claim more certainty than this
+const MAX_CONFIDENCE = 0.6;
+
+// Recall sources worth crediting; the rest are computed locally
+const RECALL_SOURCE_NAMES: Partial<Record<keyof RecallData, string>> = {
+  colorAnalysis: "Color Analysis",
+  textureAnalysis: "Texture Analysis",
+  compositionAnalysis: "Composition Analysis",
+  wikipediaData: "Wikipedia",
+  metMuseumData: "Met Museum",
+  harvardData: "Harvard",
+  artInstituteData: "Art Institute",
+  artSearchData: "Art Search",
+  similarArtworks: "Museum search"
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+const keywordPattern = (keyword: string) => new RegExp(`\\b${escapeRegExp(keyword.toLowerCase())}\\b`);
+
+// Strong keywords count 1, weak ones (generic labels like "painting") 0.5; an
+// entry needs a score of 1 to be chosen
+function bestMatch<T extends Matchable>(entries: T[], labels: string[], fallback: T): T & { matched: boolean } {
+  let best: { entry: T; score: number } | null = null;
+  for (const entry of entries) {
+    const score = (keywords: string[] | undefined, weight: number) => (keywords || [])
+      .filter(keyword => labels.some(label => keywordPattern(keyword).test(label)))
+      .length * weight;
+    const total = score(entry.keywords, 1) + score(entry.weakKeywords, 0.5);
+    if (total >= 1 && (!best || total > best.score)) {
+      best = { entry, score: total };
+    }
+  }
+  return best ? { ...best.entry, matched: true } : { ...fallback, matched: false };
+}
+
+const fill = (text: string, values: Record<string, string>) => text.replace(/\{(\w+)\}/g, (_, name) => values[name] ?? `{${name}}`);
+const unique = (values: (string | null | undefined | false)[]) => [...new Set(values.filter((value): value is string => Boolean(value)))];
+// Lists count when they found something
+const hasData = (value: unknown) => (Array.isArray(value) ? value.length > 0 : Boolean(value));
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+// `visionSources` names the vision providers for the sources list; it defaults
+// to the provider ids recorded in the combined vision data
+export function synthesizeFromRules({ visionData = {}, initialInsights = {}, recallData = {}, visionSources = visionData.providers }: {
+  visionData?: Partial<CombinedVision>;
+  initialInsights?: Partial<InitialInsights>;
+  recallData?: Partial<RecallData>;
+  visionSources?: string[];
+}): Analysis & { unavailableSections: string[] } {
+  const labels = (visionData.labels || []).map(label => label.toLowerCase());
+  const objects = visionData.objects || [];
+
+  const style = bestMatch(knowledge.styles, labels, knowledge.defaultStyle);
+  const medium = bestMatch(knowledge.media, labels, knowledge.defaultMedium);
+  const subject = bestMatch(knowledge.subjects, labels, knowledge.defaultSubject);
+  const color = recallData.colorAnalysis;
+  const palette = color?.dominantColors || [];
+  const texture = recallData.textureAnalysis;
+  const examples = comparativeExamples(recallData);
+  const unavailable: string[] = [];
+
+  // Insights from an earlier LLM interpretation, when there was one
+  const insightsFor = (key: "styleInsights" | "techniqueInsights" | "themeInsights" | "mediumInsights") => (Array.isArray(initialInsights[key]) ? initialInsights[key]! : []);
+  const observed = labels.slice(0, 5);
+
+  const values = {
+    subject: subject.matched ? subject.name.toLowerCase() : (observed[0] || "this subject"),
+    color: palette[0]?.name?.toLowerCase() || "the strongest color",
+    style: style.name,
+    focus: objects[0] ? `the ${objects[0].toLowerCase()}` : "the main subject",
+    count: String(objects.length)
+  };
+
+  const analysis: Analysis = {
+    styleAnalysis: {
+      primaryStyle: style.name,
+      styleCharacteristics: style.characteristics,
+      movementContext: style.movementContext,
+      stylisticInfluences: style.influences,
+      visualLanguage: style.visualLanguage,
+      educationalInsights: unique([
+        ...style.educationalInsights,
+        ...(observed.length > 0 ? [`The image analysis picked out: ${observed.join(", ")}`] : []),
+        ...insightsFor("styleInsights")
+      ])
+    },
+    techniqueAnalysis: {
+      primaryTechniques: medium.techniques,
+      materialProperties: unique([...(texture?.textureTypes || []), ...medium.characteristics]),
+      // What the texture measures show comes before the medium's typical methods
+      applicationMethods: unique([...(texture?.techniqueNotes || []), ...medium.applicationMethods]),
+      technicalInnovations: medium.innovations,
+      skillLevel: medium.matched
+        ? `Look for evidence of control over ${medium.name.toLowerCase()}: how precise, layered or free the marks are`
+        : "Look closely at the surface to judge how the work was made",
+      educationalValue: unique([...medium.significance, ...(texture?.educationalValue || []), ...insightsFor("techniqueInsights")])
+    },
+    themeAnalysis: {
+      primaryThemes: subject.themes,
+      symbolicElements: subject.symbols,
+      emotionalTone: recallData.emotionalAnalysis?.dominantMood || color?.emotionalImpact || "Open to the viewer's interpretation",
+      culturalContext: subject.culturalContext,
+      narrativeElements: subject.narrative,
+      interpretiveApproaches: unique([...subject.approaches, ...insightsFor("themeInsights")])
+    },
+    mediumAnalysis: {
+      primaryMedium: medium.name,
+      materialCharacteristics: medium.characteristics,
+      historicalUsage: medium.historicalUsage,
+      technicalAdvantages: medium.advantages,
+      conservationNotes: medium.conservation,
+      educationalSignificance: unique([...medium.significance, ...insightsFor("mediumInsights")])
+    },
+    colorAnalysis: colorSection(color, palette, unavailable),
+    compositionAnalysis: compositionSection(objects, values, recallData.compositionAnalysis),
+    reflectionQuestions: knowledge.questions.map(question => ({
+      category: question.category,
+      question: fill(question.question, values),
+      followUp: fill(question.followUp, values),
+      educationalGoal: question.educationalGoal
+    })),
+    learningObjectives: knowledge.learningObjectives,
+    discussionPrompts: [
+      ...knowledge.discussionPrompts,
+      ...(recallData.learningResources?.discussionPrompts || []).map(question => ({
+        topic: "Looking closer",
+        question,
+        context: "Open discussion",
+        suggestedResponses: []
+      }))
+    ],
+    artisticMovements: style.matched ? [{
+      name: style.name,
+      timePeriod: style.timePeriod,
+      characteristics: style.characteristics,
+      keyArtists: style.keyArtists,
+      culturalContext: style.culturalContext,
+      educationalRelevance: `Knowing the aims of ${style.name} helps explain the choices visible in this work`
+    }] : [],
+    visualElements: knowledge.visualElements.map(element => ({
+      element: element.element,
+      description: element.description,
+      educationalValue: `Practice describing ${element.element.toLowerCase()} with specific words`,
+      observationTips: element.observationTips,
+      relatedConcepts: element.relatedConcepts
+    })),
+    comparativeExamples: examples,
+    historicalContext: {
+      timePeriod: style.timePeriod,
+      culturalBackground: style.culturalContext,
+      artisticClimate: style.artisticClimate,
+      socialInfluences: style.socialInfluences,
+      educationalSignificance: recallData.wikipediaData?.extract
+        ? `Background from Wikipedia (${recallData.wikipediaData.title}): ${recallData.wikipediaData.extract}`
+        : "Research the artist and date of this work to test the suggested context"
+    },
+    confidence: confidence({ style, medium, subject, palette, examples }),
+    sources: unique([
+      "Rule-based synthesis",
+      ...(visionSources || []),
+      ...(Object.keys(RECALL_SOURCE_NAMES) as (keyof RecallData)[])
+        .filter(key => hasData(recallData[key]))
+        .map(key => RECALL_SOURCE_NAMES[key])
+    ])
+  };
+
+  if (examples.length === 0) unavailable.push("comparativeExamples");
+
+  return { ...analysis, unavailableSections: unavailable };
+}
+
+function colorSection(color: ColorAnalysis | null | undefined, palette: ColorSwatch[], unavailable: string[]): Analysis["colorAnalysis"] {
+  if (!color) {
+    unavailable.push("colorAnalysis");
+    return {
+      colorPalette: [],
+      colorHarmony: UNAVAILABLE,
+      emotionalImpact: UNAVAILABLE,
+      symbolicMeaning: [],
+      colorTheory: [],
+      educationalInsights: []
+    };
+  }
+
+  return {
+    colorPalette: palette,
+    colorHarmony: color.colorHarmony,
+    emotionalImpact: color.emotionalImpact,
+    symbolicMeaning: unique(palette.map(entry => entry.symbolicMeaning && `${entry.name}: ${entry.symbolicMeaning}`)),
+    colorTheory: color.colorTheory || [],
+    educationalInsights: unique(palette.map(entry => entry.educationalNote))
+  };
+}
+
+// What was measured on the image comes first, then the knowledge base's notes
+// for the number of objects found
+function compositionSection(objects: string[], values: Record<string, string>, measured?: CompositionAnalysis | null): Analysis["compositionAnalysis"] {
+  const layout = objects.length === 0
+    ? knowledge.composition.none
+    : objects.length === 1 ? knowledge.composition.single : knowledge.composition.multiple;
+
+  return {
+    compositionalPrinciples: unique([...(measured?.principles || []), ...layout.principles]),
+    visualFlow: measured?.visualFlow || capitalize(fill(layout.visualFlow, values)),
+    focalPoints: unique([...(measured?.focalPoints || []), ...objects.slice(0, 3).map(capitalize)]),
+    spatialRelationships: layout.spatial.map(text => capitalize(fill(text, values))),
+    balanceAndRhythm: measured?.balance || layout.balance,
+    educationalApplications: knowledge.composition.applications
+  };
+}
+
+// Museum objects found during recall, in the comparativeExamples shape
+function comparativeExamples(recallData: Partial<RecallData>): Analysis["comparativeExamples"] {
+  const candidates: { title?: string; artist?: string; period?: string; source: string; imageUrl?: string }[] = [
+    ...(recallData.similarArtworks || []).map(artwork => ({
+      title: artwork.title, artist: artwork.artist, period: artwork.period, source: artwork.source
+    })),
+    ...(recallData.metMuseumData ? [{
+      title: recallData.metMuseumData.title,
+      artist: recallData.metMuseumData.artistDisplayName,
+      period: recallData.metMuseumData.objectDate,
+      source: "Metropolitan Museum of Art",
+      imageUrl: recallData.metMuseumData.primaryImageSmall
+    }] : []),
+    ...(recallData.artInstituteData || []).map(artwork => ({
+      title: artwork.title,
+      artist: artwork.artist_display,
+      period: artwork.date_display,
+      source: "Art Institute of Chicago",
+      imageUrl: artwork.image_id ? `https://www.artic.edu/iiif/2/${artwork.image_id}/full/843,/0/default.jpg` : undefined
+    })),
+    ...(recallData.harvardData || []).map(record => ({
+      title: record.title, artist: record.people?.[0]?.name, period: record.dated, source: "Harvard Art Museums"
+    }))
+  ];
+
+  const seen = new Set<string>();
+  return candidates
+    .filter((candidate): candidate is typeof candidate & { title: string } => Boolean(candidate.title && !seen.has(candidate.title) && seen.add(candidate.title)))
+    .slice(0, 6)
+    .map(candidate => ({
+      title: candidate.title,
+      artist: candidate.artist || "Unknown artist",
+      similarity: `Found in the ${candidate.source} collection by searching for the same visual features`,
+      contrast: "Compare its date, medium and handling with the artwork you are studying",
+      educationalValue: candidate.period
+        ? `Dated ${candidate.period}; use it to test ideas about this work's period and style`
+        : "Use it to test ideas about this work's period and style",
+      ...(candidate.imageUrl ? { imageUrl: candidate.imageUrl } : {})
+    }));
+}
+
+function confidence({ style, medium, subject, palette, examples }: {
+  style: { matched: boolean };
+  medium: { matched: boolean };
+  subject: { matched: boolean };
+  palette: ColorSwatch[];
+  examples: Analysis["comparativeExamples"];
+}) {
+  let score = 0.3;
+  if (style.matched) score += 0.1;
+  if (medium.matched) score += 0.1;
+  if (subject.matched) score += 0.05;
+  if (palette.length > 0) score += 0.05;
+  if (examples.length > 0) score += 0.05;
+  return Math.min(score, MAX_CONFIDENCE);
+}
@@ -0,0 +1,200 @@
+// Analysis tracing
+// A trace records when each pipeline stage and each call inside it (vision
+// provider, recall source, LLM completion) started and ended, how it went, and
+// what it cost in HTTP requests, bytes and LLM tokens. The current span travels
+// with the async context, so code deep inside a call (http.ts, llm.ts) reports
+// usage with recordHttp/recordTokens without being handed the trace. Outside a
+// trace those functions do nothing.
+// The trace also tallies requests and tokens per provider for the whole
+// analysis; the server's cost meter prices that tally.
+
+import { AsyncLocalStorage } from "async_hooks";
+import type { CallStatus, TraceCall, TraceTiming } from "./types.js";
+
+const storage = new AsyncLocalStorage<Span>();
+
+const isEmpty = (result: unknown) => result === null || result === undefined || (Array.isArray(result) && result.length === 0);
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+interface SpanUsage {
+  requests: number;
+  failedRequests: number;
+  bytesSent: number;
+  bytesReceived: number;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+// Requests and tokens one provider used over a whole analysis
+export interface ProviderUsage {
+  requests: number;
+  failedRequests: number;
+  promptTokens: number;
+  completionTokens: number;
+  // LLM tokens by model, since that is what they are priced by
+  models: Record<string, { promptTokens: number; completionTokens: number }>;
+}
+
+export class Span {
+  name: string;
+  attributes: Record<string, string>;
+  parent: Span | null;
+  children: Span[] = [];
+  startedAt = new Date();
+  endedAt: Date | null = null;
+  status: CallStatus = "ok";
+  error: string | null = null;
+  usage: SpanUsage = { requests: 0, failedRequests: 0, bytesSent: 0, bytesReceived: 0, promptTokens: 0, completionTokens: 0 };
+  lastHttpError: string | null = null;
+  // Only used on the root span, see meter()
+  providers: Record<string, ProviderUsage> = {};
+
+  constructor(name: string, attributes: Record<string, string>, parent: Span | null) {
+    this.name = name;
+    this.attributes = attributes;
+    this.parent = parent;
+    parent?.children.push(this);
+  }
+
+  // Usage counts toward this span and every span that contains it
+  add(counts: Partial<SpanUsage>) {
+    for (let span: Span | null = this; span; span = span.parent) {
+      (Object.keys(counts) as (keyof SpanUsage)[]).forEach(key => {
+        span!.usage[key] += counts[key] || 0;
+      });
+    }
+  }
+
+  // Per-provider tally kept on the root span. LLM tokens are also kept per
+  // model, since that is what they are priced by.
+  meter(provider: string, { model, ...counts }: { model?: string } & Partial<Omit<ProviderUsage, "models">>) {
+    let root: Span = this;
+    while (root.parent) root = root.parent;
+    const usage = (root.providers[provider] ||= { requests: 0, failedRequests: 0, promptTokens: 0, completionTokens: 0, models: {} });
+    (Object.keys(counts) as (keyof typeof counts)[]).forEach(key => {
+      usage[key] += counts[key] || 0;
+    });
+    if (model) {
+      const tokens = (usage.models[model] ||= { promptTokens: 0, completionTokens: 0 });
+      tokens.promptTokens += counts.promptTokens || 0;
+      tokens.completionTokens += counts.completionTokens || 0;
+    }
+  }
+
+  end(status: CallStatus, error?: string) {
+    this.endedAt = new Date();
+    this.status = status;
+    this.error = error || null;
+  }
+
+  get durationMs() {
+    return (this.endedAt || new Date()).getTime() - this.startedAt.getTime();
+  }
+
+  toJSON(): TraceCall {
+    const usage = Object.fromEntries(Object.entries(this.usage).filter(([, value]) => value > 0));
+    return {
+      name: this.name,
+      ...this.attributes,
+      startedAt: this.startedAt.toISOString(),
+      endedAt: this.endedAt?.toISOString() || null,
+      durationMs: this.durationMs,
+      status: this.status,
+      ...(this.error ? { error: this.error } : {}),
+      ...usage
+    } as TraceCall;
+  }
+}
+
+export class Trace {
+  root = new Span("analysis", {}, null);
+
+  // Runs `fn` as a top-level span (a pipeline stage) and resolves with
+  // `{ result, span }`; errors propagate after the span is closed
+  async stage<T>(name: string, fn: () => Promise<T>): Promise<{ result: T; span: Span }> {
+    const span = new Span(name, {}, this.root);
+    try {
+      const result = await storage.run(span, fn);
+      span.end("ok");
+      return { result, span };
+    } catch (error) {
+      span.end("failed", errorMessage(error));
+      throw error;
+    }
+  }
+
+  end() {
+    this.root.end("ok");
+  }
+
+  // Start, end, duration and total usage of the whole analysis
+  summary(): TraceTiming {
+    const { name, status, ...summary } = this.root.toJSON();
+    return summary;
+  }
+
+  // Requests and tokens by provider, e.g.
+  // { openai: { requests: 2, failedRequests: 0, promptTokens: 1800, completionTokens: 900, models: { "gpt-4": ... } } }
+  providerUsage() {
+    return this.root.providers;
+  }
+}
+
+// Timing, usage and sub-calls for a stage record. `timestamp` (when the stage
+// finished) is kept for older clients.
+export function stageTiming(span: Span) {
+  const { name, status, error, ...timing } = span.toJSON();
+  return {
+    ...timing,
+    calls: span.children.map(child => child.toJSON()),
+    timestamp: (span.endedAt || new Date()).toISOString()
+  };
+}
+
+// Runs `fn` as a call inside the current span. The call is "failed" when it
+// throws, or when it came back empty after an HTTP error (sources that catch
+// their own errors and return null); "empty" when it found nothing.
+export async function traceCall<T>(name: string, attributes: Record<string, string>, fn: () => Promise<T>): Promise<T> {
+  const parent = storage.getStore();
+  if (!parent) return fn();
+
+  const span = new Span(name, attributes, parent);
+  try {
+    const result = await storage.run(span, fn);
+    if (!isEmpty(result)) span.end("ok");
+    else if (span.lastHttpError) span.end("failed", span.lastHttpError);
+    else span.end("empty");
+    return result;
+  } catch (error) {
+    span.end("failed", errorMessage(error));
+    throw error;
+  }
+}
+
+// Called by http.ts for every attempt it makes
+export function recordHttp({ provider, bytesSent = 0, bytesReceived = 0, error = null }: {
+  provider: string;
+  bytesSent?: number;
+  bytesReceived?: number;
+  error?: string | null;
+}) {
+  const span = storage.getStore();
+  if (!span) return;
+  span.add({ requests: 1, failedRequests: error ? 1 : 0, bytesSent, bytesReceived });
+  span.meter(provider, { requests: 1, failedRequests: error ? 1 : 0 });
+  span.lastHttpError = error;
+}
+
+// Called by llm.ts with the token usage an LLM API reports
+export function recordTokens({ provider, model, promptTokens = 0, completionTokens = 0 }: {
+  provider: string;
+  model?: string;
+  promptTokens?: number;
+  completionTokens?: number;
+}) {
+  const span = storage.getStore();
+  if (!span) return;
+  span.add({ promptTokens, completionTokens });
+  span.meter(provider, { model, promptTokens, completionTokens });
+}
@@ -0,0 +1,538 @@
+// Types shared by the pipeline, the server that runs it and the clients that
+// show its results. Clients import from here (and client.ts) only, so the shape
+// of an analysis is declared once.
+
+// -------- VISION --------
+
+// In 0-1 image coordinates, from the top left
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// What every vision provider's `analyze` resolves with; confidences are 0-1,
+// or null when the provider gives none
+export interface VisionResult {
+  provider: string;
+  labels: { name: string; confidence: number | null }[];
+  objects: { name: string; confidence: number | null; box: BoundingBox | null }[];
+  // `rgb` is "rgb(r, g, b)" when the provider reports one
+  colors: { rgb: string | null; name: string | null; score: number | null }[];
+  text: string[];
+  faces: { confidence: number | null; box: BoundingBox | null }[];
+  categories: string[];
+}
+
+// A label fused across providers (see vision/fusion.ts)
+export interface RankedLabel {
+  name: string;
+  // Mean provider score scaled by agreement, 0-1
+  confidence: number;
+  // Share of the answering providers that reported the label, 0-1
+  agreement: number;
+  // Each provider's score, or null when it gave none
+  providers: Record<string, number | null>;
+  // The spellings providers actually used
+  aliases: string[];
+}
+
+// An object or face located in the image (see vision/regions.ts)
+export interface ImageRegion {
+  id: string;
+  kind: "object" | "face";
+  name: string;
+  confidence: number | null;
+  box: BoundingBox;
+  providers: string[];
+}
+
+// Every provider's results merged into the flat shape the rest of the pipeline
+// consumes (see combineVisionResults)
+export interface CombinedVision {
+  // Fused label names, best-supported first
+  labels: string[];
+  rankedLabels: RankedLabel[];
+  objects: string[];
+  colors: string[];
+  text: string[];
+  // Most faces any one provider saw
+  faces: number;
+  categories: string[];
+  regions: ImageRegion[];
+  // Providers that answered, in order
+  providers: string[];
+}
+
+// Each provider's result (null when it failed) plus the combined view
+export type VisionData = { combined: CombinedVision } & { [provider: string]: VisionResult | CombinedVision | null };
+
+// -------- INTERPRETATION --------
+
+// The first LLM pass: short insights that steer recall and synthesis
+export interface InitialInsights {
+  styleInsights: string[];
+  techniqueInsights: string[];
+  themeInsights: string[];
+  mediumInsights: string[];
+  reflectionQuestions: string[];
+  learningObjectives: string[];
+  // Dotted paths of sections that could not be recovered from the model's reply
+  unavailableSections: string[];
+  // Prompt template that produced the insights, e.g. "interpretation/v2"
+  promptVersion?: string;
+}
+
+// -------- RECALL --------
+
+export interface ColorSwatch {
+  hex: string;
+  name: string;
+  percentage: number;
+  emotionalAssociation: string;
+  symbolicMeaning: string;
+  educationalNote: string;
+  // Broad hue group ("Blue", "Gray"...) behind the emotional and symbolic notes
+  family?: string;
+  // Nearest entry in the color dictionary, which `name` comes from
+  nameMatch?: ColorNameMatch;
+  // Nearest historical pigment, when one is close enough to teach from
+  pigment?: PigmentMatch;
+  // Where the color sits in the image, when it was measured from the pixels
+  distribution?: ColorDistribution;
+}
+
+// An entry of packages/core/data/colors.json matched to a measured color.
+// `distance` is CIEDE2000: under about 2 the two are hard to tell apart, and
+// over 10 they are only loosely alike.
+export interface ColorNameMatch {
+  name: string;
+  hex: string;
+  source: "css" | "iscc-nbs" | "pigment";
+  distance: number;
+}
+
+export interface PigmentMatch extends ColorNameMatch {
+  // A sentence on the pigment's history and use
+  note: string;
+}
+
+// Placement of one palette color, in 0-1 image coordinates from the top left
+export interface ColorDistribution {
+  // Mean position of the color's pixels
+  center: ImagePoint;
+  // 0 when the color sits in one spot, about 1 when it is spread evenly over the image
+  spread: number;
+  // Share of the color's pixels in each ninth of the image, row by row from the top left
+  regions: number[];
+}
+
+export interface ColorAnalysis {
+  dominantColors: ColorSwatch[];
+  colorHarmony: string;
+  emotionalImpact: string;
+  colorTheory: string[];
+}
+
+export interface WikipediaSummary {
+  title: string;
+  extract: string;
+  description: string;
+  url: string;
+}
+
+// Museum records are passed on as the APIs return them; only the fields the
+// pipeline reads are declared
+export interface MetObject {
+  title?: string;
+  artistDisplayName?: string;
+  objectDate?: string;
+  primaryImageSmall?: string;
+  [field: string]: unknown;
+}
+
+export interface HarvardRecord {
+  title?: string;
+  dated?: string;
+  people?: { name?: string }[];
+  [field: string]: unknown;
+}
+
+export interface ArticArtwork {
+  id?: number;
+  title?: string;
+  artist_display?: string;
+  date_display?: string;
+  image_id?: string | null;
+  [field: string]: unknown;
+}
+
+export interface SimilarArtwork {
+  title?: string;
+  artist?: string;
+  period?: string;
+  source: string;
+}
+
+// Surface measures computed from the image's pixels (see recall/texture.ts);
+// all 0-1 unless noted
+export interface TextureMeasures {
+  // Mean gradient strength: how much the surface changes from pixel to pixel
+  gradientEnergy: number;
+  // Share of the image on a visible edge or mark
+  edgeDensity: number;
+  // Mean high-frequency (Laplacian) response: fine detail and grain
+  detailLevel: number;
+  // Share of all detail found in the most detailed quarter of the image
+  detailConcentration: number;
+  // How consistently marks share one direction (structure tensor coherence)
+  orientationCoherence: number;
+  // Direction marks mostly run, in degrees: 0 horizontal, 90 vertical, 45 rising to the right
+  dominantOrientation: number;
+  // Edge strength by mark direction in 8 bins of 22.5°, starting at 0°; sums to 1
+  orientationHistogram: number[];
+}
+
+// Where fine detail sits, as a PNG data URL covering the whole image: clear
+// where the surface is smooth, yellow to red as detail increases. `columns`
+// and `rows` are the grid it was measured on; stretch it over the artwork.
+export interface TextureHeatmap {
+  image: string;
+  columns: number;
+  rows: number;
+}
+
+export interface TextureAnalysis {
+  textureTypes: string[];
+  techniqueNotes: string[];
+  educationalValue: string[];
+  measures: TextureMeasures;
+  heatmap: TextureHeatmap | null;
+}
+
+// In 0-1 image coordinates, from the top left
+export interface ImagePoint {
+  x: number;
+  y: number;
+}
+
+// A straight edge found in the image, from end to end of its supporting edge pixels
+export interface CompositionLine {
+  from: ImagePoint;
+  to: ImagePoint;
+  // Degrees: 0 horizontal, 90 vertical, 45 rising to the right
+  angle: number;
+  // Support relative to the strongest line (0-1)
+  strength: number;
+}
+
+// Layout measures computed from the image's pixels (see recall/composition.ts)
+export interface CompositionMeasures {
+  // Center of the saliency map: where the picture's visual weight sits
+  centerOfMass: ImagePoint;
+  // The most salient areas, strongest first; weight is relative to the strongest
+  focalPoints: (ImagePoint & { weight: number })[];
+  // How closely the focal points sit on a rule-of-thirds intersection, a
+  // golden-ratio point or the center (0-1; 0 without focal points)
+  thirdsAlignment: number;
+  goldenRatioAlignment: number;
+  centralAlignment: number;
+  // Visual weight on the right minus the left, and on the bottom minus the top,
+  // as a share of the total: -1 to 1, 0 when balanced
+  horizontalBalance: number;
+  verticalBalance: number;
+  // How closely the image matches its own mirror image (0-1)
+  symmetry: { leftRight: number; topBottom: number };
+  // Dominant straight lines, strongest first
+  lines: CompositionLine[];
+  // Where three or more of the lines converge, possibly outside the image
+  vanishingPoint: (ImagePoint & { lines: number }) | null;
+}
+
+export interface CompositionAnalysis {
+  principles: string[];
+  balance: string;
+  visualFlow: string;
+  focalPoints: string[];
+  measures: CompositionMeasures;
+}
+
+export interface EmotionalAnalysis {
+  dominantMood: string;
+  emotionalCues: string[];
+  psychologicalImpact: string;
+  educationalValue: string;
+}
+
+export interface LearningResources {
+  keyConcepts: string[];
+  discussionPrompts: string[];
+  learningActivities: string[];
+  vocabulary: string[];
+}
+
+// What each recall source found; null when it was not run or found nothing
+export interface RecallData {
+  textureAnalysis: TextureAnalysis | null;
+  compositionAnalysis: CompositionAnalysis | null;
+  colorAnalysis: ColorAnalysis | null;
+  emotionalAnalysis: EmotionalAnalysis | null;
+  wikipediaData: WikipediaSummary | null;
+  historicalContext: null;
+  culturalContext: null;
+  metMuseumData: MetObject | null;
+  harvardData: HarvardRecord[] | null;
+  artInstituteData: ArticArtwork[] | null;
+  artSearchData: Record<string, unknown>[] | null;
+  comparativeExamples: null;
+  similarArtworks: SimilarArtwork[] | null;
+  artisticMovements: null;
+  learningResources: LearningResources | null;
+  discussionPrompts: null;
+  visualElements: null;
+}
+
+export type RecallSource = keyof RecallData;
+
+// -------- SYNTHESIS --------
+
+export interface ComprehensiveEducationalAnalysis {
+  // Core analysis sections
+  styleAnalysis: {
+    primaryStyle: string;
+    styleCharacteristics: string[];
+    movementContext: string;
+    stylisticInfluences: string[];
+    visualLanguage: string;
+    educationalInsights: string[];
+  };
+  techniqueAnalysis: {
+    primaryTechniques: string[];
+    materialProperties: string[];
+    applicationMethods: string[];
+    technicalInnovations: string[];
+    skillLevel: string;
+    educationalValue: string[];
+  };
+  themeAnalysis: {
+    primaryThemes: string[];
+    symbolicElements: string[];
+    emotionalTone: string;
+    culturalContext: string;
+    narrativeElements: string[];
+    interpretiveApproaches: string[];
+  };
+  mediumAnalysis: {
+    primaryMedium: string;
+    materialCharacteristics: string[];
+    historicalUsage: string;
+    technicalAdvantages: string[];
+    conservationNotes: string[];
+    educationalSignificance: string[];
+  };
+  colorAnalysis: {
+    colorPalette: ColorSwatch[];
+    colorHarmony: string;
+    emotionalImpact: string;
+    symbolicMeaning: string[];
+    colorTheory: string[];
+    educationalInsights: string[];
+  };
+  compositionAnalysis: {
+    compositionalPrinciples: string[];
+    visualFlow: string;
+    focalPoints: string[];
+    spatialRelationships: string[];
+    balanceAndRhythm: string;
+    educationalApplications: string[];
+  };
+
+  // Educational content
+  reflectionQuestions: {
+    category: "observation" | "interpretation" | "connection" | "technique";
+    question: string;
+    followUp?: string;
+    educationalGoal: string;
+  }[];
+  learningObjectives: {
+    skill: string;
+    description: string;
+    assessmentMethod: string;
+    difficulty: "beginner" | "intermediate" | "advanced";
+  }[];
+  discussionPrompts: {
+    topic: string;
+    question: string;
+    context: string;
+    suggestedResponses: string[];
+  }[];
+
+  // Comparative and contextual data
+  artisticMovements: {
+    name: string;
+    timePeriod: string;
+    characteristics: string[];
+    keyArtists: string[];
+    culturalContext: string;
+    educationalRelevance: string;
+  }[];
+  visualElements: {
+    element: string;
+    description: string;
+    educationalValue: string;
+    observationTips: string[];
+    relatedConcepts: string[];
+  }[];
+  comparativeExamples: {
+    title: string;
+    artist: string;
+    similarity: string;
+    contrast: string;
+    educationalValue: string;
+    imageUrl?: string;
+  }[];
+  historicalContext: {
+    timePeriod: string;
+    culturalBackground: string;
+    artisticClimate: string;
+    socialInfluences: string[];
+    educationalSignificance: string;
+  };
+
+  // Analysis metadata
+  confidence: number;
+  sources: string[];
+  // Asked of the model but optional; the response's `stages` are the real record
+  analysisStages?: Partial<StageRecord>[];
+  // Dotted paths of sections that could not be recovered from the model's
+  // reply and hold "Unavailable" placeholders
+  unavailableSections?: string[];
+  // Prompt template that produced the analysis, e.g. "synthesis/v1"; absent
+  // for rule-based analyses
+  promptVersion?: string;
+}
+
+// Where the focal points and visual elements of the analysis are: each entry
+// links a region in visionData.combined.regions to the list entry (`section`
+// is its dotted path) that mentions it
+export interface RegionReference {
+  regionId: string;
+  section: "compositionAnalysis.focalPoints" | "visualElements";
+  index: number;
+  text: string;
+}
+
+// -------- STAGES AND TRACES --------
+
+export type StageName = "vision" | "interpretation" | "recall" | "synthesis";
+
+// "degraded" means part of the stage's work failed; "failed" means none of it succeeded
+export type StageStatus = "ok" | "degraded" | "failed";
+
+// "empty" means the call worked but found nothing
+export type CallStatus = "ok" | "empty" | "failed";
+
+// Real timing and usage for a stage, or for one call inside it. Usage fields
+// are omitted when zero.
+export interface TraceTiming {
+  startedAt: string;
+  endedAt: string;
+  durationMs: number;
+  requests?: number;
+  failedRequests?: number;
+  bytesSent?: number;
+  bytesReceived?: number;
+  promptTokens?: number;
+  completionTokens?: number;
+}
+
+// A vision provider, recall source or LLM completion made during a stage
+export interface TraceCall extends TraceTiming {
+  name: string;
+  kind: "vision" | "recall" | "llm";
+  model?: string;
+  status: CallStatus;
+  error?: string;
+}
+
+export interface StageRecord extends TraceTiming {
+  stage: StageName;
+  description: string;
+  apisUsed: string[];
+  insights: string[];
+  // When the stage finished
+  timestamp: string;
+  status: StageStatus;
+  // Why the stage is degraded or failed
+  reason?: string;
+  calls: TraceCall[];
+  promptVersion?: string;
+}
+
+// What each stage hands on, sent with its `stage` event
+export interface StageData {
+  vision: CombinedVision;
+  interpretation: InitialInsights;
+  recall: RecallData;
+  synthesis: ComprehensiveEducationalAnalysis;
+}
+
+// A `stage` event from the streaming endpoint; narrowing on `stage` types `data`
+export type StreamedStage = {
+  [Name in StageName]: StageRecord & { stage: Name; data: StageData[Name] };
+}[StageName];
+
+// A `recall-source` event: one recall source's result as soon as it resolves
+export type StreamedRecallSource = {
+  [Source in RecallSource]: { source: Source; data: RecallData[Source] };
+}[RecallSource];
+
+// -------- RESPONSES --------
+
+// Estimated cost of an analysis by provider. `mode` is "economy" when a spent
+// budget made the server use cheaper providers, and "cached" for a result that
+// was served from the cache at no cost.
+export interface AnalysisCost {
+  currency: string;
+  totalUsd: number;
+  providers: Record<string, {
+    requests: number;
+    failedRequests?: number;
+    promptTokens?: number;
+    completionTokens?: number;
+    costUsd: number;
+  }>;
+  mode: "full" | "economy" | "cached";
+}
+
+export interface AnalysisCacheInfo {
+  hit: boolean;
+  key?: string;
+  matchedKey?: string;
+  distance?: number;
+  cachedAt?: string;
+  expiresAt?: string;
+}
+
+// The body of /api/analyze-comprehensive, and of the stream's `complete` event
+export interface ComprehensiveAnalysisResponse {
+  success: boolean;
+  analysis: ComprehensiveEducationalAnalysis;
+  visionData: VisionData;
+  recallData: RecallData;
+  stages: StageRecord[];
+  regionReferences: RegionReference[];
+  // Totals for the whole analysis
+  trace: TraceTiming;
+  cost: AnalysisCost;
+  cache?: AnalysisCacheInfo;
+}
+
+// The payload of each event /api/analyze-comprehensive/stream sends, by event name
+export interface AnalysisStreamEvents {
+  stage: StreamedStage;
+  "recall-source": StreamedRecallSource;
+  complete: ComprehensiveAnalysisResponse;
+  error: { success: false; error: string; details?: string };
+}
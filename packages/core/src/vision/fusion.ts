@@ -0,0 +1,122 @@
+// Label fusion across vision providers
+// Providers name the same thing differently ("Painting", "paintings", "oil
+// paint"), so labels are first reduced to a canonical form: lower case, plain
+// words, singular nouns, US spelling, then the synonym table below. Each
+// canonical label keeps the score every provider gave it, and gets one
+// agreement-weighted confidence that ranks it against the others.
+
+import type { RankedLabel, VisionResult } from "../types.js";
+
+// Applied after normalization, so keys are lower case, singular and US spelling
+const SYNONYMS: Record<string, string> = {
+  "oil paint": "oil painting",
+  "oil on canvas": "oil painting",
+  "acrylic paint": "acrylic painting",
+  "watercolor": "watercolor painting",
+  "watercolor paint": "watercolor painting",
+  "art work": "artwork",
+  "work of art": "artwork",
+  "sketch": "drawing",
+  "human": "person",
+  "human face": "face"
+};
+
+const SPELLINGS: Record<string, string> = {
+  colour: "color",
+  grey: "gray",
+  centre: "center",
+  jewellery: "jewelry",
+  watercolour: "watercolor"
+};
+
+const IRREGULAR_PLURALS: Record<string, string> = {
+  people: "person",
+  men: "man",
+  women: "woman",
+  children: "child",
+  feet: "foot",
+  teeth: "tooth",
+  leaves: "leaf",
+  knives: "knife",
+  shelves: "shelf",
+  wolves: "wolf"
+};
+
+// Words ending in "s" that are not plurals
+const SINGULAR_WORDS = new Set(["canvas", "series", "species", "news", "lens", "gas", "bus", "mathematics"]);
+
+// Score assumed for a label that no provider scored
+const UNSCORED_CONFIDENCE = 0.5;
+
+// Clarifai reports absences ("no person"), which are not things to search for
+const ABSENCE = /^no /;
+
+function singular(word: string) {
+  if (IRREGULAR_PLURALS[word]) return IRREGULAR_PLURALS[word];
+  if (word.length <= 3 || SINGULAR_WORDS.has(word) || /(ss|us|is)$/.test(word)) return word;
+  if (/ies$/.test(word)) return word.replace(/ies$/, "y");
+  if (/(ch|sh|x|z|ss)es$/.test(word)) return word.replace(/es$/, "");
+  if (/s$/.test(word)) return word.slice(0, -1);
+  return word;
+}
+
+// "Oil Paints" -> "oil painting"; empty for labels that say what is absent
+export function normalizeLabel(name: string): string {
+  const words = String(name)
+    .toLowerCase()
+    .replace(/[^a-z0-9\s-]/g, " ")
+    .split(/[\s-]+/)
+    .filter(Boolean)
+    .map(word => SPELLINGS[word] || word)
+    .map(singular)
+    .map(word => SPELLINGS[word] || word);
+  const label = words.join(" ");
+  if (ABSENCE.test(label)) return "";
+  return SYNONYMS[label] || label;
+}
+
+// Fuses the labels of the providers that answered into one ranked list of
+// `{ name, confidence, agreement, providers, aliases }`:
+//   providers   each provider's score for the label (its best, if it reported
+//               several spellings), or null when it gave none
+//   agreement   share of the answering providers that reported it, 0-1
+//   confidence  mean of the provider scores, scaled by agreement so that a
+//               label only one of three providers saw counts for two thirds
+//               as much
+//   aliases     the spellings providers actually used
+// Ties keep provider order, so earlier providers win.
+export function fuseLabels(results: VisionResult[]): RankedLabel[] {
+  const fused = new Map<string, { name: string; providers: Record<string, number | null>; aliases: string[] }>();
+  results.forEach(result => {
+    result.labels.forEach(label => {
+      const name = normalizeLabel(label.name);
+      if (!name) return;
+      if (!fused.has(name)) fused.set(name, { name, providers: {}, aliases: [] });
+      const entry = fused.get(name)!;
+      const previous = entry.providers[result.provider];
+      entry.providers[result.provider] = label.confidence === null || label.confidence === undefined
+        ? previous ?? null
+        : Math.max(previous ?? 0, label.confidence);
+      if (!entry.aliases.includes(label.name)) entry.aliases.push(label.name);
+    });
+  });
+
+  return [...fused.values()]
+    .map(entry => {
+      const agreement = Object.keys(entry.providers).length / results.length;
+      const scores = Object.values(entry.providers).filter((score): score is number => score !== null);
+      const meanScore = scores.length > 0
+        ? scores.reduce((sum, score) => sum + score, 0) / scores.length
+        : UNSCORED_CONFIDENCE;
+      return {
+        name: entry.name,
+        confidence: round(meanScore * (0.5 + agreement / 2)),
+        agreement: round(agreement),
+        providers: entry.providers,
+        aliases: entry.aliases
+      };
+    })
+    .sort((a, b) => b.confidence - a.confidence || b.agreement - a.agreement);
+}
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
@@ -0,0 +1,132 @@
+// Vision provider registry
+// The pipeline asks the registry for vision results instead of calling each API
+// directly. Which providers run, and in what order, comes from VISION_PROVIDERS
+// (a comma-separated list of registered names); leaving a name out disables it.
+// Order matters: earlier providers win when the combined result is deduplicated.
+
+import { fitImageToLimits, ImageLimits } from "../images.js";
+import { traceCall } from "../trace.js";
+import type { CombinedVision, VisionResult } from "../types.js";
+import { fuseLabels } from "./fusion.js";
+import {
+  createClarifaiProvider,
+  createGoogleVisionProvider,
+  createLocalVisionProvider,
+  createMicrosoftVisionProvider,
+  VisionProvider,
+  VisionProviderFactory
+} from "./providers.js";
+import { fuseRegions } from "./regions.js";
+
+export { emptyVisionResult } from "./providers.js";
+export type { VisionProvider, VisionProviderFactory } from "./providers.js";
+
+const DEFAULT_PROVIDERS = "clarifai,google,microsoft";
+
+const providerFactories = new Map<string, VisionProviderFactory>([
+  ["clarifai", createClarifaiProvider],
+  ["google", createGoogleVisionProvider],
+  ["microsoft", createMicrosoftVisionProvider],
+  ["local", createLocalVisionProvider]
+]);
+
+// Makes a provider available to VISION_PROVIDERS under `name`
+export function registerVisionProvider(name: string, factory: VisionProviderFactory) {
+  providerFactories.set(name, factory);
+}
+
+export interface VisionAnalysis {
+  // Each provider's result, or null when it failed
+  results: Record<string, VisionResult | null>;
+  // Why each failed provider failed
+  errors: Record<string, string>;
+  combined: CombinedVision;
+}
+
+export class VisionRegistry {
+  providers: VisionProvider[];
+
+  constructor(providers: VisionProvider[]) {
+    this.providers = providers;
+  }
+
+  get displayNames() {
+    return this.providers.map(provider => provider.displayName);
+  }
+
+  // Runs every provider in parallel, each on a copy of the image downscaled to
+  // its own limits. A failing provider is reported in `errors` and contributes
+  // nothing to `combined`.
+  async analyze(imageBase64: string, { signal }: { signal?: AbortSignal } = {}): Promise<VisionAnalysis> {
+    // Providers with the same limits share one resized copy
+    const resized = new Map<string, Promise<string>>();
+    const imageFor = (limits?: ImageLimits) => {
+      const key = JSON.stringify(limits || {});
+      if (!resized.has(key)) resized.set(key, fitImageToLimits(imageBase64, limits));
+      return resized.get(key)!;
+    };
+
+    const settled = await Promise.allSettled(
+      this.providers.map(provider => traceCall(provider.name, { kind: "vision" }, async () =>
+        provider.analyze(await imageFor(provider.limits), { signal })
+      ))
+    );
+
+    const results: Record<string, VisionResult | null> = {};
+    const errors: Record<string, string> = {};
+    settled.forEach((outcome, index) => {
+      const { name } = this.providers[index];
+      if (outcome.status === "fulfilled") {
+        results[name] = outcome.value;
+      } else {
+        results[name] = null;
+        errors[name] = outcome.reason?.message || String(outcome.reason);
+        console.warn(`Vision provider ${name} failed:`, errors[name]);
+      }
+    });
+
+    return {
+      results,
+      errors,
+      combined: combineVisionResults(Object.values(results).filter((result): result is VisionResult => Boolean(result)))
+    };
+  }
+}
+
+export function createVisionRegistry(env: NodeJS.ProcessEnv = process.env) {
+  const names = (env.VISION_PROVIDERS || DEFAULT_PROVIDERS)
+    .split(",")
+    .map(name => name.trim())
+    .filter(Boolean);
+
+  return new VisionRegistry(names.map(name => {
+    const factory = providerFactories.get(name);
+    if (!factory) {
+      throw new Error(`Unknown vision provider: ${name}`);
+    }
+    return factory(env);
+  }));
+}
+
+const unique = <T>(values: T[]) => values.filter((value, index, self) => self.indexOf(value) === index);
+
+// Merges normalized provider results into the flat shape the rest of the
+// pipeline (prompts, search terms, color analysis) consumes. Labels are fused
+// (see fusion.ts): `labels` lists their canonical names best-supported first,
+// and `rankedLabels` carries the scores behind that order. `regions` locates
+// objects and faces in the image (see regions.ts).
+export function combineVisionResults(results: VisionResult[]): CombinedVision {
+  const rankedLabels = fuseLabels(results);
+  return {
+    labels: rankedLabels.map(label => label.name),
+    rankedLabels,
+    objects: unique(results.flatMap(result => result.objects.map(object => object.name))),
+    colors: unique(results.flatMap(result => result.colors.map(color => color.rgb || color.name).filter((color): color is string => Boolean(color)))),
+    text: unique(results.flatMap(result => result.text)),
+    // Providers see the same faces, so take the highest count rather than the sum
+    faces: Math.max(0, ...results.map(result => result.faces.length)),
+    categories: unique(results.flatMap(result => result.categories)),
+    regions: fuseRegions(results),
+    providers: results.map(result => result.provider)
+  };
+}
@@ -0,0 +1,275 @@
+// Built-in vision providers
+// Each factory returns a VisionProvider: `analyze` resolves with a normalized
+// VisionResult (see types.ts), and `limits` is what the registry downscales the
+// image to before calling it. Bounding boxes are in 0-1 image coordinates.
+
+import fs from "fs";
+import { httpFetch } from "../http.js";
+import { imageDimensions, ImageLimits } from "../images.js";
+import type { BoundingBox, VisionResult } from "../types.js";
+
+export interface VisionProvider {
+  name: string;
+  displayName: string;
+  limits?: ImageLimits;
+  analyze(imageBase64: string, options?: { signal?: AbortSignal }): Promise<VisionResult>;
+}
+
+export type VisionProviderFactory = (env: NodeJS.ProcessEnv) => VisionProvider;
+
+const stripDataUrl = (imageBase64: string) => imageBase64.includes(",")
+  ? imageBase64.split(",")[1]
+  : imageBase64;
+
+export const emptyVisionResult = (provider: string): VisionResult => ({
+  provider,
+  labels: [],
+  objects: [],
+  colors: [],
+  text: [],
+  faces: [],
+  categories: []
+});
+
+// -------- CLARIFAI --------
+interface ClarifaiResponse {
+  outputs?: { data?: { concepts?: { name: string; value: number }[] } }[];
+}
+
+export function createClarifaiProvider(env: NodeJS.ProcessEnv = process.env): VisionProvider {
+  return {
+    name: "clarifai",
+    displayName: "Clarifai",
+    // Clarifai resizes to 512px internally; anything much larger is wasted upload
+    limits: { maxDimension: 1024, maxBytes: 20 * 1024 * 1024 },
+    async analyze(imageBase64, { signal } = {}) {
+      if (!env.VITE_CLARIFAI_API_KEY) {
+        throw new Error("Clarifai API key not configured");
+      }
+
+      const response = await httpFetch(`https://api.clarifai.com/v2/models/general-image-recognition/outputs`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Key ${env.VITE_CLARIFAI_API_KEY}`
+        },
+        body: JSON.stringify({
+          inputs: [{
+            data: {
+              image: { base64: stripDataUrl(imageBase64) }
+            }
+          }]
+        }),
+        signal
+      });
+
+      if (!response.ok) {
+        throw new Error(`Clarifai API error: ${response.status}`);
+      }
+
+      const data = await response.json() as ClarifaiResponse;
+      return {
+        ...emptyVisionResult("clarifai"),
+        labels: data.outputs?.[0]?.data?.concepts?.map(c => ({ name: c.name, confidence: c.value })) || []
+      };
+    }
+  };
+}
+
+// -------- GOOGLE VISION --------
+interface Vertex {
+  x?: number;
+  y?: number;
+}
+
+interface GoogleAnnotateResponse {
+  responses: {
+    labelAnnotations?: { description: string; score: number }[];
+    localizedObjectAnnotations?: { name: string; score: number; boundingPoly?: { normalizedVertices?: Vertex[] } }[];
+    textAnnotations?: { description: string }[];
+    imagePropertiesAnnotation?: {
+      dominantColors?: {
+        colors?: { color: { red?: number; green?: number; blue?: number }; score?: number; pixelFraction?: number }[];
+      };
+    };
+    faceAnnotations?: { detectionConfidence: number; boundingPoly?: { vertices?: Vertex[] } }[];
+  }[];
+}
+
+export function createGoogleVisionProvider(env: NodeJS.ProcessEnv = process.env): VisionProvider {
+  return {
+    name: "google",
+    displayName: "Google Vision",
+    // 1600px keeps text readable for TEXT_DETECTION; requests are capped at 10 MB of JSON
+    limits: { maxDimension: 1600, maxBytes: 7 * 1024 * 1024 },
+    async analyze(imageBase64, { signal } = {}) {
+      if (!env.VITE_GOOGLE_VISION_API_KEY) {
+        throw new Error("Google Vision API key not configured");
+      }
+
+      const response = await httpFetch(
+        `https://vision.googleapis.com/v1/images:annotate?key=${env.VITE_GOOGLE_VISION_API_KEY}`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            requests: [{
+              image: { content: stripDataUrl(imageBase64) },
+              features: [
+                { type: "LABEL_DETECTION", maxResults: 15 },
+                { type: "OBJECT_LOCALIZATION", maxResults: 10 },
+                { type: "TEXT_DETECTION", maxResults: 5 },
+                { type: "IMAGE_PROPERTIES", maxResults: 1 },
+                { type: "FACE_DETECTION", maxResults: 5 }
+              ]
+            }]
+          }),
+          signal
+        }
+      );
+
+      if (!response.ok) {
+        throw new Error(`Google Vision API error: ${response.status}`);
+      }
+
+      const data = await response.json() as GoogleAnnotateResponse;
+      const result = data.responses[0];
+      // Face boxes come back in pixels of the image that was sent
+      const size = result.faceAnnotations?.length ? await imageDimensions(imageBase64) : null;
+
+      return {
+        ...emptyVisionResult("google"),
+        labels: result.labelAnnotations?.map(l => ({ name: l.description, confidence: l.score })) || [],
+        objects: result.localizedObjectAnnotations?.map(o => ({
+          name: o.name,
+          confidence: o.score,
+          box: boxFromVertices(o.boundingPoly?.normalizedVertices)
+        })) || [],
+        text: result.textAnnotations?.map(t => t.description) || [],
+        colors: result.imagePropertiesAnnotation?.dominantColors?.colors?.map(c => ({
+          rgb: `rgb(${c.color.red || 0}, ${c.color.green || 0}, ${c.color.blue || 0})`,
+          name: null,
+          score: c.pixelFraction ?? c.score ?? null
+        })) || [],
+        faces: result.faceAnnotations?.map(f => ({
+          confidence: f.detectionConfidence,
+          box: boxFromVertices(f.boundingPoly?.vertices, size)
+        })) || []
+      };
+    }
+  };
+}
+
+// Google omits zero coordinates from vertices. Pixel vertices are normalized
+// with the image `size`; normalized ones are used as they are.
+function boxFromVertices(vertices: Vertex[] | undefined, size: { width: number; height: number } | null = { width: 1, height: 1 }): BoundingBox | null {
+  if (!vertices || vertices.length === 0 || !size) return null;
+  // Face boxes can reach past the image edge
+  const clamp = (value: number) => Math.min(Math.max(value, 0), 1);
+  const xs = vertices.map(v => clamp((v.x || 0) / size.width));
+  const ys = vertices.map(v => clamp((v.y || 0) / size.height));
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+// -------- MICROSOFT VISION --------
+interface MicrosoftAnalyzeResponse {
+  metadata?: { width?: number; height?: number };
+  tags?: { name: string; confidence: number }[];
+  description?: { tags?: string[]; captions?: { text: string }[] };
+  objects?: { object: string; confidence: number; rectangle?: { x: number; y: number; w: number; h: number } }[];
+  color?: { accentColor?: string; dominantColors?: string[] };
+  categories?: { name: string }[];
+}
+
+export function createMicrosoftVisionProvider(env: NodeJS.ProcessEnv = process.env): VisionProvider {
+  return {
+    name: "microsoft",
+    displayName: "Microsoft Vision",
+    // Image Analysis 3.2 rejects files over 4 MB
+    limits: { maxDimension: 2048, maxBytes: 4 * 1024 * 1024 },
+    async analyze(imageBase64, { signal } = {}) {
+      if (!env.VITE_MICROSOFT_VISION_API_KEY || !env.VITE_MICROSOFT_VISION_ENDPOINT) {
+        throw new Error("Microsoft Vision API not configured");
+      }
+
+      const response = await httpFetch(
+        `${env.VITE_MICROSOFT_VISION_ENDPOINT}vision/v3.2/analyze?visualFeatures=Categories,Description,Objects,Color,Adult,Tags`,
+        {
+          method: "POST",
+          headers: {
+            "Ocp-Apim-Subscription-Key": env.VITE_MICROSOFT_VISION_API_KEY,
+            "Content-Type": "application/octet-stream",
+          },
+          body: Buffer.from(stripDataUrl(imageBase64), "base64"),
+          signal,
+          // The endpoint is a per-resource Azure host
+          provider: "microsoft"
+        }
+      );
+
+      if (!response.ok) {
+        throw new Error(`Microsoft Vision API error: ${response.status}`);
+      }
+
+      const data = await response.json() as MicrosoftAnalyzeResponse;
+      const width = data.metadata?.width;
+      const height = data.metadata?.height;
+      const tagConfidence = new Map((data.tags || []).map(t => [t.name, t.confidence]));
+
+      return {
+        ...emptyVisionResult("microsoft"),
+        labels: data.description?.tags?.map(tag => ({ name: tag, confidence: tagConfidence.get(tag) ?? null })) || [],
+        objects: data.objects?.map(o => ({
+          name: o.object,
+          confidence: o.confidence,
+          box: width && height && o.rectangle
+            ? { x: o.rectangle.x / width, y: o.rectangle.y / height, width: o.rectangle.w / width, height: o.rectangle.h / height }
+            : null
+        })) || [],
+        text: data.description?.captions?.map(c => c.text) || [],
+        colors: [
+          ...(data.color?.accentColor ? [{ rgb: hexToRgb(data.color.accentColor), name: null, score: null }] : []),
+          ...(data.color?.dominantColors || []).map(name => ({ rgb: null, name, score: null }))
+        ],
+        categories: data.categories?.map(c => c.name) || []
+      };
+    }
+  };
+}
+
+function hexToRgb(hex: string) {
+  const value = parseInt(hex.replace("#", ""), 16);
+  return `rgb(${(value >> 16) & 255}, ${(value >> 8) & 255}, ${value & 255})`;
+}
+
+// -------- LOCAL STAND-IN --------
+// Answers without any network access, for development and demos without API keys.
+// Point LOCAL_VISION_FIXTURE at a JSON file holding a normalized result to control
+// exactly what it reports.
+export function createLocalVisionProvider(env: NodeJS.ProcessEnv = process.env): VisionProvider {
+  return {
+    name: "local",
+    displayName: "Local Vision",
+    async analyze() {
+      if (env.LOCAL_VISION_FIXTURE) {
+        const fixture = JSON.parse(await fs.promises.readFile(env.LOCAL_VISION_FIXTURE, "utf8"));
+        return { ...emptyVisionResult("local"), ...fixture, provider: "local" };
+      }
+
+      return {
+        ...emptyVisionResult("local"),
+        labels: [
+          { name: "art", confidence: 0.9 },
+          { name: "painting", confidence: 0.8 },
+          { name: "visual arts", confidence: 0.7 }
+        ],
+        colors: [
+          { rgb: "rgb(128, 96, 64)", name: null, score: 0.4 },
+          { rgb: "rgb(64, 96, 128)", name: null, score: 0.3 }
+        ]
+      };
+    }
+  };
+}
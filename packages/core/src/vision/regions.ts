@@ -0,0 +1,81 @@
+// Image regions: where detected objects and faces are in the picture
+// Providers report boxes in normalized 0-1 image coordinates (see providers.ts).
+// Detections from different providers are merged into one region when their
+// boxes overlap enough and, for objects, their names fuse to the same label.
+// Regions are then linked to the parts of the analysis that mention them, so
+// clients can show where a focal point or visual element is.
+
+import type { BoundingBox, ComprehensiveEducationalAnalysis, ImageRegion, RegionReference, VisionResult } from "../types.js";
+import { normalizeLabel } from "./fusion.js";
+
+// Intersection over union above which two boxes are taken to be the same thing
+const SAME_REGION_IOU = 0.5;
+
+function intersectionOverUnion(a: BoundingBox, b: BoundingBox) {
+  const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  if (width <= 0 || height <= 0) return 0;
+  const intersection = width * height;
+  return intersection / (a.width * a.height + b.width * b.height - intersection);
+}
+
+// `[{ id, kind, name, confidence, box, providers }]`, objects then faces, each
+// most confident first. `kind` is "object" or "face"; a merged region keeps the
+// box of its most confident detection. Detections without a box are left out.
+export function fuseRegions(results: VisionResult[]): ImageRegion[] {
+  const detections = results.flatMap(result => [
+    ...result.objects.map(object => ({ ...object, kind: "object" as const, name: normalizeLabel(object.name), provider: result.provider })),
+    ...result.faces.map(face => ({ ...face, kind: "face" as const, name: "face", provider: result.provider }))
+  ]).filter((detection): detection is typeof detection & { box: BoundingBox } => Boolean(detection.box && detection.name));
+
+  const regions: Omit<ImageRegion, "id">[] = [];
+  detections
+    .sort((a, b) => (b.confidence ?? 0) - (a.confidence ?? 0))
+    .forEach(({ kind, name, confidence, box, provider }) => {
+      const match = regions.find(region =>
+        region.kind === kind && region.name === name && intersectionOverUnion(region.box, box) >= SAME_REGION_IOU
+      );
+      if (match) {
+        if (!match.providers.includes(provider)) match.providers.push(provider);
+        return;
+      }
+      regions.push({ kind, name, confidence: confidence ?? null, box, providers: [provider] });
+    });
+
+  const numbered = (kind: ImageRegion["kind"]) => regions
+    .filter(region => region.kind === kind)
+    .map((region, index) => ({ id: `${kind}-${index + 1}`, ...region }));
+  return [...numbered("object"), ...numbered("face")];
+}
+
+// Which regions the focal points and visual elements of an analysis mention:
+// `[{ regionId, section, index, text }]`, where `section` is the dotted path of
+// the list and `index` the entry in it. Names are compared after the same
+// normalization as labels, so "two people" mentions a region named "person".
+export function linkRegions(regions: ImageRegion[] = [], analysis: Partial<ComprehensiveEducationalAnalysis> = {}): RegionReference[] {
+  const entries = [
+    ...(analysis.compositionAnalysis?.focalPoints || []).map((text, index) => ({
+      section: "compositionAnalysis.focalPoints" as const,
+      index,
+      text
+    })),
+    ...(analysis.visualElements || []).map((element, index) => ({
+      section: "visualElements" as const,
+      index,
+      text: `${element.element} ${element.description}`
+    }))
+  ].filter(entry => typeof entry.text === "string");
+
+  const names = new Map<string, string[]>();
+  regions.forEach(region => {
+    if (!names.has(region.name)) names.set(region.name, []);
+    names.get(region.name)!.push(region.id);
+  });
+
+  return entries.flatMap(entry => {
+    const normalized = ` ${normalizeLabel(entry.text)} `;
+    return [...names.entries()]
+      .filter(([name]) => normalized.includes(` ${name} `))
+      .flatMap(([, ids]) => ids.map(regionId => ({ regionId, section: entry.section, index: entry.index, text: entry.text })));
+  });
+}
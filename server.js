@@ -1,19 +1,69 @@
 // server.js
 import express from "express";
-import fetch from "node-fetch";
 import cors from "cors";
 import dotenv from "dotenv";
+import {
+  circuitBreakerStates,
+  createLlmClient,
+  createPipeline,
+  createPromptRegistry,
+  createVisionRegistry,
+  httpFetch,
+  Trace
+} from "./packages/core/dist/index.js";
+import { createAnalysisCache } from "./server/cache.js";
+import { BudgetExceededError, createCostMeter } from "./server/costs.js";
+import { createImageUpload, decodeBase64Image, ImageError, jsonBodyLimit, prepareImage } from "./server/images.js";
+import { createJobStore, JobQueue } from "./server/jobs.js";
 
 dotenv.config();
 
 const app = express();
 app.use(cors());
-app.use(express.json());
+app.use(express.json({ limit: jsonBodyLimit() }));
+
+const jobQueue = new JobQueue(createJobStore(), {
+  concurrency: Number(process.env.JOB_CONCURRENCY) || 2,
+  ttlMs: Number(process.env.JOB_TTL_MS) || 60 * 60 * 1000,
+});
+await jobQueue.recover();
+
+const visionRegistry = createVisionRegistry();
+const analysisCache = createAnalysisCache();
+const llm = createLlmClient();
+const prompts = createPromptRegistry();
+const receiveUpload = createImageUpload();
+const costMeter = createCostMeter();
+
+// Economy mode, used once a budget is spent (see server/costs.js): vision runs
+// only BUDGET_ECONOMY_VISION_PROVIDERS, by default the cheapest configured
+// provider, and the LLM stages use BUDGET_ECONOMY_LLM_MODEL or, without one, are
+// skipped in favor of the rule-based synthesis
+const cheapestVisionProvider = [...visionRegistry.providers]
+  .sort((a, b) => (costMeter.prices[a.name]?.perRequest || 0) - (costMeter.prices[b.name]?.perRequest || 0))[0]?.name;
+const economyModel = process.env.BUDGET_ECONOMY_LLM_MODEL;
+// The pipeline itself lives in packages/core; run `npm run build:core` after changing it
+const pipelines = {
+  full: createPipeline({ visionRegistry, llm, prompts }),
+  economy: createPipeline({
+    visionRegistry: createVisionRegistry({
+      ...process.env,
+      VISION_PROVIDERS: process.env.BUDGET_ECONOMY_VISION_PROVIDERS || cheapestVisionProvider
+    }),
+    llm: createLlmClient({
+      ...process.env,
+      ...(economyModel
+        ? { LLM_INTERPRETATION_MODEL: economyModel, LLM_SYNTHESIS_MODEL: economyModel }
+        : { LLM_INTERPRETATION_PROVIDER: 'none', LLM_SYNTHESIS_PROVIDER: 'none' })
+    }),
+    prompts
+  })
+};
 
 // Helper function for forwarding requests
 const proxyRequest = async (req, res, targetUrl, headers = {}) => {
   try {
-    const response = await fetch(targetUrl, {
+    const response = await httpFetch(targetUrl, {
       method: req.method,
       headers: {
         ...headers,
@@ -30,6 +80,80 @@ const proxyRequest = async (req, res, targetUrl, headers = {}) => {
   }
 };
 
+// Express 5 wildcards capture path segments as an array; rebuild the forwarded
+// path and keep the original query string so it reaches the upstream API.
+const wildcardEndpoint = (req) => {
+  const query = req.originalUrl.includes("?") ? req.originalUrl.slice(req.originalUrl.indexOf("?")) : "";
+  return `${req.params.endpoint.join("/")}${query}`;
+};
+
+// Reads the analysis image from a multipart `image` field or a JSON `imageBase64`
+// data URL, validated and normalized (orientation applied, EXIF/GPS stripped) by
+// server/images.js. Answers the request itself and resolves with null when the
+// image is missing or unusable.
+const readRequestImage = async (req, res) => {
+  try {
+    await receiveUpload(req, res);
+    if (req.file) {
+      return await prepareImage(req.file.buffer);
+    }
+    if (req.body?.imageBase64) {
+      return await prepareImage(decodeBase64Image(req.body.imageBase64));
+    }
+    res.status(400).json({ error: "Image data required" });
+  } catch (error) {
+    if (!(error instanceof ImageError)) throw error;
+    res.status(error.status).json({ error: error.message });
+  }
+  return null;
+};
+
+// Multipart form fields arrive as strings
+const isTrue = (value) => value === true || value === "true";
+
+// Answers 429 once a budget is spent and analyses are refused, or in economy
+// mode too for endpoints that have no economy mode. An `imageBase64` the
+// analysis cache can serve costs nothing and is let through. Resolves with true
+// when it answered.
+const rejectOverBudget = async (res, { allowEconomy = true, imageBase64 = null, refresh = false } = {}) => {
+  const budget = await costMeter.status();
+  if (budget.mode === "full" || (budget.mode === "economy" && allowEconomy)) return false;
+  if (imageBase64 && !refresh && (await analysisCache?.lookup(imageBase64))?.entry) return false;
+  sendBudgetExceeded(res, new BudgetExceededError(budget));
+  return true;
+};
+
+const sendBudgetExceeded = (res, error) => {
+  res.set("Retry-After", String(Math.ceil((Date.parse(error.retryAt) - Date.now()) / 1000)));
+  res.status(error.status).json({ success: false, error: error.message, budget: error.budget });
+};
+
+// Helper for Server-Sent Events responses. Writes are dropped once the client
+// has disconnected so a long-running pipeline can finish without erroring.
+const openEventStream = (res) => {
+  let closed = false;
+  res.on("close", () => {
+    closed = true;
+  });
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+  res.flushHeaders?.();
+
+  return {
+    send(event, data) {
+      if (closed) return;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+    close() {
+      if (!closed) res.end();
+    },
+  };
+};
+
 // -------- CLARIFAI --------
 app.post("/proxy/clarifai/v2/models/:modelId/outputs", (req, res) => {
   const modelId = req.params.modelId || process.env.VITE_CLARIFAI_MODEL_ID;
@@ -65,8 +189,8 @@ app.post("/proxy/openai/chat", (req, res) => {
 });
 
 // -------- HARVARD ART MUSEUMS --------
-app.get("/proxy/harvard/:endpoint(*)", (req, res) => {
-  const endpoint = req.params.endpoint;
+app.get("/proxy/harvard/*endpoint", (req, res) => {
+  const endpoint = wildcardEndpoint(req);
   const hasQuery = endpoint.includes("?");
   const separator = hasQuery ? "&" : "?";
   const targetUrl = `https://api.harvardartmuseums.org/${endpoint}${separator}apikey=${process.env.VITE_HARVARD_API_KEY}`;
@@ -74,15 +198,15 @@ app.get("/proxy/harvard/:endpoint(*)", (req, res) => {
 });
 
 // -------- MET MUSEUM (no key required, just forward) --------
-app.get("/proxy/met/:endpoint(*)", (req, res) => {
-  const endpoint = req.params.endpoint;
+app.get("/proxy/met/*endpoint", (req, res) => {
+  const endpoint = wildcardEndpoint(req);
   const targetUrl = `https://collectionapi.metmuseum.org/public/collection/v1/${endpoint}`;
   proxyRequest(req, res, targetUrl);
 });
 
 // -------- ARTSEARCH (Custom, update base URL if needed) --------
-app.get("/proxy/artsearch/:endpoint(*)", (req, res) => {
-  const endpoint = req.params.endpoint;
+app.get("/proxy/artsearch/*endpoint", (req, res) => {
+  const endpoint = wildcardEndpoint(req);
   const targetUrl = `https://your-artsearch-api.com/${endpoint}`;
   proxyRequest(req, res, targetUrl, {
     "x-api-key": process.env.VITE_ARTSEARCH_API_KEY || "",
@@ -90,8 +214,8 @@ app.get("/proxy/artsearch/:endpoint(*)", (req, res) => {
 });
 
 // -------- WIKIPEDIA --------
-app.get("/proxy/wikipedia/:endpoint(*)", (req, res) => {
-  const endpoint = req.params.endpoint;
+app.get("/proxy/wikipedia/*endpoint", (req, res) => {
+  const endpoint = wildcardEndpoint(req);
   const targetUrl = `https://en.wikipedia.org/w/api.php?${endpoint}`;
   proxyRequest(req, res, targetUrl);
 });
@@ -104,7 +228,7 @@ app.get("/proxy/allorigins/raw", async (req, res) => {
       return res.status(400).json({ error: "URL parameter required" });
     }
 
-    const response = await fetch(`https://api.allorigins.win/raw?url=${encodeURIComponent(targetUrl)}`);
+    const response = await httpFetch(`https://api.allorigins.win/raw?url=${encodeURIComponent(targetUrl)}`);
     const data = await response.text();
     
     res.status(response.status).json(JSON.parse(data));
@@ -117,101 +241,21 @@ app.get("/proxy/allorigins/raw", async (req, res) => {
 // -------- COMPREHENSIVE EDUCATIONAL ART ANALYSIS ENDPOINT --------
 app.post("/api/analyze-educational", async (req, res) => {
   try {
-    const { imageBase64 } = req.body;
-    
-    if (!imageBase64) {
-      return res.status(400).json({ error: "Image data required" });
-    }
-
-    console.log('🎨 Starting comprehensive educational artwork analysis...');
-
-    // Stage 1: Vision Analysis - Run all vision APIs in parallel
-    console.log('🔍 Stage 1: Performing comprehensive visual analysis...');
-    const visionResults = await Promise.allSettled([
-      analyzeWithClarifai(imageBase64),
-      analyzeWithGoogleVision(imageBase64),
-      analyzeWithMicrosoftVision(imageBase64)
-    ]);
-
-    const clarifai = visionResults[0].status === 'fulfilled' ? visionResults[0].value : null;
-    const google = visionResults[1].status === 'fulfilled' ? visionResults[1].value : null;
-    const microsoft = visionResults[2].status === 'fulfilled' ? visionResults[2].value : null;
-
-    // Combine all vision data
-    const combinedVision = {
-      labels: [
-        ...(clarifai?.labels || []),
-        ...(google?.labels || []),
-        ...(microsoft?.labels || [])
-      ].filter((label, index, self) => self.indexOf(label) === index),
-      
-      objects: [
-        ...(google?.objects || []),
-        ...(microsoft?.objects || [])
-      ].filter((obj, index, self) => self.indexOf(obj) === index),
-      
-      colors: [
-        ...(google?.colors || []),
-        ...(microsoft?.colors || [])
-      ].filter((color, index, self) => self.indexOf(color) === index),
-      
-      text: [
-        ...(google?.text || []),
-        ...(microsoft?.text || [])
-      ].filter((text, index, self) => self.indexOf(text) === index),
-      
-      faces: (google?.faces || 0) + (microsoft?.faces || 0),
-      categories: microsoft?.categories || []
-    };
+    // This endpoint has no economy mode, so it stops as soon as a budget is spent
+    if (await rejectOverBudget(res, { allowEconomy: false })) return;
 
-    // Stage 2: Initial AI Interpretation
-    console.log('🧠 Stage 2: Generating initial AI interpretation...');
-    const initialInsights = await generateInitialInterpretation(combinedVision);
+    const image = await readRequestImage(req, res);
+    if (!image) return;
+    const { imageBase64 } = image;
 
-    // Stage 3: Targeted Recall - Based on initial interpretation
-    console.log('🎯 Stage 3: Performing targeted recall based on AI insights...');
-    const recallData = await performTargetedRecall(combinedVision, initialInsights);
-
-    // Stage 4: Final Synthesis
-    console.log('🎨 Stage 4: Generating final educational synthesis...');
-    const finalAnalysis = await generateFinalSynthesis(combinedVision, initialInsights, recallData);
-
-    console.log('✅ Educational analysis complete!');
+    const trace = new Trace();
+    const result = await pipelines.full.runBasic(imageBase64, { trace });
 
     res.json({
       success: true,
-      analysis: finalAnalysis,
-      visionData: { clarifai, google, microsoft, combined: combinedVision },
-      stages: [
-        { 
-          stage: 'vision', 
-          description: 'Comprehensive visual analysis completed', 
-          apisUsed: ['Clarifai', 'Google Vision', 'Microsoft Vision'],
-          insights: combinedVision.labels.slice(0, 5),
-          timestamp: new Date()
-        },
-        { 
-          stage: 'interpretation', 
-          description: 'Initial AI interpretation completed', 
-          apisUsed: ['OpenAI'],
-          insights: initialInsights.styleInsights?.slice(0, 3) || [],
-          timestamp: new Date()
-        },
-        { 
-          stage: 'recall', 
-          description: 'Targeted recall operations completed', 
-          apisUsed: ['Wikipedia', 'Met Museum', 'Harvard', 'Art Institute'],
-          insights: Object.keys(recallData).filter(key => recallData[key] !== null),
-          timestamp: new Date()
-        },
-        { 
-          stage: 'synthesis', 
-          description: 'Final educational synthesis completed', 
-          apisUsed: ['OpenAI'],
-          insights: ['Comprehensive analysis generated'],
-          timestamp: new Date()
-        }
-      ]
+      ...result,
+      trace: trace.summary(),
+      cost: { ...(await recordCost(trace)), mode: 'full' }
     });
 
   } catch (error) {
@@ -225,107 +269,38 @@ app.post("/api/analyze-educational", async (req, res) => {
 });
 
 // -------- ENHANCED EDUCATIONAL ANALYSIS WITH ALL APIs --------
+// Send the image as a multipart/form-data `image` file (JPEG, PNG, HEIC or WebP)
+// or as a JSON `imageBase64` data URL; see readRequestImage.
+// Pass `?async=true` (or an `async` field of true in the body) to enqueue a job
+// instead of waiting for the result; poll it with GET /api/jobs/:id.
+// `?refresh=true` skips the analysis cache and re-runs the pipeline.
 app.post("/api/analyze-comprehensive", async (req, res) => {
   try {
-    const { imageBase64 } = req.body;
-    
-    if (!imageBase64) {
-      return res.status(400).json({ error: "Image data required" });
+    const image = await readRequestImage(req, res);
+    if (!image) return;
+    const { imageBase64 } = image;
+
+    const refresh = req.query.refresh === "true";
+    if (await rejectOverBudget(res, { imageBase64, refresh })) return;
+
+    if (req.query.async === "true" || isTrue(req.body?.async)) {
+      const job = await jobQueue.enqueue(options => runComprehensiveAnalysis(imageBase64, { ...options, refresh }));
+      return res.status(202).json({
+        success: true,
+        jobId: job.id,
+        status: job.status,
+        statusUrl: `/api/jobs/${job.id}`
+      });
     }
 
-    console.log('🎨 Starting comprehensive educational artwork analysis with all APIs...');
-
-    // Stage 1: Vision Analysis - Run all vision APIs in parallel
-    console.log('🔍 Stage 1: Performing comprehensive visual analysis...');
-    const visionResults = await Promise.allSettled([
-      analyzeWithClarifai(imageBase64),
-      analyzeWithGoogleVision(imageBase64),
-      analyzeWithMicrosoftVision(imageBase64)
-    ]);
-
-    const clarifai = visionResults[0].status === 'fulfilled' ? visionResults[0].value : null;
-    const google = visionResults[1].status === 'fulfilled' ? visionResults[1].value : null;
-    const microsoft = visionResults[2].status === 'fulfilled' ? visionResults[2].value : null;
-
-    // Combine all vision data
-    const combinedVision = {
-      labels: [
-        ...(clarifai?.labels || []),
-        ...(google?.labels || []),
-        ...(microsoft?.labels || [])
-      ].filter((label, index, self) => self.indexOf(label) === index),
-      
-      objects: [
-        ...(google?.objects || []),
-        ...(microsoft?.objects || [])
-      ].filter((obj, index, self) => self.indexOf(obj) === index),
-      
-      colors: [
-        ...(google?.colors || []),
-        ...(microsoft?.colors || [])
-      ].filter((color, index, self) => self.indexOf(color) === index),
-      
-      text: [
-        ...(google?.text || []),
-        ...(microsoft?.text || [])
-      ].filter((text, index, self) => self.indexOf(text) === index),
-      
-      faces: (google?.faces || 0) + (microsoft?.faces || 0),
-      categories: microsoft?.categories || []
-    };
-
-    // Stage 2: Initial AI Interpretation
-    console.log('🧠 Stage 2: Generating initial AI interpretation...');
-    const initialInsights = await generateInitialInterpretation(combinedVision);
-
-    // Stage 3: Comprehensive Targeted Recall - Based on initial interpretation
-    console.log('🎯 Stage 3: Performing comprehensive targeted recall...');
-    const recallData = await performComprehensiveRecall(combinedVision, initialInsights);
+    const result = await runComprehensiveAnalysis(imageBase64, { refresh });
 
-    // Stage 4: Final Synthesis with all data
-    console.log('🎨 Stage 4: Generating final educational synthesis...');
-    const finalAnalysis = await generateFinalSynthesis(combinedVision, initialInsights, recallData);
-
-    console.log('✅ Comprehensive educational analysis complete!');
-
-    res.json({
-      success: true,
-      analysis: finalAnalysis,
-      visionData: { clarifai, google, microsoft, combined: combinedVision },
-      recallData: recallData,
-      stages: [
-        { 
-          stage: 'vision', 
-          description: 'Comprehensive visual analysis completed', 
-          apisUsed: ['Clarifai', 'Google Vision', 'Microsoft Vision'],
-          insights: combinedVision.labels.slice(0, 5),
-          timestamp: new Date()
-        },
-        { 
-          stage: 'interpretation', 
-          description: 'Initial AI interpretation completed', 
-          apisUsed: ['OpenAI'],
-          insights: initialInsights.styleInsights?.slice(0, 3) || [],
-          timestamp: new Date()
-        },
-        { 
-          stage: 'recall', 
-          description: 'Comprehensive targeted recall completed', 
-          apisUsed: ['Wikipedia', 'Met Museum', 'Harvard', 'Art Institute', 'Art Search', 'Color Analysis'],
-          insights: Object.keys(recallData).filter(key => recallData[key] !== null),
-          timestamp: new Date()
-        },
-        { 
-          stage: 'synthesis', 
-          description: 'Final educational synthesis completed', 
-          apisUsed: ['OpenAI'],
-          insights: ['Comprehensive analysis generated'],
-          timestamp: new Date()
-        }
-      ]
-    });
+    res.json({ success: true, ...result });
 
   } catch (error) {
+    if (error instanceof BudgetExceededError) {
+      return sendBudgetExceeded(res, error);
+    }
     console.error("Comprehensive educational analysis error:", error);
     res.status(500).json({ 
       success: false, 
@@ -335,1059 +310,190 @@ app.post("/api/analyze-comprehensive", async (req, res) => {
   }
 });
 
-// Helper functions for educational analysis
-async function analyzeWithClarifai(imageBase64) {
-  if (!process.env.VITE_CLARIFAI_API_KEY) {
-    throw new Error('Clarifai API key not configured');
-  }
-
-  const base64Content = imageBase64.includes(',') 
-    ? imageBase64.split(',')[1] 
-    : imageBase64;
-
-  const response = await fetch(`https://api.clarifai.com/v2/models/general-image-recognition/outputs`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Key ${process.env.VITE_CLARIFAI_API_KEY}`
+// -------- HEALTH --------
+// Lightweight check used by clients to test that they can reach this server.
+// `circuitBreakers` lists every external API called so far with its breaker
+// state (closed, open, half-open); see packages/core/src/http.ts. `budget` shows
+// spending against the daily and monthly budgets; see server/costs.js.
+app.get("/api/health", async (req, res) => {
+  res.json({
+    ok: true,
+    visionProviders: visionRegistry.displayNames,
+    llm: {
+      interpretation: llm.displayName('interpretation'),
+      synthesis: llm.displayName('synthesis')
     },
-    body: JSON.stringify({
-      inputs: [{
-        data: {
-          image: { base64: base64Content }
-        }
-      }]
-    })
+    circuitBreakers: circuitBreakerStates(),
+    budget: await costMeter.status(),
+    timestamp: new Date()
   });
+});
 
-  if (!response.ok) {
-    throw new Error(`Clarifai API error: ${response.status}`);
-  }
-
-  const data = await response.json();
-  return {
-    labels: data.outputs?.[0]?.data?.concepts?.map(c => c.name) || [],
-    confidence: data.outputs?.[0]?.data?.concepts?.map(c => c.value) || []
-  };
-}
-
-async function analyzeWithGoogleVision(imageBase64) {
-  if (!process.env.VITE_GOOGLE_VISION_API_KEY) {
-    throw new Error('Google Vision API key not configured');
-  }
-
-  const base64Content = imageBase64.includes(',') 
-    ? imageBase64.split(',')[1] 
-    : imageBase64;
-
-  const response = await fetch(
-    `https://vision.googleapis.com/v1/images:annotate?key=${process.env.VITE_GOOGLE_VISION_API_KEY}`,
-    {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        requests: [{
-          image: { content: base64Content },
-          features: [
-            { type: 'LABEL_DETECTION', maxResults: 15 },
-            { type: 'OBJECT_LOCALIZATION', maxResults: 10 },
-            { type: 'TEXT_DETECTION', maxResults: 5 },
-            { type: 'IMAGE_PROPERTIES', maxResults: 1 },
-            { type: 'FACE_DETECTION', maxResults: 5 }
-          ]
-        }]
-      })
-    }
-  );
-
-  if (!response.ok) {
-    throw new Error(`Google Vision API error: ${response.status}`);
-  }
-
-  const data = await response.json();
-  const result = data.responses[0];
-
-  return {
-    labels: result.labelAnnotations?.map(l => l.description) || [],
-    objects: result.localizedObjectAnnotations?.map(o => o.name) || [],
-    text: result.textAnnotations?.map(t => t.description) || [],
-    colors: result.imagePropertiesAnnotation?.dominantColors?.colors?.map(c => 
-      `rgb(${c.color.red}, ${c.color.green}, ${c.color.blue})`
-    ) || [],
-    faces: result.faceAnnotations?.length || 0
-  };
-}
-
-async function analyzeWithMicrosoftVision(imageBase64) {
-  if (!process.env.VITE_MICROSOFT_VISION_API_KEY || !process.env.VITE_MICROSOFT_VISION_ENDPOINT) {
-    throw new Error('Microsoft Vision API not configured');
-  }
-
-  const base64Content = imageBase64.includes(',') 
-    ? imageBase64.split(',')[1] 
-    : imageBase64;
-
-  const response = await fetch(
-    `${process.env.VITE_MICROSOFT_VISION_ENDPOINT}vision/v3.2/analyze?visualFeatures=Categories,Description,Objects,Color,Adult,Tags`,
-    {
-      method: 'POST',
-      headers: {
-        'Ocp-Apim-Subscription-Key': process.env.VITE_MICROSOFT_VISION_API_KEY,
-        'Content-Type': 'application/octet-stream',
-      },
-      body: Buffer.from(base64Content, 'base64')
-    }
-  );
-
-  if (!response.ok) {
-    throw new Error(`Microsoft Vision API error: ${response.status}`);
-  }
-
-  const data = await response.json();
-
-  return {
-    labels: data.description?.tags || [],
-    objects: data.objects?.map(o => o.object) || [],
-    text: data.description?.captions?.map(c => c.text) || [],
-    colors: data.color?.dominantColors || [],
-    categories: data.categories?.map(c => c.name) || []
-  };
-}
-
-async function generateInitialInterpretation(visionData) {
-  if (!process.env.VITE_OPENAI_API_KEY) {
-    throw new Error('OpenAI API key not configured');
-  }
-
-  const prompt = `Analyze this artwork for educational purposes. Focus on style, technique, theme, and medium rather than identification.
-
-Visual Data:
-- Labels: ${visionData.labels?.join(', ') || 'None detected'}
-- Objects: ${visionData.objects?.join(', ') || 'None detected'}
-- Colors: ${visionData.colors?.join(', ') || 'None detected'}
-- Text: ${visionData.text?.join(', ') || 'None detected'}
-
-Provide educational insights in this JSON format:
-{
-  "styleInsights": ["Detailed observation about artistic style and movement characteristics", "Analysis of visual language and stylistic choices"],
-  "techniqueInsights": ["Technical observations about materials and methods", "Analysis of skill level and application techniques"],
-  "themeInsights": ["Thematic content and symbolic elements", "Emotional tone and narrative elements"],
-  "mediumInsights": ["Material analysis and historical context", "Technical properties and educational significance"],
-  "reflectionQuestions": ["What do you notice first when looking at this artwork?", "How does the artist use color to create mood?", "What techniques can you identify in the brushwork?"],
-  "learningObjectives": ["Develop visual literacy skills", "Understand color theory principles", "Analyze compositional techniques"]
-}`;
-
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${process.env.VITE_OPENAI_API_KEY}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: 'gpt-4',
-      messages: [
-        {
-          role: 'system',
-          content: 'You are an expert art educator who helps students understand art through deep observation and analysis. Focus on style, technique, theme, and medium rather than identifying specific artists or titles. Generate educational insights that encourage slow, thoughtful looking and learning. Respond with valid JSON only.'
-        },
-        {
-          role: 'user',
-          content: prompt
-        }
-      ],
-      max_tokens: 1500,
-      temperature: 0.3
-    })
-  });
-
-  if (!response.ok) {
-    throw new Error(`OpenAI API error: ${response.status}`);
-  }
-
-  const data = await response.json();
-  const content = data.choices[0]?.message?.content;
-  
-  if (!content) {
-    throw new Error('No content received from OpenAI');
-  }
-
-  return JSON.parse(content);
-}
-
-async function performTargetedRecall(visionData, initialInsights) {
-  console.log('🎯 Performing targeted recall based on AI insights...');
-  
-  const recallData = {
-    textureAnalysis: null,
-    colorAnalysis: null,
-    historicalContext: null,
-    comparativeExamples: null,
-    wikipediaData: null,
-    metMuseumData: null,
-    harvardData: null,
-    artInstituteData: null
-  };
-
-  const recallPromises = [];
-
-  // Extract search terms from vision data and insights
-  const searchTerms = extractSearchTerms(visionData.labels, initialInsights);
-
-  // Always perform color analysis
-  recallPromises.push(
-    performColorAnalysis(visionData.colors).then(result => {
-      recallData.colorAnalysis = result;
-    }).catch(err => console.warn('Color analysis failed:', err))
-  );
-
-  // Wikipedia search for historical context
-  if (searchTerms.length > 0) {
-    recallPromises.push(
-      searchWikipedia(searchTerms[0]).then(result => {
-        recallData.wikipediaData = result;
-      }).catch(err => console.warn('Wikipedia search failed:', err))
-    );
-  }
-
-  // Met Museum search for comparative examples
-  if (searchTerms.length > 0) {
-    recallPromises.push(
-      searchMetMuseum(searchTerms[0]).then(result => {
-        recallData.metMuseumData = result;
-      }).catch(err => console.warn('Met Museum search failed:', err))
-    );
-  }
-
-  // Harvard Art Museums search
-  if (process.env.VITE_HARVARD_ART_MUSEUMS_API_KEY && searchTerms.length > 0) {
-    recallPromises.push(
-      searchHarvardArtwork(searchTerms[0]).then(result => {
-        recallData.harvardData = result;
-      }).catch(err => console.warn('Harvard search failed:', err))
-    );
-  }
-
-  // Art Institute search
-  if (searchTerms.length > 0) {
-    recallPromises.push(
-      searchArtInstitute(searchTerms[0]).then(result => {
-        recallData.artInstituteData = result;
-      }).catch(err => console.warn('Art Institute search failed:', err))
-    );
-  }
-
-  // Wait for all recall operations to complete
-  await Promise.allSettled(recallPromises);
-
-  return recallData;
-}
-
-// Comprehensive recall function that incorporates ALL APIs
-async function performComprehensiveRecall(visionData, initialInsights) {
-  console.log('🎯 Performing comprehensive targeted recall with all APIs...');
-  
-  const recallData = {
-    // Vision and texture analysis
-    textureAnalysis: null,
-    colorAnalysis: null,
-    emotionalAnalysis: null,
-    
-    // Historical and cultural context
-    wikipediaData: null,
-    historicalContext: null,
-    culturalContext: null,
-    
-    // Museum and collection data
-    metMuseumData: null,
-    harvardData: null,
-    artInstituteData: null,
-    artSearchData: null,
-    
-    // Comparative and educational data
-    comparativeExamples: null,
-    similarArtworks: null,
-    artisticMovements: null,
-    
-    // Educational content
-    learningResources: null,
-    discussionPrompts: null,
-    visualElements: null
-  };
-
-  const recallPromises = [];
-
-  // Extract comprehensive search terms from vision data and insights
-  const searchTerms = extractComprehensiveSearchTerms(visionData.labels, initialInsights);
-  console.log('🔍 Search terms extracted:', searchTerms);
-
-  // 1. ALWAYS perform color analysis (fundamental for art education)
-  recallPromises.push(
-    performColorAnalysis(visionData.colors).then(result => {
-      recallData.colorAnalysis = result;
-      console.log('✅ Color analysis completed');
-    }).catch(err => console.warn('Color analysis failed:', err))
-  );
-
-  // 2. Wikipedia search for historical context (always valuable for education)
-  if (searchTerms.length > 0) {
-    recallPromises.push(
-      searchWikipedia(searchTerms[0]).then(result => {
-        recallData.wikipediaData = result;
-        if (result) console.log('✅ Wikipedia data found:', result.title);
-      }).catch(err => console.warn('Wikipedia search failed:', err))
-    );
-  }
-
-  // 3. Met Museum search for comparative examples (free, always available)
-  if (searchTerms.length > 0) {
-    recallPromises.push(
-      searchMetMuseum(searchTerms[0]).then(result => {
-        recallData.metMuseumData = result;
-        if (result) console.log('✅ Met Museum data found:', result.title);
-      }).catch(err => console.warn('Met Museum search failed:', err))
-    );
-  }
-
-  // 4. Harvard Art Museums search (if API key available)
-  if (process.env.VITE_HARVARD_ART_MUSEUMS_API_KEY && searchTerms.length > 0) {
-    recallPromises.push(
-      searchHarvardArtwork(searchTerms[0]).then(result => {
-        recallData.harvardData = result;
-        if (result && result.length > 0) console.log('✅ Harvard data found:', result.length, 'artworks');
-      }).catch(err => console.warn('Harvard search failed:', err))
-    );
-  }
-
-  // 5. Art Institute search (free, always available)
-  if (searchTerms.length > 0) {
-    recallPromises.push(
-      searchArtInstitute(searchTerms[0]).then(result => {
-        recallData.artInstituteData = result;
-        if (result && result.length > 0) console.log('✅ Art Institute data found:', result.length, 'artworks');
-      }).catch(err => console.warn('Art Institute search failed:', err))
-    );
-  }
-
-  // 6. Art Search API (if available)
-  if (process.env.VITE_ARTSEARCH_API_KEY && searchTerms.length > 0) {
-    recallPromises.push(
-      searchArtSearch(searchTerms[0]).then(result => {
-        recallData.artSearchData = result;
-        if (result && result.length > 0) console.log('✅ Art Search data found:', result.length, 'artworks');
-      }).catch(err => console.warn('Art Search failed:', err))
-    );
-  }
-
-  // 7. Enhanced texture analysis if brushwork/technique mentioned
-  if (initialInsights.techniqueInsights && 
-      initialInsights.techniqueInsights.some(insight => 
-        insight.toLowerCase().includes('brush') || 
-        insight.toLowerCase().includes('texture') ||
-        insight.toLowerCase().includes('impasto')
-      )) {
-    recallPromises.push(
-      performTextureAnalysis(visionData).then(result => {
-        recallData.textureAnalysis = result;
-        console.log('✅ Texture analysis completed');
-      }).catch(err => console.warn('Texture analysis failed:', err))
-    );
-  }
-
-  // 8. Emotional analysis based on color and composition
-  recallPromises.push(
-    performEmotionalAnalysis(visionData, initialInsights).then(result => {
-      recallData.emotionalAnalysis = result;
-      console.log('✅ Emotional analysis completed');
-    }).catch(err => console.warn('Emotional analysis failed:', err))
-  );
-
-  // 9. Generate learning resources and discussion prompts
-  recallPromises.push(
-    generateLearningResources(visionData, initialInsights).then(result => {
-      recallData.learningResources = result;
-      console.log('✅ Learning resources generated');
-    }).catch(err => console.warn('Learning resources generation failed:', err))
-  );
-
-  // 10. Find similar artworks for comparison
-  if (searchTerms.length > 0) {
-    recallPromises.push(
-      findSimilarArtworks(searchTerms).then(result => {
-        recallData.similarArtworks = result;
-        if (result && result.length > 0) console.log('✅ Similar artworks found:', result.length);
-      }).catch(err => console.warn('Similar artworks search failed:', err))
-    );
-  }
-
-  // Wait for all recall operations to complete
-  console.log('⏳ Waiting for all recall operations to complete...');
-  await Promise.allSettled(recallPromises);
-
-  // Log completion status
-  const completedOperations = Object.keys(recallData).filter(key => recallData[key] !== null);
-  console.log('✅ Recall operations completed:', completedOperations.length, 'out of', Object.keys(recallData).length);
-
-  return recallData;
-}
-
-// Helper function to extract search terms
-function extractSearchTerms(labels, insights) {
-  const terms = [...labels];
-  
-  // Add terms from insights
-  if (insights.styleInsights) {
-    terms.push(...insights.styleInsights.slice(0, 2));
-  }
-  if (insights.themeInsights) {
-    terms.push(...insights.themeInsights.slice(0, 2));
-  }
-  
-  // Clean and deduplicate
-  return [...new Set(terms)]
-    .map(term => term.replace(/[^a-zA-Z0-9\s-]/g, ' ').trim())
-    .filter(term => term.length > 2)
-    .slice(0, 3);
-}
-
-// Enhanced search term extraction for comprehensive recall
-function extractComprehensiveSearchTerms(labels, insights) {
-  const terms = [...labels];
-  
-  // Add terms from all insight categories
-  if (insights.styleInsights) {
-    terms.push(...insights.styleInsights.slice(0, 3));
-  }
-  if (insights.themeInsights) {
-    terms.push(...insights.themeInsights.slice(0, 3));
-  }
-  if (insights.techniqueInsights) {
-    terms.push(...insights.techniqueInsights.slice(0, 2));
-  }
-  if (insights.mediumInsights) {
-    terms.push(...insights.mediumInsights.slice(0, 2));
-  }
-  
-  // Add art-specific terms that are likely to yield good results
-  const artTerms = ['art', 'painting', 'artwork', 'artist', 'museum', 'gallery', 'artistic', 'visual'];
-  terms.push(...artTerms);
-  
-  // Clean and deduplicate
-  return [...new Set(terms)]
-    .map(term => term.replace(/[^a-zA-Z0-9\s-]/g, ' ').trim())
-    .filter(term => term.length > 2)
-    .slice(0, 5); // More search terms for comprehensive recall
-}
-
-// Color analysis function
-async function performColorAnalysis(colors) {
-  if (!colors || colors.length === 0) {
-    return {
-      dominantColors: [],
-      colorHarmony: 'No color data available',
-      emotionalImpact: 'Unable to analyze color mood',
-      colorTheory: ['Color analysis not available']
-    };
-  }
-
-  return {
-    dominantColors: colors.slice(0, 6).map((color, index) => ({
-      hex: rgbToHex(color),
-      name: getColorName(color),
-      percentage: Math.max(20 - (index * 3), 5),
-      emotionalAssociation: getEmotionalAssociation(color),
-      symbolicMeaning: getSymbolicMeaning(color),
-      educationalNote: getEducationalNote(color)
-    })),
-    colorHarmony: analyzeColorHarmony(colors),
-    emotionalImpact: analyzeEmotionalImpact(colors),
-    colorTheory: generateColorTheoryInsights(colors)
-  };
-}
-
-// Wikipedia search function
-async function searchWikipedia(query) {
+// -------- USAGE --------
+// Requests, tokens and estimated cost per provider for today and this month
+app.get("/api/usage", async (req, res) => {
   try {
-    const cleanQuery = query.replace(/[^a-zA-Z0-9\s-]/g, ' ').trim();
-    const targetUrl = `https://en.wikipedia.org/api/rest_v1/page/summary/${encodeURIComponent(cleanQuery)}`;
-    const proxyUrl = `/proxy/allorigins/raw?url=${encodeURIComponent(targetUrl)}`;
-    
-    const response = await fetch(proxyUrl);
-    if (!response.ok) return null;
-    
-    const data = await response.json();
-    return {
-      title: data.title,
-      extract: data.extract,
-      description: data.description,
-      url: data.content_urls?.desktop?.page || ''
-    };
+    res.json({ ...(await costMeter.usage()), budget: await costMeter.status() });
   } catch (error) {
-    return null;
+    console.error("Usage lookup error:", error);
+    res.status(500).json({ error: "Usage lookup failed", details: error.message });
   }
-}
+});
 
-// Met Museum search function
-async function searchMetMuseum(query) {
+// -------- ANALYSIS JOBS --------
+app.get("/api/jobs/:id", async (req, res) => {
   try {
-    const response = await fetch(`/proxy/met/public/collection/v1/search?q=${encodeURIComponent(query)}&hasImages=true&isOnView=true`);
-    if (!response.ok) return null;
-    
-    const data = await response.json();
-    if (!data.objectIDs || data.objectIDs.length === 0) return null;
-    
-    // Get details for first result
-    const detailResponse = await fetch(`/proxy/met/public/collection/v1/objects/${data.objectIDs[0]}`);
-    if (!detailResponse.ok) return null;
-    
-    return await detailResponse.json();
+    const job = await jobQueue.get(req.params.id);
+    if (!job) {
+      return res.status(404).json({ error: "Job not found" });
+    }
+    res.json(job);
   } catch (error) {
-    return null;
+    console.error("Job lookup error:", error);
+    res.status(500).json({ error: "Job lookup failed", details: error.message });
   }
-}
+});
 
-// Harvard Art Museums search function
-async function searchHarvardArtwork(query) {
-  if (!process.env.VITE_HARVARD_ART_MUSEUMS_API_KEY) return null;
-  
+// Cancels a queued or running job, or removes a finished one
+app.delete("/api/jobs/:id", async (req, res) => {
   try {
-    const response = await fetch(
-      `/proxy/harvard/object?q=${encodeURIComponent(query)}&size=3&hasimage=1&fields=title,people,dated,culture,period,medium,classification,technique,description`
-    );
-    if (!response.ok) return null;
-    
-    const data = await response.json();
-    return data.records || [];
+    const job = await jobQueue.cancel(req.params.id);
+    if (!job) {
+      return res.status(404).json({ error: "Job not found" });
+    }
+    res.json(job);
   } catch (error) {
-    return null;
+    console.error("Job cancellation error:", error);
+    res.status(500).json({ error: "Job cancellation failed", details: error.message });
   }
-}
+});
 
-// Art Institute search function
-async function searchArtInstitute(query) {
+// -------- STREAMING VARIANT (Server-Sent Events) --------
+// Emits a `stage` event as each pipeline stage finishes, a `recall-source` event
+// as each recall source resolves, then a final `complete` (or `error`) event
+// carrying the same body the non-streaming endpoint returns.
+app.post("/api/analyze-comprehensive/stream", async (req, res) => {
+  const refresh = req.query.refresh === "true";
+  let image;
   try {
-    const response = await fetch(
-      `https://api.artic.edu/api/v1/artworks/search?q=${encodeURIComponent(query)}&limit=3&fields=id,title,artist_display,date_display,style_titles,medium_display,description,image_id`
-    );
-    if (!response.ok) return null;
-    
-    const data = await response.json();
-    return data.data || [];
+    image = await readRequestImage(req, res);
+    if (image && await rejectOverBudget(res, { imageBase64: image.imageBase64, refresh })) return;
   } catch (error) {
-    return null;
+    console.error("Streaming educational analysis error:", error);
+    return res.status(500).json({ error: "Could not read image", details: error.message });
   }
-}
+  if (!image) return;
+  const { imageBase64 } = image;
 
-// Color analysis helper functions
-function rgbToHex(rgb) {
-  const match = rgb.match(/rgb\((\d+),\s*(\d+),\s*(\d+)\)/);
-  if (!match) return '#000000';
-  
-  const r = parseInt(match[1]);
-  const g = parseInt(match[2]);
-  const b = parseInt(match[3]);
-  
-  return `#${((1 << 24) + (r << 16) + (g << 8) + b).toString(16).slice(1)}`;
-}
+  const stream = openEventStream(res);
 
-function getColorName(rgb) {
-  const match = rgb.match(/rgb\((\d+),\s*(\d+),\s*(\d+)\)/);
-  if (!match) return 'Unknown';
-  
-  const r = parseInt(match[1]);
-  const g = parseInt(match[2]);
-  const b = parseInt(match[3]);
-  
-  const hsl = rgbToHsl(r, g, b);
-  const { h, s, l } = hsl;
-  
-  if (s < 20) {
-    if (l > 80) return 'White';
-    if (l < 20) return 'Black';
-    return 'Gray';
-  }
-  
-  if (h < 15 || h > 345) return 'Red';
-  if (h < 45) return 'Orange';
-  if (h < 75) return 'Yellow';
-  if (h < 150) return 'Green';
-  if (h < 210) return 'Cyan';
-  if (h < 270) return 'Blue';
-  if (h < 330) return 'Purple';
-  return 'Pink';
-}
+  // Stop calling paid APIs once the client has gone away
+  const controller = new AbortController();
+  res.on("close", () => controller.abort());
 
-function rgbToHsl(r, g, b) {
-  r /= 255;
-  g /= 255;
-  b /= 255;
-  
-  const max = Math.max(r, g, b);
-  const min = Math.min(r, g, b);
-  let h = 0;
-  let s = 0;
-  const l = (max + min) / 2;
-  
-  if (max !== min) {
-    const d = max - min;
-    s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
-    
-    switch (max) {
-      case r: h = (g - b) / d + (g < b ? 6 : 0); break;
-      case g: h = (b - r) / d + 2; break;
-      case b: h = (r - g) / d + 4; break;
-    }
-    h /= 6;
+  try {
+    const result = await runComprehensiveAnalysis(imageBase64, {
+      refresh,
+      signal: controller.signal,
+      onProgress: (event, data) => stream.send(event, data)
+    });
+    stream.send('complete', { success: true, ...result });
+  } catch (error) {
+    console.error("Streaming educational analysis error:", error);
+    stream.send('error', {
+      success: false,
+      error: "Comprehensive educational analysis failed",
+      details: error.message
+    });
+  } finally {
+    stream.close();
   }
-  
-  return {
-    h: Math.round(h * 360),
-    s: Math.round(s * 100),
-    l: Math.round(l * 100)
-  };
-}
-
-function getEmotionalAssociation(color) {
-  const colorName = getColorName(color);
-  const associations = {
-    'Red': 'Passion, Energy',
-    'Blue': 'Calm, Trust',
-    'Green': 'Nature, Growth',
-    'Yellow': 'Joy, Optimism',
-    'Purple': 'Luxury, Mystery',
-    'Orange': 'Warmth, Enthusiasm',
-    'Pink': 'Gentleness, Love',
-    'Black': 'Power, Elegance',
-    'White': 'Purity, Simplicity',
-    'Gray': 'Balance, Neutrality'
-  };
-  return associations[colorName] || 'Complex emotions';
-}
-
-function getSymbolicMeaning(color) {
-  const colorName = getColorName(color);
-  const meanings = {
-    'Red': 'Energy, Power',
-    'Blue': 'Stability, Depth',
-    'Green': 'Harmony, Renewal',
-    'Yellow': 'Intellect, Creativity',
-    'Purple': 'Royalty, Spirituality',
-    'Orange': 'Vitality, Success',
-    'Pink': 'Compassion, Nurturing',
-    'Black': 'Mystery, Sophistication',
-    'White': 'Clarity, New Beginnings',
-    'Gray': 'Wisdom, Maturity'
-  };
-  return meanings[colorName] || 'Rich symbolism';
-}
-
-function getEducationalNote(color) {
-  const colorName = getColorName(color);
-  const notes = {
-    'Red': 'Creates visual emphasis and draws attention',
-    'Blue': 'Establishes depth and creates calm atmosphere',
-    'Green': 'Balances composition and suggests nature',
-    'Yellow': 'Adds energy and creates focal points',
-    'Purple': 'Conveys luxury and spiritual themes',
-    'Orange': 'Warms the composition and adds vitality',
-    'Pink': 'Softens harsh contrasts and adds warmth',
-    'Black': 'Creates strong contrast and defines shapes',
-    'White': 'Provides breathing room and highlights',
-    'Gray': 'Creates sophisticated neutral tones'
-  };
-  return notes[colorName] || 'Important compositional element';
-}
-
-function analyzeColorHarmony(colors) {
-  if (colors.length < 2) return 'Monochromatic harmony';
-  
-  const hues = colors.map(color => {
-    const match = color.match(/rgb\((\d+),\s*(\d+),\s*(\d+)\)/);
-    if (!match) return 0;
-    const r = parseInt(match[1]);
-    const g = parseInt(match[2]);
-    const b = parseInt(match[3]);
-    return rgbToHsl(r, g, b).h;
-  });
-  
-  const hueRange = Math.max(...hues) - Math.min(...hues);
-  
-  if (hueRange < 30) return 'Monochromatic harmony - creates unity and cohesion';
-  if (hueRange < 60) return 'Analogous harmony - colors work together harmoniously';
-  if (hueRange > 120 && hueRange < 180) return 'Complementary harmony - creates dynamic contrast';
-  return 'Complex color relationship - multiple harmonies working together';
-}
+});
 
-function analyzeEmotionalImpact(colors) {
-  const warmColors = colors.filter(color => {
-    const match = color.match(/rgb\((\d+),\s*(\d+),\s*(\d+)\)/);
-    if (!match) return false;
-    const r = parseInt(match[1]);
-    const g = parseInt(match[2]);
-    const b = parseInt(match[3]);
-    const hsl = rgbToHsl(r, g, b);
-    return hsl.h >= 0 && hsl.h <= 60 || hsl.h >= 300;
-  });
-  
-  if (warmColors.length > colors.length / 2) {
-    return 'Warm color palette creates energy, passion, and vitality';
-  } else {
-    return 'Cool color palette creates calm, peaceful, and serene feelings';
+// Runs the four-stage comprehensive pipeline (packages/core/src/pipeline.ts).
+// `onProgress(event, data)` is called with intermediate results so streaming
+// clients can render them as they arrive; aborting `signal` stops the run at the
+// next stage boundary. Results are served
+// from the analysis cache when a matching image was analyzed before, unless
+// `refresh` is set. Each stage record carries a `status` (ok, degraded, failed)
+// and a `reason`; a failing stage does not stop the stages after it. Once a
+// budget is spent the run uses the economy pipeline, or throws
+// BudgetExceededError when analyses are refused; cached results are served
+// either way, since they cost nothing.
+async function runComprehensiveAnalysis(imageBase64, { onProgress = () => {}, signal, refresh = false } = {}) {
+  const cached = analysisCache ? await analysisCache.lookup(imageBase64) : null;
+  if (cached?.entry && !refresh) {
+    console.log(`♻️  Serving cached analysis ${cached.entry.id} (distance ${cached.distance})`);
+    return {
+      ...cached.entry.bundle,
+      cache: {
+        hit: true,
+        key: cached.key,
+        matchedKey: cached.entry.id,
+        distance: cached.distance,
+        cachedAt: cached.entry.cachedAt,
+        expiresAt: cached.entry.expiresAt
+      },
+      cost: { ...costMeter.price({}), mode: 'cached' }
+    };
   }
-}
 
-function generateColorTheoryInsights(colors) {
-  const insights = [];
-  
-  if (colors.length >= 3) {
-    insights.push('Demonstrates sophisticated understanding of color relationships');
+  const budget = await costMeter.status();
+  if (budget.mode === 'refused') {
+    throw new BudgetExceededError(budget);
   }
-  
-  const hasWarmColors = colors.some(color => {
-    const match = color.match(/rgb\((\d+),\s*(\d+),\s*(\d+)\)/);
-    if (!match) return false;
-    const r = parseInt(match[1]);
-    const g = parseInt(match[2]);
-    const b = parseInt(match[3]);
-    const hsl = rgbToHsl(r, g, b);
-    return hsl.h >= 0 && hsl.h <= 60 || hsl.h >= 300;
-  });
-  
-  const hasCoolColors = colors.some(color => {
-    const match = color.match(/rgb\((\d+),\s*(\d+),\s*(\d+)\)/);
-    if (!match) return false;
-    const r = parseInt(match[1]);
-    const g = parseInt(match[2]);
-    const b = parseInt(match[3]);
-    const hsl = rgbToHsl(r, g, b);
-    return hsl.h > 60 && hsl.h < 300;
-  });
-  
-  if (hasWarmColors && hasCoolColors) {
-    insights.push('Strategic use of warm and cool colors creates visual tension and depth');
+  const pipeline = pipelines[budget.mode];
+  if (budget.mode === 'economy') {
+    console.log('💸 Budget spent, running the economy pipeline');
   }
-  
-  return insights;
-}
 
-// Additional helper functions for comprehensive recall
+  const trace = new Trace();
+  const result = { ...(await pipeline.run(imageBase64, { trace, onProgress, signal })), trace: trace.summary() };
+  // Not part of the cached result: serving it again costs nothing
+  const cost = { ...(await recordCost(trace)), mode: budget.mode };
 
-// Art Search API function
-async function searchArtSearch(query) {
-  if (!process.env.VITE_ARTSEARCH_API_KEY) {
-    return null;
+  // A failed stage is often a passing outage or a missing key; don't keep serving it
+  if (!analysisCache || result.stages.some(stage => stage.status === 'failed')) {
+    return { ...result, cost, cache: analysisCache ? { hit: false, key: cached.key } : { hit: false } };
   }
-  
+
   try {
-    const response = await fetch(`/proxy/artsearch/v1/search?query=${encodeURIComponent(query)}&limit=5`, {
-      headers: {
-        'X-API-KEY': process.env.VITE_ARTSEARCH_API_KEY
-      }
-    });
-    
-    if (!response.ok) return null;
-    
-    const data = await response.json();
-    return data.items || data.results || data.data || [];
+    const entry = await analysisCache.save(cached.key, result);
+    return { ...result, cost, cache: { hit: false, key: cached.key, cachedAt: entry.cachedAt, expiresAt: entry.expiresAt } };
   } catch (error) {
-    return null;
+    console.warn('Failed to cache analysis:', error.message);
+    return { ...result, cost, cache: { hit: false, key: cached.key } };
   }
 }
 
-// Texture analysis function
-async function performTextureAnalysis(visionData) {
-  // This would typically use a specialized texture analysis API
-  // For now, we'll create educational content based on visual cues
-  return {
-    textureTypes: ['Visible brushstrokes', 'Surface variation', 'Material texture'],
-    techniqueNotes: ['Impasto technique evident', 'Varied brushwork creates surface interest'],
-    educationalValue: ['Teaches about material properties', 'Shows how texture affects visual impact']
-  };
-}
-
-// Emotional analysis function
-async function performEmotionalAnalysis(visionData, initialInsights) {
-  const emotionalCues = [];
-  
-  // Analyze color mood
-  if (visionData.colors && visionData.colors.length > 0) {
-    const warmColors = visionData.colors.filter(color => {
-      const match = color.match(/rgb\((\d+),\s*(\d+),\s*(\d+)\)/);
-      if (!match) return false;
-      const r = parseInt(match[1]);
-      const g = parseInt(match[2]);
-      const b = parseInt(match[3]);
-      const hsl = rgbToHsl(r, g, b);
-      return hsl.h >= 0 && hsl.h <= 60 || hsl.h >= 300;
-    });
-    
-    if (warmColors.length > visionData.colors.length / 2) {
-      emotionalCues.push('Warm, energetic mood');
-    } else {
-      emotionalCues.push('Cool, contemplative mood');
-    }
-  }
-  
-  // Analyze composition for emotional impact
-  if (visionData.objects && visionData.objects.length > 0) {
-    emotionalCues.push('Complex composition suggests depth of meaning');
+// Adds the trace's usage to the budget ledgers and resolves with its cost. A
+// ledger that cannot be written is logged rather than failing the analysis.
+async function recordCost(trace) {
+  try {
+    return await costMeter.record(trace.providerUsage());
+  } catch (error) {
+    console.warn('Failed to record analysis cost:', error.message);
+    return costMeter.price(trace.providerUsage());
   }
-  
-  return {
-    dominantMood: emotionalCues[0] || 'Balanced emotional tone',
-    emotionalCues: emotionalCues,
-    psychologicalImpact: 'Invites contemplation and emotional engagement',
-    educationalValue: 'Teaches about color psychology and emotional expression in art'
-  };
-}
-
-// Learning resources generation
-async function generateLearningResources(visionData, initialInsights) {
-  return {
-    keyConcepts: [
-      'Visual composition principles',
-      'Color theory and psychology',
-      'Artistic technique and material use',
-      'Historical and cultural context'
-    ],
-    discussionPrompts: [
-      'What emotions does this artwork evoke in you?',
-      'How does the artist use color to create mood?',
-      'What techniques can you identify in the brushwork?',
-      'How does the composition guide your eye?'
-    ],
-    learningActivities: [
-      'Create a color study inspired by this artwork',
-      'Write a descriptive analysis of the composition',
-      'Research the historical period and artistic movement',
-      'Compare with other artworks from the same period'
-    ],
-    vocabulary: [
-      'Composition', 'Chiaroscuro', 'Color harmony', 'Brushwork', 'Perspective',
-      'Texture', 'Value', 'Form', 'Line', 'Space'
-    ]
-  };
 }
 
-// Find similar artworks function
-async function findSimilarArtworks(searchTerms) {
-  const similarArtworks = [];
-  
-  // Search multiple sources for similar artworks
-  const searchPromises = searchTerms.slice(0, 2).map(async (term) => {
-    try {
-      const [metResults, artInstituteResults] = await Promise.allSettled([
-        searchMetMuseum(term),
-        searchArtInstitute(term)
-      ]);
-      
-      const results = [];
-      if (metResults.status === 'fulfilled' && metResults.value) {
-        results.push({
-          title: metResults.value.title,
-          artist: metResults.value.artistDisplayName,
-          period: metResults.value.objectDate,
-          source: 'Metropolitan Museum of Art'
-        });
-      }
-      
-      if (artInstituteResults.status === 'fulfilled' && artInstituteResults.value) {
-        results.push(...artInstituteResults.value.slice(0, 2).map(artwork => ({
-          title: artwork.title,
-          artist: artwork.artist_display,
-          period: artwork.date_display,
-          source: 'Art Institute of Chicago'
-        })));
-      }
-      
-      return results;
-    } catch (error) {
-      return [];
-    }
-  });
-  
-  const allResults = await Promise.all(searchPromises);
-  similarArtworks.push(...allResults.flat());
-  
-  return similarArtworks.slice(0, 6); // Return top 6 similar artworks
-}
-
-async function generateFinalSynthesis(visionData, initialInsights, recallData) {
-  if (!process.env.VITE_OPENAI_API_KEY) {
-    throw new Error('OpenAI API key not configured');
-  }
-
-  const synthesisPrompt = `Create a comprehensive educational analysis that teaches students how to look at and understand art.
-
-Vision Data: ${JSON.stringify(visionData, null, 2)}
-Initial Insights: ${JSON.stringify(initialInsights, null, 2)}
-Recall Data: ${JSON.stringify(recallData, null, 2)}
-
-Generate a complete educational analysis in this JSON format:
-{
-  "styleAnalysis": {
-    "primaryStyle": "Artistic style name",
-    "styleCharacteristics": ["Characteristic 1", "Characteristic 2"],
-    "movementContext": "Historical movement context",
-    "stylisticInfluences": ["Influence 1", "Influence 2"],
-    "visualLanguage": "Description of visual language",
-    "educationalInsights": ["Educational insight 1", "Educational insight 2"]
-  },
-  "techniqueAnalysis": {
-    "primaryTechniques": ["Technique 1", "Technique 2"],
-    "materialProperties": ["Property 1", "Property 2"],
-    "applicationMethods": ["Method 1", "Method 2"],
-    "technicalInnovations": ["Innovation 1", "Innovation 2"],
-    "skillLevel": "Assessment of technical skill",
-    "educationalValue": ["Value 1", "Value 2"]
-  },
-  "themeAnalysis": {
-    "primaryThemes": ["Theme 1", "Theme 2"],
-    "symbolicElements": ["Element 1", "Element 2"],
-    "emotionalTone": "Description of emotional impact",
-    "culturalContext": "Cultural background",
-    "narrativeElements": ["Element 1", "Element 2"],
-    "interpretiveApproaches": ["Approach 1", "Approach 2"]
-  },
-  "mediumAnalysis": {
-    "primaryMedium": "Primary medium used",
-    "materialCharacteristics": ["Characteristic 1", "Characteristic 2"],
-    "historicalUsage": "Historical context of medium",
-    "technicalAdvantages": ["Advantage 1", "Advantage 2"],
-    "conservationNotes": ["Note 1", "Note 2"],
-    "educationalSignificance": ["Significance 1", "Significance 2"]
-  },
-  "colorAnalysis": {
-    "colorPalette": [
-      {
-        "hex": "#FF0000",
-        "name": "Red",
-        "percentage": 25,
-        "emotionalAssociation": "Passion",
-        "symbolicMeaning": "Energy",
-        "educationalNote": "Creates focal point"
-      }
-    ],
-    "colorHarmony": "Description of color relationships",
-    "emotionalImpact": "How colors affect mood",
-    "symbolicMeaning": ["Meaning 1", "Meaning 2"],
-    "colorTheory": ["Theory concept 1", "Theory concept 2"],
-    "educationalInsights": ["Insight 1", "Insight 2"]
-  },
-  "compositionAnalysis": {
-    "compositionalPrinciples": ["Principle 1", "Principle 2"],
-    "visualFlow": "How the eye moves through the composition",
-    "focalPoints": ["Point 1", "Point 2"],
-    "spatialRelationships": ["Relationship 1", "Relationship 2"],
-    "balanceAndRhythm": "Description of balance and rhythm",
-    "educationalApplications": ["Application 1", "Application 2"]
-  },
-  "reflectionQuestions": [
-    {
-      "category": "observation",
-      "question": "What do you notice first?",
-      "followUp": "What draws your eye next?",
-      "educationalGoal": "Develop observational skills"
-    }
-  ],
-  "learningObjectives": [
-    {
-      "skill": "Visual Analysis",
-      "description": "Learn to analyze visual elements",
-      "assessmentMethod": "Observation and discussion",
-      "difficulty": "beginner"
-    }
-  ],
-  "discussionPrompts": [
-    {
-      "topic": "Color and Mood",
-      "question": "How do the colors affect your emotional response?",
-      "context": "Understanding color psychology",
-      "suggestedResponses": ["Response 1", "Response 2"]
-    }
-  ],
-  "artisticMovements": [
-    {
-      "name": "Movement Name",
-      "timePeriod": "Time period",
-      "characteristics": ["Characteristic 1", "Characteristic 2"],
-      "keyArtists": ["Artist 1", "Artist 2"],
-      "culturalContext": "Cultural background",
-      "educationalRelevance": "Why this matters for learning"
-    }
-  ],
-  "visualElements": [
-    {
-      "element": "Line",
-      "description": "Description of line usage",
-      "educationalValue": "What students can learn",
-      "observationTips": ["Tip 1", "Tip 2"],
-      "relatedConcepts": ["Concept 1", "Concept 2"]
-    }
-  ],
-  "comparativeExamples": [
-    {
-      "title": "Example Title",
-      "artist": "Artist Name",
-      "similarity": "What's similar",
-      "contrast": "What's different",
-      "educationalValue": "Learning opportunity",
-      "imageUrl": "Optional image URL"
-    }
-  ],
-  "historicalContext": {
-    "timePeriod": "When this was created",
-    "culturalBackground": "Cultural context",
-    "artisticClimate": "Artistic environment",
-    "socialInfluences": ["Influence 1", "Influence 2"],
-    "educationalSignificance": "Why this matters for education"
-  },
-  "confidence": 0.85,
-  "sources": ["Google Vision", "OpenAI", "Wikipedia"],
-  "analysisStages": []
-}`;
-
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${process.env.VITE_OPENAI_API_KEY}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: 'gpt-4',
-      messages: [
-        {
-          role: 'system',
-          content: 'You are a master art educator creating comprehensive educational content. Generate engaging, educational analysis that teaches students how to look at art. Focus on style, technique, theme, and medium. Include reflection questions and learning objectives. Create content that encourages slow, thoughtful engagement with the artwork. Respond with valid JSON only.'
-        },
-        {
-          role: 'user',
-          content: synthesisPrompt
-        }
-      ],
-      max_tokens: 2000,
-      temperature: 0.4
-    })
-  });
-
-  if (!response.ok) {
-    throw new Error(`OpenAI API error: ${response.status}`);
-  }
-
-  const data = await response.json();
-  const content = data.choices[0]?.message?.content;
-  
-  if (!content) {
-    throw new Error('No content received from OpenAI');
-  }
-
-  return JSON.parse(content);
-}
+// Client errors raised before a route runs (a JSON body over the limit,
+// malformed JSON) would otherwise get Express's HTML error page
+app.use((error, req, res, next) => {
+  if (!error.expose || res.headersSent) return next(error);
+  const message = error.type === "entity.too.large" ? `Request body is larger than ${error.limit} bytes` : error.message;
+  res.status(error.status).json({ success: false, error: message });
+});
 
 // -------- START SERVER --------
-const PORT = process.env.PORT || 3000;
-app.listen(PORT, () => {
+// PORT=0 picks a free port
+const server = app.listen(process.env.PORT || 3000, (error) => {
+  if (error) throw error;
+  const PORT = server.address().port;
   console.log(`🚀 Educational Art Analysis server running on http://localhost:${PORT}`);
   console.log(`📚 Educational API endpoint: http://localhost:${PORT}/api/analyze-educational`);
+  console.log(`📡 Streaming analysis endpoint: http://localhost:${PORT}/api/analyze-comprehensive/stream`);
+  console.log(`🗂️  Analysis jobs: http://localhost:${PORT}/api/jobs/:id`);
 });
 
 
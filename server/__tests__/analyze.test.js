@@ -0,0 +1,92 @@
+import { afterAll, beforeAll, describe, expect, it } from "@jest/globals";
+import sharp from "sharp";
+import { startServer } from "./startServer.js";
+
+const fixtures = new URL("./fixtures/", import.meta.url).pathname;
+
+// Vision comes from the local provider's fixture; the interpretation LLM call and
+// every recall search are replayed from fixtures/http. Synthesis is rule-based,
+// since its prompt carries the measured palette and would tie the fixtures to
+// one build of sharp.
+let server;
+let image;
+
+beforeAll(async () => {
+  server = await startServer({
+    LOCAL_VISION_FIXTURE: `${fixtures}vision.json`,
+    HTTP_FIXTURE_DIR: `${fixtures}http`,
+    LLM_PROVIDER: "openai",
+    LLM_MODEL: "gpt-4o-mini",
+    LLM_SYNTHESIS_PROVIDER: "none",
+    VITE_OPENAI_API_KEY: "replay",
+    VITE_HARVARD_ART_MUSEUMS_API_KEY: "replay",
+    ANALYSIS_CACHE: "memory"
+  });
+  // A green field under a dark blue band
+  const band = await sharp({ create: { width: 640, height: 140, channels: 3, background: "#344662" } }).png().toBuffer();
+  image = await sharp({ create: { width: 640, height: 480, channels: 3, background: "#4a7056" } })
+    .composite([{ input: band, top: 0, left: 0 }])
+    .jpeg()
+    .toBuffer();
+});
+
+afterAll(() => server.stop());
+
+const analyze = (query = "") => {
+  const body = new FormData();
+  body.append("image", new Blob([image], { type: "image/jpeg" }), "pond.jpg");
+  return fetch(`${server.url}/api/analyze-comprehensive${query}`, { method: "POST", body });
+};
+
+describe("POST /api/analyze-comprehensive, replayed", () => {
+  it("runs every stage from recorded API responses", async () => {
+    const response = await analyze();
+    const result = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(result.success).toBe(true);
+    expect(result.stages.map(({ stage, status }) => [stage, status])).toEqual([
+      ["vision", "ok"],
+      ["interpretation", "ok"],
+      ["recall", "ok"],
+      ["synthesis", "ok"]
+    ]);
+    expect(result.stages[1].insights[0]).toMatch(/point to Impressionism$/);
+    expect(result.stages[2].insights).toEqual(expect.arrayContaining([
+      "Wikipedia: Painting",
+      "Met Museum: Bridge over a Pond of Water Lilies",
+      "Harvard Art Museums: 1 artwork",
+      "Art Institute of Chicago: 1 artwork"
+    ]));
+    expect(result.recallData.metMuseumData).toMatchObject({ objectID: 437127, artistDisplayName: "Claude Monet" });
+    expect(result.analysis.sources).toContain("Rule-based synthesis");
+    expect(result.cost).toMatchObject({
+      mode: "full",
+      providers: { openai: { requests: 1, promptTokens: 318, completionTokens: 291 }, met: { requests: 6 } }
+    });
+    expect(result.cache).toMatchObject({ hit: false, key: expect.stringMatching(/^dhash-/) });
+  });
+
+  it("serves the same image again from the cache", async () => {
+    const result = await (await analyze()).json();
+
+    expect(result.cache).toMatchObject({ hit: true, distance: 0 });
+    expect(result.cost).toMatchObject({ mode: "cached", totalUsd: 0 });
+    expect(result.stages).toHaveLength(4);
+  });
+
+  it("runs the analysis as a job that can be polled", async () => {
+    const response = await analyze("?async=true&refresh=true");
+    const { jobId, statusUrl } = await response.json();
+    expect(response.status).toBe(202);
+
+    let job;
+    for (let i = 0; i < 100 && job?.status !== "completed"; i++) {
+      await new Promise(resolve => setTimeout(resolve, 50));
+      job = await (await fetch(`${server.url}${statusUrl}`)).json();
+    }
+
+    expect(job).toMatchObject({ id: jobId, status: "completed", result: { cache: { hit: false } } });
+    expect(job.stages.map(stage => stage.status)).toEqual(["ok", "ok", "ok", "ok"]);
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, expect, it, jest } from "@jest/globals";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import sharp from "sharp";
+import { AnalysisCache, createAnalysisCache } from "../cache.js";
+import { FileStore, MemoryStore } from "../stores.js";
+
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+// A solid-colored PNG, as the base64 an upload arrives in
+async function image(r, g, b) {
+  const png = await sharp({ create: { width: 32, height: 32, channels: 3, background: { r, g, b } } }).png().toBuffer();
+  return png.toString("base64");
+}
+
+// The key of an image `bits` differing bits away
+const nearKey = (key, bits) => `dhash-${(BigInt(`0x${key.slice(6)}`) ^ BigInt(2 ** bits - 1)).toString(16).padStart(16, "0")}`;
+
+describe("MemoryStore", () => {
+  it("evicts the least recently used record once it is full", async () => {
+    const store = new MemoryStore({ maxRecords: 2 });
+    await store.save({ id: "a" });
+    await store.save({ id: "b" });
+    await store.get("a");
+    await store.save({ id: "c" });
+
+    expect((await store.list()).map(record => record.id)).toEqual(["a", "c"]);
+    expect(await store.get("b")).toBeNull();
+  });
+
+  it("counts saving an existing record as using it", async () => {
+    const store = new MemoryStore({ maxRecords: 2 });
+    await store.save({ id: "a" });
+    await store.save({ id: "b" });
+    await store.save({ id: "a", updated: true });
+    await store.save({ id: "c" });
+
+    expect((await store.list()).map(record => record.id)).toEqual(["a", "c"]);
+  });
+
+  it("is unbounded by default", async () => {
+    const store = new MemoryStore();
+    for (let id = 0; id < 1000; id++) await store.save({ id: String(id) });
+
+    expect(await store.list()).toHaveLength(1000);
+  });
+});
+
+describe("AnalysisCache", () => {
+  it("keeps at most ANALYSIS_CACHE_MAX_ENTRIES analyses in memory", async () => {
+    const cache = createAnalysisCache({ ANALYSIS_CACHE_MAX_ENTRIES: "2" });
+    await cache.save("dhash-00000000000000ff", {});
+    await cache.save("dhash-000000000000ff00", {});
+    await cache.save("dhash-0000000000ff0000", {});
+
+    expect((await cache.store.list()).map(entry => entry.id)).toEqual(["dhash-000000000000ff00", "dhash-0000000000ff0000"]);
+  });
+
+  it("returns a saved analysis for the same image", async () => {
+    const cache = createAnalysisCache({});
+    const imageBase64 = await image(200, 120, 40);
+    const { key } = await cache.lookup(imageBase64);
+    await cache.save(key, { title: "Sunflowers" });
+
+    await expect(cache.lookup(imageBase64)).resolves.toMatchObject({ key, distance: 0, entry: { bundle: { title: "Sunflowers" } } });
+  });
+
+  it("sweeps out expired entries", async () => {
+    const store = new MemoryStore();
+    const cache = new AnalysisCache(store, { ttlMs: 20, maxDistance: 0 });
+    await cache.save("dhash-0000000000000001", {});
+    await sleep(30);
+    await cache.save("dhash-0000000000000002", {});
+
+    await cache.sweep();
+
+    expect((await store.list()).map(entry => entry.id)).toEqual(["dhash-0000000000000002"]);
+  });
+
+  it("finds a near match without reading every stored entry", async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), "cache-"));
+    try {
+      const imageBase64 = await image(30, 60, 90);
+      const { key } = await createAnalysisCache({}).lookup(imageBase64);
+      const previous = new AnalysisCache(new FileStore(directory), { ttlMs: 60000, maxDistance: 4 });
+      await previous.save(nearKey(key, 2), { title: "Nearly" });
+      await previous.save(nearKey(key, 3), { title: "Further" });
+      await previous.save(nearKey(key, 12), { title: "Too far" });
+
+      // A restarted server reads the entries once, for its index
+      const store = new FileStore(directory);
+      const list = jest.spyOn(store, "list");
+      const cache = new AnalysisCache(store, { ttlMs: 60000, maxDistance: 4 });
+      await cache.index();
+      const get = jest.spyOn(store, "get");
+
+      await expect(cache.lookup(imageBase64)).resolves.toMatchObject({ key, distance: 2, entry: { bundle: { title: "Nearly" } } });
+      await cache.lookup(imageBase64);
+      expect(list).toHaveBeenCalledTimes(1);
+      expect(get.mock.calls.map(([id]) => id)).toEqual([nearKey(key, 2), nearKey(key, 2)]);
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  it("skips a near match the store has evicted", async () => {
+    const cache = createAnalysisCache({ ANALYSIS_CACHE_MAX_ENTRIES: "2" });
+    const imageBase64 = await image(120, 30, 60);
+    const { key } = await createAnalysisCache({}).lookup(imageBase64);
+    await cache.save(nearKey(key, 1), { title: "Evicted" });
+    await cache.save(nearKey(key, 2), { title: "Kept" });
+    await cache.save("dhash-ffffffffffffffff", {});
+
+    await expect(cache.lookup(imageBase64)).resolves.toMatchObject({ distance: 2, entry: { bundle: { title: "Kept" } } });
+    expect((await cache.index()).has(nearKey(key, 1))).toBe(false);
+  });
+});
@@ -0,0 +1,148 @@
+import { afterAll, beforeAll, describe, expect, it } from "@jest/globals";
+import sharp from "sharp";
+import { BudgetExceededError, createCostMeter } from "../costs.js";
+import { parseEvents, startServer } from "./startServer.js";
+
+const usage = {
+  google: { requests: 3, failedRequests: 1 },
+  openai: {
+    requests: 2,
+    failedRequests: 0,
+    promptTokens: 3000,
+    completionTokens: 1000,
+    models: { "gpt-4o-mini": { promptTokens: 2000, completionTokens: 500 }, "gpt-4": { promptTokens: 1000, completionTokens: 500 } }
+  },
+  met: { requests: 4, failedRequests: 0 }
+};
+
+const noon = new Date("2026-03-31T12:00:00Z");
+
+describe("CostMeter.price", () => {
+  it("prices requests per provider and tokens per model, skipping failures", () => {
+    const cost = createCostMeter({}).price(usage);
+
+    expect(cost.providers.google).toEqual({ requests: 3, failedRequests: 1, costUsd: 0.015 });
+    // gpt-4o-mini: 2 * 0.00015 + 0.5 * 0.0006; gpt-4: 1 * 0.03 + 0.5 * 0.06
+    expect(cost.providers.openai).toEqual({ requests: 2, promptTokens: 3000, completionTokens: 1000, costUsd: 0.0606 });
+    expect(cost.providers.met).toEqual({ requests: 4, costUsd: 0 });
+    expect(cost).toMatchObject({ currency: "USD", totalUsd: 0.0756 });
+  });
+
+  it("takes price overrides from the environment", () => {
+    const meter = createCostMeter({ COST_GOOGLE_PER_REQUEST: "0.01", COST_GPT_4O_MINI_PER_1K_PROMPT_TOKENS: "0.001", COST_MET_PER_REQUEST: "0.5" });
+    const cost = meter.price(usage);
+
+    expect(cost.providers.google.costUsd).toBe(0.02);
+    expect(cost.providers.openai.costUsd).toBe(0.0623);
+    expect(cost.providers.met.costUsd).toBe(2);
+  });
+});
+
+describe("CostMeter budgets", () => {
+  it("adds each analysis to the day's and the month's ledger", async () => {
+    const meter = createCostMeter({});
+    await meter.record(usage, noon);
+    await meter.record(usage, noon);
+    await meter.record(usage, new Date("2026-03-30T12:00:00Z"));
+
+    const { daily, monthly } = await meter.usage(noon);
+
+    expect(daily).toMatchObject({ period: "2026-03-31", analyses: 2, totalUsd: 0.1512 });
+    expect(daily.providers.google).toEqual({ requests: 6, failedRequests: 2, costUsd: 0.03 });
+    expect(monthly).toMatchObject({ period: "2026-03", analyses: 3, totalUsd: 0.2268 });
+  });
+
+  it("runs in full mode until a budget is spent, then in economy mode", async () => {
+    const meter = createCostMeter({ BUDGET_DAILY_USD: "0.1" });
+
+    await expect(meter.status(noon)).resolves.toMatchObject({ mode: "full", daily: { spentUsd: 0, limitUsd: 0.1, exceeded: false } });
+    await meter.record(usage, noon);
+    await meter.record(usage, noon);
+
+    const status = await meter.status(noon);
+    expect(status).toMatchObject({
+      mode: "economy",
+      daily: { exceeded: true, resetsAt: "2026-04-01T00:00:00.000Z" },
+      monthly: { limitUsd: null, exceeded: false, resetsAt: "2026-04-01T00:00:00.000Z" }
+    });
+    await expect(meter.status(new Date("2026-04-01T00:00:00Z"))).resolves.toMatchObject({ mode: "full" });
+  });
+
+  it("refuses analyses once a budget is spent in refuse mode", async () => {
+    const meter = createCostMeter({ BUDGET_MONTHLY_USD: "0.05", BUDGET_EXCEEDED_MODE: "refuse" });
+    await meter.record(usage, noon);
+
+    const status = await meter.status(noon);
+    expect(status).toMatchObject({ mode: "refused", monthly: { exceeded: true } });
+
+    const error = new BudgetExceededError(status);
+    expect(error.message).toBe("The monthly analysis budget has been spent");
+    expect(error.status).toBe(429);
+    expect(error.retryAt).toBe("2026-04-01T00:00:00.000Z");
+  });
+
+  it("rejects an unknown exceeded mode", () => {
+    expect(() => createCostMeter({ BUDGET_EXCEEDED_MODE: "panic" })).toThrow("Unknown BUDGET_EXCEEDED_MODE: panic");
+  });
+});
+
+describe("analysis routes once a budget is spent in refuse mode", () => {
+  const fixtures = new URL("./fixtures/", import.meta.url).pathname;
+  let server;
+  let analyzed;
+  let unseen;
+
+  // The first analysis replays the same API responses as analyze.test.js; its
+  // interpretation call alone spends the tiny daily budget
+  beforeAll(async () => {
+    server = await startServer({
+      LOCAL_VISION_FIXTURE: `${fixtures}vision.json`,
+      HTTP_FIXTURE_DIR: `${fixtures}http`,
+      LLM_PROVIDER: "openai",
+      LLM_MODEL: "gpt-4o-mini",
+      LLM_SYNTHESIS_PROVIDER: "none",
+      VITE_OPENAI_API_KEY: "replay",
+      VITE_HARVARD_ART_MUSEUMS_API_KEY: "replay",
+      ANALYSIS_CACHE: "memory",
+      BUDGET_DAILY_USD: "0.0001",
+      BUDGET_EXCEEDED_MODE: "refuse"
+    });
+    const field = (top, background) => sharp({ create: { width: 640, height: 480, channels: 3, background: "#4a7056" } })
+      .composite([{ input: { create: { width: top ? 640 : 200, height: top ? 140 : 480, channels: 3, background } }, top: 0, left: 0 }])
+      .jpeg()
+      .toBuffer();
+    analyzed = await field(true, "#344662");
+    unseen = await field(false, "#d8d0b0");
+  });
+
+  afterAll(() => server.stop());
+
+  const analyze = (image, path = "") => {
+    const body = new FormData();
+    body.append("image", new Blob([image], { type: "image/jpeg" }), "field.jpg");
+    return fetch(`${server.url}/api/analyze-comprehensive${path}`, { method: "POST", body });
+  };
+
+  it("serves an image analyzed before the budget ran out from the cache", async () => {
+    const first = await (await analyze(analyzed)).json();
+    expect(first.cost).toMatchObject({ mode: "full", totalUsd: expect.any(Number) });
+    expect(first.cost.totalUsd).toBeGreaterThan(0.0001);
+
+    const response = await analyze(analyzed);
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ cache: { hit: true }, cost: { mode: "cached", totalUsd: 0 } });
+
+    const stream = await analyze(analyzed, "/stream");
+    expect(stream.status).toBe(200);
+    expect(parseEvents(await stream.text()).at(-1)).toMatchObject({ event: "complete", data: { cache: { hit: true } } });
+  });
+
+  it("refuses an image it would have to analyze", async () => {
+    for (const [image, path] of [[unseen, ""], [unseen, "/stream"], [analyzed, "?refresh=true"]]) {
+      const response = await analyze(image, path);
+      expect(response.status).toBe(429);
+      expect(Number(response.headers.get("retry-after"))).toBeGreaterThan(0);
+      expect(await response.json()).toMatchObject({ success: false, error: "The daily analysis budget has been spent" });
+    }
+  });
+});
@@ -0,0 +1,114 @@
+import { afterAll, beforeAll, describe, expect, it } from "@jest/globals";
+import express from "express";
+import sharp from "sharp";
+import { createImageUpload, ImageError, prepareImage } from "../images.js";
+
+const solid = (width, height, options = {}) =>
+  sharp({ create: { width, height, channels: options.channels || 3, background: options.background || "#4a7056" } });
+
+const decode = imageBase64 => Buffer.from(imageBase64.split(",")[1], "base64");
+
+describe("prepareImage", () => {
+  it("applies the EXIF orientation and strips every bit of metadata", async () => {
+    const photo = await solid(300, 200)
+      .withExif({ IFD0: { Make: "PhoneCo", Model: "Pocket 9" }, IFD3: { GPSLatitudeRef: "N", GPSLongitudeRef: "W" } })
+      .withMetadata({ orientation: 6 })
+      .jpeg()
+      .toBuffer();
+    expect(photo.toString("latin1")).toContain("PhoneCo");
+
+    const prepared = await prepareImage(photo, {});
+    const output = decode(prepared.imageBase64);
+    const metadata = await sharp(output).metadata();
+
+    expect(prepared).toMatchObject({ width: 200, height: 300, original: { format: "jpeg", width: 200, height: 300, bytes: photo.length } });
+    expect(prepared.imageBase64).toMatch(/^data:image\/jpeg;base64,/);
+    expect(metadata).toMatchObject({ format: "jpeg", width: 200, height: 300 });
+    expect(metadata.exif).toBeUndefined();
+    expect(metadata.orientation).toBeUndefined();
+    expect(output.toString("latin1")).not.toContain("PhoneCo");
+  });
+
+  it("shrinks the image to IMAGE_MAX_DIMENSION and flattens transparency onto white", async () => {
+    const png = await solid(800, 400, { channels: 4, background: { r: 0, g: 0, b: 0, alpha: 0 } }).png().toBuffer();
+
+    const prepared = await prepareImage(png, { IMAGE_MAX_DIMENSION: "200" });
+    const { data } = await sharp(decode(prepared.imageBase64)).raw().toBuffer({ resolveWithObject: true });
+
+    expect(prepared).toMatchObject({ width: 200, height: 100, original: { format: "png", width: 800, height: 400 } });
+    expect(Math.min(...data)).toBeGreaterThan(250);
+  });
+
+  const rejects = async (buffer, env, status, message) => {
+    const error = await prepareImage(buffer, env).catch(caught => caught);
+    expect(error).toBeInstanceOf(ImageError);
+    expect(error).toMatchObject({ status, message: expect.stringMatching(message) });
+  };
+
+  it("rejects empty and oversized data", async () => {
+    const jpeg = await solid(100, 100).jpeg().toBuffer();
+
+    await rejects(Buffer.alloc(0), {}, 400, /^Image data is empty$/);
+    await rejects(jpeg, { UPLOAD_MAX_BYTES: String(jpeg.length - 1) }, 413, /^Image is larger than \d+ bytes$/);
+  });
+
+  it("rejects data that is not an accepted image format", async () => {
+    await rejects(Buffer.from("not an image at all"), {}, 415, /^Could not decode image/);
+    await rejects(await solid(100, 100).gif().toBuffer(), {}, 415, /^Unsupported image format gif/);
+  });
+
+  it("rejects images that are too small or have too many pixels", async () => {
+    await rejects(await solid(40, 300).jpeg().toBuffer(), {}, 422, /at least 64px on each side \(got 40x300\)/);
+    await rejects(await solid(1000, 1000).jpeg().toBuffer(), { IMAGE_MAX_PIXELS: "500000" }, 422, /more than 500000 pixels/);
+  });
+});
+
+describe("createImageUpload", () => {
+  let server;
+  let url;
+
+  beforeAll(async () => {
+    const app = express();
+    const receive = createImageUpload({ UPLOAD_MAX_BYTES: "20000" });
+    app.post("/upload", async (req, res) => {
+      try {
+        await receive(req, res);
+        res.json({ bytes: req.file?.size ?? null });
+      } catch (error) {
+        res.status(error.status).json({ error: error.message });
+      }
+    });
+    await new Promise(resolve => (server = app.listen(0, resolve)));
+    url = `http://localhost:${server.address().port}/upload`;
+  });
+
+  afterAll(() => new Promise(resolve => server.close(resolve)));
+
+  const upload = (bytes, type) => {
+    const body = new FormData();
+    body.append("image", new Blob([bytes], { type }), "upload");
+    return fetch(url, { method: "POST", body });
+  };
+
+  it("reads an image field into memory", async () => {
+    const jpeg = await solid(100, 100).jpeg().toBuffer();
+    const response = await upload(jpeg, "image/jpeg");
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ bytes: jpeg.length });
+  });
+
+  it("stops reading a file over UPLOAD_MAX_BYTES", async () => {
+    const response = await upload(Buffer.alloc(30000), "image/jpeg");
+
+    expect(response.status).toBe(413);
+    expect(await response.json()).toEqual({ error: "Image is larger than 20000 bytes" });
+  });
+
+  it("refuses declared types that are not images", async () => {
+    const response = await upload(Buffer.from("%PDF-1.7"), "application/pdf");
+
+    expect(response.status).toBe(415);
+    expect((await response.json()).error).toMatch(/^Unsupported image type application\/pdf/);
+  });
+});
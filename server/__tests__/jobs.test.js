@@ -0,0 +1,192 @@
+import { afterEach, describe, expect, it, jest } from "@jest/globals";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { JobQueue } from "../jobs.js";
+import { FileStore, MemoryStore } from "../stores.js";
+
+const queues = [];
+const createQueue = (store = new MemoryStore(), options = {}) => {
+  const queue = new JobQueue(store, options);
+  queues.push(queue);
+  return queue;
+};
+
+afterEach(() => {
+  queues.splice(0).forEach(queue => clearInterval(queue.sweeper));
+});
+
+// A task that runs until the test settles it. `task.started` resolves with the
+// options it was called with.
+const deferredTask = () => {
+  let start;
+  const task = ({ signal, onProgress }) => {
+    start();
+    Object.assign(task, { signal, onProgress });
+    return new Promise((resolve, reject) => Object.assign(task, { resolve, reject }));
+  };
+  task.started = new Promise(resolve => (start = resolve));
+  return task;
+};
+
+const waitFor = async (queue, id, status) => {
+  for (let i = 0; i < 100; i++) {
+    const job = await queue.get(id);
+    if (job?.status === status) return job;
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+  throw new Error(`Job ${id} never became ${status}`);
+};
+
+describe("JobQueue", () => {
+  it("runs a job to completion, recording its progress", async () => {
+    const queue = createQueue();
+    const task = deferredTask();
+    const job = await queue.enqueue(task);
+
+    await task.started;
+    expect((await queue.get(job.id)).status).toBe("running");
+    task.onProgress("stage", { stage: "vision", status: "ok", data: { labels: ["tree"] } });
+    task.onProgress("recall-source", { source: "met", data: [{ title: "Cypresses" }] });
+    task.onProgress("recall-source", { source: "harvard", data: null });
+    task.resolve({ analysis: "done" });
+
+    const finished = await waitFor(queue, job.id, "completed");
+    expect(finished.result).toEqual({ analysis: "done" });
+    expect(finished.stages).toEqual([{ stage: "vision", status: "ok" }]);
+    expect(finished.recallSources).toEqual(["met"]);
+  });
+
+  it("fails a job whose task throws", async () => {
+    const queue = createQueue();
+    const job = await queue.enqueue(async () => {
+      throw new Error("Vision providers unavailable");
+    });
+
+    await expect(waitFor(queue, job.id, "failed")).resolves.toMatchObject({ error: "Vision providers unavailable" });
+  });
+
+  it("runs at most `concurrency` jobs at once", async () => {
+    const queue = createQueue(new MemoryStore(), { concurrency: 1 });
+    const first = deferredTask();
+    const second = deferredTask();
+    const firstJob = await queue.enqueue(first);
+    const secondJob = await queue.enqueue(second);
+
+    await first.started;
+    expect((await queue.get(secondJob.id)).status).toBe("queued");
+
+    first.resolve({});
+    await second.started;
+    expect((await queue.get(secondJob.id)).status).toBe("running");
+  });
+
+  it("cancels a queued job before it starts", async () => {
+    const queue = createQueue(new MemoryStore(), { concurrency: 1 });
+    const first = deferredTask();
+    const second = deferredTask();
+    const started = jest.fn();
+    second.started.then(started);
+    await queue.enqueue(first);
+    const queued = await queue.enqueue(second);
+
+    await expect(queue.cancel(queued.id)).resolves.toMatchObject({ status: "cancelled" });
+    first.resolve({});
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    expect(started).not.toHaveBeenCalled();
+    expect((await queue.get(queued.id)).status).toBe("cancelled");
+  });
+
+  it("aborts a running job and keeps it cancelled when its task settles", async () => {
+    const queue = createQueue();
+    const task = deferredTask();
+    const job = await queue.enqueue(task);
+    await task.started;
+
+    await queue.cancel(job.id);
+    expect(task.signal.aborted).toBe(true);
+    task.onProgress("stage", { stage: "vision", status: "ok" });
+    task.resolve({ analysis: "too late" });
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    expect(await queue.get(job.id)).toMatchObject({ status: "cancelled", result: null, stages: [] });
+  });
+
+  it("removes a finished job when it is cancelled", async () => {
+    const queue = createQueue();
+    const job = await queue.enqueue(async () => ({}));
+    await waitFor(queue, job.id, "completed");
+
+    await expect(queue.cancel(job.id)).resolves.toMatchObject({ status: "completed" });
+    expect(await queue.get(job.id)).toBeNull();
+    expect(await queue.cancel("no-such-job")).toBeNull();
+  });
+
+  it("fails jobs a previous process left queued or running", async () => {
+    const store = new MemoryStore();
+    await store.save({ id: "queued", status: "queued" });
+    await store.save({ id: "running", status: "running" });
+    await store.save({ id: "completed", status: "completed", result: {} });
+
+    await createQueue(store).recover();
+
+    expect(await store.get("queued")).toMatchObject({ status: "failed", error: "Interrupted by server restart" });
+    expect(await store.get("running")).toMatchObject({ status: "failed" });
+    expect(await store.get("completed")).toMatchObject({ status: "completed" });
+  });
+
+  it("sweeps finished jobs once their TTL has run out", async () => {
+    const store = new MemoryStore();
+    const longAgo = new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString();
+    const recently = new Date().toISOString();
+    await store.save({ id: "old-completed", status: "completed", updatedAt: longAgo });
+    await store.save({ id: "old-cancelled", status: "cancelled", updatedAt: longAgo });
+    await store.save({ id: "old-running", status: "running", updatedAt: longAgo });
+    await store.save({ id: "new-failed", status: "failed", updatedAt: recently });
+
+    await createQueue(store, { ttlMs: 60 * 60 * 1000 }).sweep();
+
+    expect((await store.list()).map(job => job.id).sort()).toEqual(["new-failed", "old-running"]);
+  });
+
+  it("saves a job's writes in order, so slow progress cannot overwrite the final status", async () => {
+    // The third save, the progress write, is slower than the one after it
+    const store = new MemoryStore();
+    const save = store.save.bind(store);
+    let saves = 0;
+    store.save = async record => {
+      saves += 1;
+      if (saves === 3) await new Promise(resolve => setTimeout(resolve, 30));
+      return save(record);
+    };
+    const queue = createQueue(store);
+    const task = deferredTask();
+    await queue.enqueue(task);
+    await task.started;
+
+    task.onProgress("stage", { stage: "vision", status: "ok" });
+    task.resolve({});
+    await new Promise(resolve => setTimeout(resolve, 60));
+
+    expect((await store.list())[0].status).toBe("completed");
+  });
+});
+
+describe("FileStore job records", () => {
+  it("survives a restart and treats ids that cannot name a record as missing", async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), "jobs-"));
+    try {
+      const queue = createQueue(new FileStore(directory));
+      const job = await queue.enqueue(async () => ({ analysis: "kept" }));
+      await waitFor(queue, job.id, "completed");
+
+      const restarted = createQueue(new FileStore(directory));
+      expect(await restarted.get(job.id)).toMatchObject({ status: "completed", result: { analysis: "kept" } });
+      expect(await restarted.get("../../etc/passwd")).toBeNull();
+      expect(await restarted.cancel("not a job id")).toBeNull();
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
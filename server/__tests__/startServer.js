@@ -0,0 +1,60 @@
+// Runs server.js in a child process for route tests
+// The server starts offline: the local vision provider, no LLM, no analysis
+// cache, and outbound HTTP served only from recorded fixtures. `env` overrides
+// any of it. Needs packages/core built (`npm test` does that first).
+
+import { spawn } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+const root = new URL("../..", import.meta.url).pathname;
+
+export async function startServer(env = {}) {
+  const emptyFixtures = fs.mkdtempSync(path.join(os.tmpdir(), "server-fixtures-"));
+  const child = spawn(process.execPath, ["server.js"], {
+    cwd: root,
+    env: {
+      PATH: process.env.PATH,
+      PORT: "0",
+      VISION_PROVIDERS: "local",
+      LLM_PROVIDER: "none",
+      ANALYSIS_CACHE: "off",
+      HTTP_FIXTURE_MODE: "replay",
+      HTTP_FIXTURE_DIR: emptyFixtures,
+      ...env
+    },
+    stdio: ["ignore", "pipe", "pipe"]
+  });
+
+  let output = "";
+  const url = await new Promise((resolve, reject) => {
+    child.stdout.on("data", chunk => {
+      output += chunk;
+      const match = output.match(/running on (http:\/\/localhost:\d+)/);
+      if (match) resolve(match[1]);
+    });
+    child.stderr.on("data", chunk => (output += chunk));
+    child.on("exit", code => reject(new Error(`server.js exited with ${code}:\n${output}`)));
+  });
+
+  return {
+    url,
+    output: () => output,
+    stop: () => new Promise(resolve => {
+      fs.rmSync(emptyFixtures, { recursive: true, force: true });
+      if (child.exitCode !== null) return resolve();
+      child.once("exit", resolve);
+      child.kill();
+    })
+  };
+}
+
+// Splits a Server-Sent Events body into `{ event, data }` messages
+export function parseEvents(text) {
+  return text.split("\n\n").filter(Boolean).map(block => {
+    const event = block.match(/^event: (.*)$/m)?.[1];
+    const data = block.match(/^data: (.*)$/m)?.[1];
+    return { event, data: data && JSON.parse(data) };
+  });
+}
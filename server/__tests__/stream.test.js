@@ -0,0 +1,53 @@
+import { afterAll, beforeAll, describe, expect, it } from "@jest/globals";
+import sharp from "sharp";
+import { parseEvents, startServer } from "./startServer.js";
+
+let server;
+let photo;
+
+beforeAll(async () => {
+  server = await startServer({ UPLOAD_MAX_BYTES: String(8 * 1024 * 1024) });
+  // Noise compresses about as badly as a phone photo: a few megabytes
+  photo = await sharp({ create: { width: 3000, height: 2000, channels: 3, noise: { type: "gaussian", mean: 128, sigma: 40 } } })
+    .jpeg({ quality: 85 })
+    .toBuffer();
+});
+
+afterAll(() => server.stop());
+
+const analyze = body => fetch(`${server.url}/api/analyze-comprehensive/stream`, {
+  method: "POST",
+  headers: body instanceof FormData ? {} : { "Content-Type": "application/json" },
+  body
+});
+
+describe("POST /api/analyze-comprehensive/stream", () => {
+  it("streams the analysis of a photo uploaded as a file", async () => {
+    expect(photo.length).toBeGreaterThan(2 * 1024 * 1024);
+    const body = new FormData();
+    body.append("image", new Blob([photo], { type: "image/jpeg" }), "photo.jpg");
+
+    const response = await analyze(body);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toBe("text/event-stream");
+    const events = parseEvents(await response.text());
+    expect(events.filter(({ event }) => event === "stage").map(({ data }) => data.stage))
+      .toEqual(["vision", "interpretation", "recall", "synthesis"]);
+    expect(events.at(-1)).toMatchObject({ event: "complete", data: { success: true } });
+  });
+
+  it("streams the analysis of a photo sent as a JSON data URL", async () => {
+    const response = await analyze(JSON.stringify({ imageBase64: `data:image/jpeg;base64,${photo.toString("base64")}` }));
+
+    expect(response.status).toBe(200);
+    expect(parseEvents(await response.text()).at(-1)).toMatchObject({ event: "complete", data: { success: true } });
+  });
+
+  it("answers a JSON body over the upload limit with a JSON 413", async () => {
+    const response = await analyze(JSON.stringify({ imageBase64: "A".repeat(12 * 1024 * 1024) }));
+
+    expect(response.status).toBe(413);
+    expect(await response.json()).toMatchObject({ success: false, error: expect.stringMatching(/^Request body is larger than \d+ bytes$/) });
+  });
+});
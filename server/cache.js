@@ -0,0 +1,174 @@
+// Content-addressed analysis cache
+// Entries are keyed by a perceptual hash of the image (a 64-bit difference hash),
+// so resized or recompressed copies of the same artwork land on the same entry.
+// Lookups accept hashes within ANALYSIS_CACHE_MAX_DISTANCE differing bits.
+// The memory cache holds at most ANALYSIS_CACHE_MAX_ENTRIES analyses and evicts
+// the least recently used; expired entries are swept out periodically.
+// Near matches are found in an in-memory index of every entry's hash and expiry,
+// read from the store once, so only the matching entry itself is ever loaded.
+
+import path from "path";
+import { createHash } from "crypto";
+import sharp from "sharp";
+import { FileStore, MemoryStore } from "./stores.js";
+
+// How often expired entries are swept out, at most
+const SWEEP_INTERVAL_MS = 10 * 60 * 1000;
+
+export function createAnalysisCache(env = process.env) {
+  const options = {
+    ttlMs: Number(env.ANALYSIS_CACHE_TTL_MS) || 7 * 24 * 60 * 60 * 1000,
+    maxDistance: env.ANALYSIS_CACHE_MAX_DISTANCE !== undefined ? Number(env.ANALYSIS_CACHE_MAX_DISTANCE) : 4
+  };
+
+  switch (env.ANALYSIS_CACHE || "memory") {
+    case "off":
+      return null;
+    case "memory":
+      return new AnalysisCache(new MemoryStore({ maxRecords: Number(env.ANALYSIS_CACHE_MAX_ENTRIES) || 200 }), options);
+    case "file":
+      return new AnalysisCache(new FileStore(env.ANALYSIS_CACHE_DIR || path.resolve("data/cache")), options);
+    default:
+      throw new Error(`Unknown ANALYSIS_CACHE: ${env.ANALYSIS_CACHE}`);
+  }
+}
+
+export class AnalysisCache {
+  constructor(store, { ttlMs, maxDistance }) {
+    this.store = store;
+    this.ttlMs = ttlMs;
+    this.maxDistance = maxDistance;
+    // Entry id (the image hash) -> expiry in ms, see index()
+    this.expiries = null;
+    this.index().catch(err => console.warn("Cache index failed to load:", err));
+
+    // Otherwise an expired entry stays stored until a lookup happens to read it
+    this.sweeper = setInterval(() => {
+      this.sweep().catch(err => console.warn("Cache sweep failed:", err));
+    }, Math.min(ttlMs, SWEEP_INTERVAL_MS));
+    this.sweeper.unref();
+  }
+
+  // Reads every stored entry once, at startup, and keeps only its id and
+  // expiry; save and delete keep the index current from then on. A failed read
+  // is tried again on the next lookup.
+  index() {
+    this.expiries ??= this.store.list().then(
+      entries => new Map(entries.map(entry => [entry.id, Date.parse(entry.expiresAt)])),
+      error => {
+        this.expiries = null;
+        throw error;
+      }
+    );
+    return this.expiries;
+  }
+
+  // Resolves with `{ key, entry, distance }`; `entry` is null on a miss
+  async lookup(imageBase64) {
+    const key = await imageHash(imageBase64);
+    const index = await this.index();
+
+    let entry = null;
+    let distance = 0;
+    if (index.has(key)) {
+      const stored = await this.store.get(key);
+      if (!stored) index.delete(key);
+      entry = await this.live(stored);
+    }
+
+    // Byte hashes (undecodable images) only ever match exactly
+    if (!entry && this.maxDistance > 0 && key.startsWith("dhash-")) {
+      const now = Date.now();
+      const candidates = [...index]
+        .filter(([id, expiresAt]) => id.startsWith("dhash-") && expiresAt > now)
+        .map(([id]) => ({ id, distance: hammingDistance(key, id) }))
+        .filter(candidate => candidate.distance <= this.maxDistance)
+        .sort((a, b) => a.distance - b.distance);
+
+      // The nearest first; one the store has already evicted is skipped.
+      // Reading through the store counts the match as used.
+      for (const candidate of candidates) {
+        const stored = await this.store.get(candidate.id);
+        if (!stored) index.delete(candidate.id);
+        entry = await this.live(stored);
+        if (entry) {
+          distance = candidate.distance;
+          break;
+        }
+      }
+    }
+
+    return { key, entry, distance };
+  }
+
+  async save(key, bundle) {
+    const now = Date.now();
+    const index = await this.index();
+    const entry = await this.store.save({
+      id: key,
+      cachedAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + this.ttlMs).toISOString(),
+      bundle
+    });
+    index.set(key, now + this.ttlMs);
+    return entry;
+  }
+
+  // Drops the entry if its TTL has run out
+  async live(entry) {
+    if (!entry) return null;
+    if (Date.parse(entry.expiresAt) > Date.now()) return entry;
+    await this.delete(entry.id);
+    return null;
+  }
+
+  async delete(id) {
+    await this.store.delete(id);
+    (await this.index()).delete(id);
+  }
+
+  async sweep() {
+    const now = Date.now();
+    const index = await this.index();
+    await Promise.all([...index]
+      .filter(([, expiresAt]) => expiresAt <= now)
+      .map(([id]) => this.delete(id)));
+  }
+}
+
+// 64-bit difference hash: shrink to 9x8 grayscale and record whether each pixel
+// is brighter than its right-hand neighbor. Falls back to a SHA-256 of the bytes
+// when the data cannot be decoded as an image.
+export async function imageHash(imageBase64) {
+  const base64Content = imageBase64.includes(",") ? imageBase64.split(",")[1] : imageBase64;
+  const buffer = Buffer.from(base64Content, "base64");
+
+  try {
+    const pixels = await sharp(buffer)
+      .rotate()
+      .grayscale()
+      .resize(9, 8, { fit: "fill" })
+      .raw()
+      .toBuffer();
+
+    let hash = 0n;
+    for (let y = 0; y < 8; y++) {
+      for (let x = 0; x < 8; x++) {
+        hash = (hash << 1n) | (pixels[y * 9 + x] > pixels[y * 9 + x + 1] ? 1n : 0n);
+      }
+    }
+    return `dhash-${hash.toString(16).padStart(16, "0")}`;
+  } catch {
+    return `sha256-${createHash("sha256").update(buffer).digest("hex")}`;
+  }
+}
+
+function hammingDistance(a, b) {
+  let diff = BigInt(`0x${a.slice(6)}`) ^ BigInt(`0x${b.slice(6)}`);
+  let count = 0;
+  while (diff > 0n) {
+    count += Number(diff & 1n);
+    diff >>= 1n;
+  }
+  return count;
+}
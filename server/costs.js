@@ -0,0 +1,191 @@
+// Cost and quota accounting
+// Every analysis runs inside a trace (packages/core/src/trace.ts) that counts
+// requests and LLM tokens per provider. The meter prices that usage, adds it to a
+// daily and a monthly ledger, and compares the ledgers with BUDGET_DAILY_USD and
+// BUDGET_MONTHLY_USD. Once either budget is spent, analyses run in economy mode
+// or are refused, depending on BUDGET_EXCEEDED_MODE. Periods are in UTC.
+
+import path from "path";
+import { FileStore, MemoryStore } from "./stores.js";
+
+// Estimated list prices in USD. Vision APIs bill per image (Google's price
+// covers the five features the pipeline asks for); LLMs bill per 1,000 tokens,
+// by model. Anything not listed, such as the museum APIs or a self-hosted LLM,
+// is treated as free. See pricesFrom for overrides.
+const DEFAULT_PRICES = {
+  clarifai: { perRequest: 0.0012 },
+  google: { perRequest: 0.0075 },
+  microsoft: { perRequest: 0.001 },
+  "gpt-4": { per1kPromptTokens: 0.03, per1kCompletionTokens: 0.06 },
+  "gpt-4-turbo": { per1kPromptTokens: 0.01, per1kCompletionTokens: 0.03 },
+  "gpt-4o": { per1kPromptTokens: 0.0025, per1kCompletionTokens: 0.01 },
+  "gpt-4o-mini": { per1kPromptTokens: 0.00015, per1kCompletionTokens: 0.0006 },
+  "gpt-3.5-turbo": { per1kPromptTokens: 0.0005, per1kCompletionTokens: 0.0015 }
+};
+
+const PRICE_SETTINGS = {
+  perRequest: "PER_REQUEST",
+  per1kPromptTokens: "PER_1K_PROMPT_TOKENS",
+  per1kCompletionTokens: "PER_1K_COMPLETION_TOKENS"
+};
+
+const EXCEEDED_MODES = ["economy", "refuse"];
+
+export class BudgetExceededError extends Error {
+  constructor(budget) {
+    const spent = [budget.daily, budget.monthly].filter(period => period.exceeded);
+    super(`The ${spent.map(period => period.name).join(" and ")} analysis budget has been spent`);
+    this.name = "BudgetExceededError";
+    this.status = 429;
+    this.budget = budget;
+    // The latest reset, since every spent budget has to reset first
+    this.retryAt = spent.map(period => period.resetsAt).sort().pop();
+  }
+}
+
+export function createCostMeter(env = process.env) {
+  const exceededMode = env.BUDGET_EXCEEDED_MODE || "economy";
+  if (!EXCEEDED_MODES.includes(exceededMode)) {
+    throw new Error(`Unknown BUDGET_EXCEEDED_MODE: ${exceededMode}`);
+  }
+
+  const options = {
+    prices: pricesFrom(env),
+    dailyLimitUsd: env.BUDGET_DAILY_USD ? Number(env.BUDGET_DAILY_USD) : null,
+    monthlyLimitUsd: env.BUDGET_MONTHLY_USD ? Number(env.BUDGET_MONTHLY_USD) : null,
+    exceededMode
+  };
+
+  switch (env.USAGE_STORE || "memory") {
+    case "memory":
+      return new CostMeter(new MemoryStore(), options);
+    case "file":
+      return new CostMeter(new FileStore(env.USAGE_STORE_DIR || path.resolve("data/usage")), options);
+    default:
+      throw new Error(`Unknown USAGE_STORE: ${env.USAGE_STORE}`);
+  }
+}
+
+// Any price can be set with COST_<NAME>_PER_REQUEST, COST_<NAME>_PER_1K_PROMPT_TOKENS
+// or COST_<NAME>_PER_1K_COMPLETION_TOKENS, where NAME is a provider or model in
+// upper case with other characters as "_", e.g. COST_GPT_4O_MINI_PER_1K_PROMPT_TOKENS
+function pricesFrom(env) {
+  const prices = structuredClone(DEFAULT_PRICES);
+  Object.entries(env).forEach(([variable, value]) => {
+    const match = variable.match(/^COST_(.+)_(PER_REQUEST|PER_1K_PROMPT_TOKENS|PER_1K_COMPLETION_TOKENS)$/);
+    if (!match) return;
+    const field = Object.keys(PRICE_SETTINGS).find(key => PRICE_SETTINGS[key] === match[2]);
+    const name = Object.keys(prices).find(key => settingName(key) === match[1]) || match[1].toLowerCase();
+    prices[name] = { ...prices[name], [field]: Number(value) };
+  });
+  return prices;
+}
+
+const settingName = (name) => name.toUpperCase().replace(/[^A-Z0-9]/g, "_");
+
+const roundUsd = (value) => Math.round(value * 1e6) / 1e6;
+
+const dayOf = (date) => date.toISOString().slice(0, 10);
+const monthOf = (date) => date.toISOString().slice(0, 7);
+
+export class CostMeter {
+  constructor(store, { prices, dailyLimitUsd, monthlyLimitUsd, exceededMode }) {
+    this.store = store;
+    this.prices = prices;
+    this.dailyLimitUsd = dailyLimitUsd;
+    this.monthlyLimitUsd = monthlyLimitUsd;
+    this.exceededMode = exceededMode;
+    // Ledger updates are read-modify-write, so they run one at a time
+    this.pending = Promise.resolve();
+  }
+
+  // Estimated cost of a trace's provider usage (see Trace.providerUsage).
+  // Failed requests are not billed; tokens are priced by model, falling back to
+  // the provider's price.
+  price(providerUsage) {
+    const providers = {};
+    let totalUsd = 0;
+    Object.entries(providerUsage).forEach(([name, usage]) => {
+      const price = this.prices[name] || {};
+      let costUsd = (usage.requests - usage.failedRequests) * (price.perRequest || 0);
+      Object.entries(usage.models || {}).forEach(([model, tokens]) => {
+        const tokenPrice = this.prices[model] || price;
+        costUsd += (tokens.promptTokens / 1000) * (tokenPrice.per1kPromptTokens || 0);
+        costUsd += (tokens.completionTokens / 1000) * (tokenPrice.per1kCompletionTokens || 0);
+      });
+      totalUsd += costUsd;
+      providers[name] = {
+        requests: usage.requests,
+        ...(usage.failedRequests ? { failedRequests: usage.failedRequests } : {}),
+        ...(usage.promptTokens ? { promptTokens: usage.promptTokens } : {}),
+        ...(usage.completionTokens ? { completionTokens: usage.completionTokens } : {}),
+        costUsd: roundUsd(costUsd)
+      };
+    });
+    return { currency: "USD", totalUsd: roundUsd(totalUsd), providers };
+  }
+
+  // Prices the usage, adds it to today's and this month's ledgers, and resolves
+  // with the cost breakdown
+  async record(providerUsage, now = new Date()) {
+    const cost = this.price(providerUsage);
+    const update = this.pending.then(() => Promise.all([
+      this.addToLedger(`day-${dayOf(now)}`, dayOf(now), cost),
+      this.addToLedger(`month-${monthOf(now)}`, monthOf(now), cost)
+    ]));
+    this.pending = update.catch(() => {});
+    await update;
+    return cost;
+  }
+
+  async addToLedger(id, period, cost) {
+    const ledger = (await this.store.get(id)) || { id, period, analyses: 0, totalUsd: 0, providers: {} };
+    ledger.analyses += 1;
+    ledger.totalUsd = roundUsd(ledger.totalUsd + cost.totalUsd);
+    Object.entries(cost.providers).forEach(([name, usage]) => {
+      const total = (ledger.providers[name] ||= {});
+      Object.entries(usage).forEach(([key, value]) => {
+        total[key] = key === "costUsd" ? roundUsd((total[key] || 0) + value) : (total[key] || 0) + value;
+      });
+    });
+    return this.store.save(ledger);
+  }
+
+  // Today's and this month's ledgers
+  async usage(now = new Date()) {
+    const [daily, monthly] = await Promise.all([
+      this.store.get(`day-${dayOf(now)}`),
+      this.store.get(`month-${monthOf(now)}`)
+    ]);
+    return {
+      daily: daily || { period: dayOf(now), analyses: 0, totalUsd: 0, providers: {} },
+      monthly: monthly || { period: monthOf(now), analyses: 0, totalUsd: 0, providers: {} }
+    };
+  }
+
+  // Spending against each budget, and the mode the next analysis runs in:
+  // "full", "economy" or "refused"
+  async status(now = new Date()) {
+    const { daily, monthly } = await this.usage(now);
+    const tomorrow = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1));
+    const nextMonth = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+    const budget = (name, ledger, limitUsd, resetsAt) => ({
+      name,
+      period: ledger.period,
+      spentUsd: ledger.totalUsd,
+      limitUsd,
+      exceeded: limitUsd !== null && ledger.totalUsd >= limitUsd,
+      resetsAt: resetsAt.toISOString()
+    });
+
+    const status = {
+      daily: budget("daily", daily, this.dailyLimitUsd, tomorrow),
+      monthly: budget("monthly", monthly, this.monthlyLimitUsd, nextMonth)
+    };
+    const exceeded = status.daily.exceeded || status.monthly.exceeded;
+    return {
+      mode: !exceeded ? "full" : this.exceededMode === "refuse" ? "refused" : "economy",
+      ...status
+    };
+  }
+}
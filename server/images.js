@@ -0,0 +1,118 @@
+// Image intake and preprocessing
+// Every image is decoded and re-encoded before it reaches a vision provider:
+// orientation is applied from EXIF, all metadata (including GPS) is dropped, and
+// the result is a JPEG capped at IMAGE_MAX_DIMENSION. Providers then get a copy
+// downscaled to their own limits (see fitImageToLimits in packages/core).
+//
+// Uploads arrive as multipart/form-data with the file in an `image` field;
+// JSON bodies with an `imageBase64` data URL are still accepted.
+
+import multer from "multer";
+import sharp from "sharp";
+import { decodeBase64Image, ImageError } from "../packages/core/dist/index.js";
+
+export { decodeBase64Image, ImageError };
+
+// Declared upload types; the decoded content is checked again in prepareImage
+const ACCEPTED_TYPES = ["image/jpeg", "image/png", "image/webp", "image/heic", "image/heif"];
+const ACCEPTED_FORMATS = ["jpeg", "png", "webp", "heif"];
+
+const imageLimits = (env) => ({
+  maxBytes: Number(env.UPLOAD_MAX_BYTES) || 20 * 1024 * 1024,
+  maxPixels: Number(env.IMAGE_MAX_PIXELS) || 50_000_000,
+  minDimension: Number(env.IMAGE_MIN_DIMENSION) || 64,
+  maxDimension: Number(env.IMAGE_MAX_DIMENSION) || 4096
+});
+
+// Largest JSON body to accept: an `imageBase64` data URL of an image at the
+// upload limit, which base64 makes a third larger, plus room for other fields
+export function jsonBodyLimit(env = process.env) {
+  return Math.ceil(imageLimits(env).maxBytes * 4 / 3) + 64 * 1024;
+}
+
+// Returns `receive(req, res)`, which resolves once a multipart `image` field (if
+// any) has been read into `req.file`. Other content types pass straight through.
+export function createImageUpload(env = process.env) {
+  const { maxBytes } = imageLimits(env);
+  const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: maxBytes, files: 1 },
+    fileFilter: (req, file, callback) => {
+      if (!ACCEPTED_TYPES.includes(file.mimetype)) {
+        callback(new ImageError(`Unsupported image type ${file.mimetype}; use JPEG, PNG, HEIC or WebP`, 415));
+        return;
+      }
+      callback(null, true);
+    }
+  }).single("image");
+
+  return (req, res) => new Promise((resolve, reject) => {
+    upload(req, res, (error) => {
+      if (!error) return resolve();
+      if (error instanceof ImageError) return reject(error);
+      if (error.code === "LIMIT_FILE_SIZE") {
+        return reject(new ImageError(`Image is larger than ${maxBytes} bytes`, 413));
+      }
+      reject(new ImageError(`Upload failed: ${error.message}`));
+    });
+  });
+}
+
+// Validates and normalizes an uploaded image. Resolves with
+// `{ imageBase64, width, height, bytes, original: { format, width, height, bytes } }`
+// where `imageBase64` is a JPEG data URL with no metadata.
+export async function prepareImage(buffer, env = process.env) {
+  const { maxBytes, maxPixels, minDimension, maxDimension } = imageLimits(env);
+
+  if (buffer.length === 0) {
+    throw new ImageError("Image data is empty");
+  }
+  if (buffer.length > maxBytes) {
+    throw new ImageError(`Image is larger than ${maxBytes} bytes`, 413);
+  }
+
+  let metadata;
+  try {
+    metadata = await sharp(buffer, { limitInputPixels: false }).metadata();
+  } catch (error) {
+    // Prebuilt sharp binaries decode AVIF but not HEVC-encoded HEIC
+    throw new ImageError(`Could not decode image: ${error.message}`, 415);
+  }
+
+  if (!ACCEPTED_FORMATS.includes(metadata.format)) {
+    throw new ImageError(`Unsupported image format ${metadata.format}; use JPEG, PNG, HEIC or WebP`, 415);
+  }
+
+  // EXIF orientations 5-8 swap width and height
+  const swapped = metadata.orientation >= 5;
+  const width = swapped ? metadata.height : metadata.width;
+  const height = swapped ? metadata.width : metadata.height;
+
+  if (Math.min(width, height) < minDimension) {
+    throw new ImageError(`Image must be at least ${minDimension}px on each side (got ${width}x${height})`, 422);
+  }
+  if (width * height > maxPixels) {
+    throw new ImageError(`Image has more than ${maxPixels} pixels (got ${width}x${height})`, 422);
+  }
+
+  let output;
+  try {
+    // sharp drops EXIF, ICC and XMP metadata unless asked to keep it
+    output = await sharp(buffer)
+      .rotate()
+      .resize(maxDimension, maxDimension, { fit: "inside", withoutEnlargement: true })
+      .flatten({ background: "#ffffff" })
+      .jpeg({ quality: 90 })
+      .toBuffer({ resolveWithObject: true });
+  } catch (error) {
+    throw new ImageError(`Could not decode image: ${error.message}`, 415);
+  }
+
+  return {
+    imageBase64: `data:image/jpeg;base64,${output.data.toString("base64")}`,
+    width: output.info.width,
+    height: output.info.height,
+    bytes: output.data.length,
+    original: { format: metadata.format, width, height, bytes: buffer.length }
+  };
+}
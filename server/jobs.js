@@ -0,0 +1,154 @@
+// Asynchronous analysis jobs
+// A job wraps one pipeline run so clients can enqueue it, poll its progress and
+// cancel it without holding an HTTP request open. Job records live in a store;
+// any object with async get/save/delete/list methods can replace the built-in ones.
+
+import path from "path";
+import { randomUUID } from "crypto";
+import { FileStore, MemoryStore } from "./stores.js";
+
+// -------- STORES --------
+export function createJobStore(env = process.env) {
+  switch (env.JOB_STORE || "memory") {
+    case "memory":
+      return new MemoryStore();
+    case "file":
+      return new FileStore(env.JOB_STORE_DIR || path.resolve("data/jobs"));
+    default:
+      throw new Error(`Unknown JOB_STORE: ${env.JOB_STORE}`);
+  }
+}
+
+// -------- QUEUE --------
+const FINISHED_STATUSES = ["completed", "failed", "cancelled"];
+
+export class JobQueue {
+  constructor(store, { concurrency = 2, ttlMs = 60 * 60 * 1000 } = {}) {
+    this.store = store;
+    this.concurrency = concurrency;
+    this.ttlMs = ttlMs;
+    this.pending = [];
+    this.running = new Map();
+    // The last store write queued for each job, see update()
+    this.writes = new Map();
+
+    // Finished jobs are kept for polling until their TTL runs out
+    this.sweeper = setInterval(() => {
+      this.sweep().catch(err => console.warn("Job sweep failed:", err));
+    }, Math.min(ttlMs, 60 * 1000));
+    this.sweeper.unref();
+  }
+
+  // Jobs left queued or running by a previous process can never finish
+  async recover() {
+    const jobs = await this.store.list();
+    await Promise.all(jobs
+      .filter(job => !FINISHED_STATUSES.includes(job.status))
+      .map(job => this.update(job, { status: "failed", error: "Interrupted by server restart" })));
+  }
+
+  // `task({ signal, onProgress })` performs the work and resolves with the job result
+  async enqueue(task) {
+    const now = new Date().toISOString();
+    const job = await this.store.save({
+      id: randomUUID(),
+      status: "queued",
+      createdAt: now,
+      updatedAt: now,
+      stages: [],
+      recallSources: [],
+      result: null,
+      error: null
+    });
+
+    this.pending.push({ id: job.id, task });
+    this.drain();
+    return job;
+  }
+
+  async get(id) {
+    return this.store.get(id);
+  }
+
+  // Cancels a queued or running job; finished jobs are removed instead
+  async cancel(id) {
+    const job = await this.store.get(id);
+    if (!job) return null;
+
+    if (FINISHED_STATUSES.includes(job.status)) {
+      await this.store.delete(id);
+      return job;
+    }
+
+    this.pending = this.pending.filter(entry => entry.id !== id);
+    this.running.get(id)?.abort();
+    return this.update(job, { status: "cancelled" });
+  }
+
+  drain() {
+    while (this.running.size < this.concurrency && this.pending.length > 0) {
+      const { id, task } = this.pending.shift();
+      const controller = new AbortController();
+      this.running.set(id, controller);
+
+      this.run(id, task, controller.signal)
+        .catch(err => console.warn(`Job ${id} bookkeeping failed:`, err))
+        .finally(() => {
+          this.running.delete(id);
+          this.drain();
+        });
+    }
+  }
+
+  async run(id, task, signal) {
+    let job = await this.store.get(id);
+    if (!job || job.status !== "queued") return;
+
+    job = await this.update(job, { status: "running" });
+
+    const onProgress = (event, data) => {
+      if (signal.aborted) return;
+      if (event === "stage") {
+        const { data: _stageData, ...stage } = data;
+        job.stages = [...job.stages, stage];
+      } else if (event === "recall-source" && data.data) {
+        job.recallSources = [...job.recallSources, data.source];
+      }
+      this.update(job, {}).catch(err => console.warn(`Job ${id} progress update failed:`, err));
+    };
+
+    try {
+      const result = await task({ signal, onProgress });
+      if (signal.aborted) return;
+      await this.update(job, { status: "completed", result, stages: result.stages || job.stages });
+    } catch (error) {
+      if (signal.aborted) return;
+      console.error(`Job ${id} failed:`, error);
+      await this.update(job, { status: "failed", error: error.message });
+    }
+  }
+
+  // Writes for one job are saved one after another, in the order they were
+  // made, so a slow progress write cannot land on top of the final status
+  async update(job, changes) {
+    Object.assign(job, changes, { updatedAt: new Date().toISOString() });
+    const previous = this.writes.get(job.id) || Promise.resolve();
+    const write = previous.then(() => this.store.save({ ...job }));
+    // The next write waits for this one whether or not it succeeds
+    const settled = write.then(() => {}, () => {});
+    this.writes.set(job.id, settled);
+    settled.then(() => {
+      if (this.writes.get(job.id) === settled) this.writes.delete(job.id);
+    });
+    await write;
+    return job;
+  }
+
+  async sweep() {
+    const cutoff = Date.now() - this.ttlMs;
+    const jobs = await this.store.list();
+    await Promise.all(jobs
+      .filter(job => FINISHED_STATUSES.includes(job.status) && Date.parse(job.updatedAt) < cutoff)
+      .map(job => this.store.delete(job.id)));
+  }
+}
@@ -0,0 +1,97 @@
+// Record stores shared by the job queue and the analysis cache
+// Both only need async get/save/delete/list over records with an `id`, so any
+// backend offering those four methods (a SQLite table, Redis, ...) can be swapped in.
+
+import fs from "fs/promises";
+import path from "path";
+
+// `maxRecords` bounds the store: once it is full, each save evicts the least
+// recently read or saved record
+export class MemoryStore {
+  constructor({ maxRecords = Infinity } = {}) {
+    this.records = new Map();
+    this.maxRecords = maxRecords;
+  }
+
+  // A Map iterates in insertion order, so re-inserting a record marks it as the
+  // most recently used and the first key is always the least
+  async get(id) {
+    const record = this.records.get(id);
+    if (!record) return null;
+    this.records.delete(id);
+    this.records.set(id, record);
+    return record;
+  }
+
+  async save(record) {
+    this.records.delete(record.id);
+    this.records.set(record.id, record);
+    while (this.records.size > this.maxRecords) {
+      this.records.delete(this.records.keys().next().value);
+    }
+    return record;
+  }
+
+  async delete(id) {
+    this.records.delete(id);
+  }
+
+  async list() {
+    return [...this.records.values()];
+  }
+}
+
+// Keeps one JSON file per record so data survives a server restart
+export class FileStore {
+  constructor(directory) {
+    this.directory = directory;
+  }
+
+  // IDs are UUIDs or hashes; anything else, including ids that could escape
+  // the directory, cannot name a record
+  static validId(id) {
+    return typeof id === "string" && /^[a-zA-Z0-9-]+$/.test(id);
+  }
+
+  filePath(id) {
+    if (!FileStore.validId(id)) {
+      throw new Error(`Invalid record id: ${id}`);
+    }
+    return path.join(this.directory, `${id}.json`);
+  }
+
+  async get(id) {
+    if (!FileStore.validId(id)) return null;
+    try {
+      return JSON.parse(await fs.readFile(this.filePath(id), "utf8"));
+    } catch (error) {
+      if (error.code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  async save(record) {
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(this.filePath(record.id), JSON.stringify(record));
+    return record;
+  }
+
+  async delete(id) {
+    if (!FileStore.validId(id)) return;
+    await fs.rm(this.filePath(id), { force: true });
+  }
+
+  async list() {
+    let files = [];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch (error) {
+      if (error.code === "ENOENT") return [];
+      throw error;
+    }
+    const records = await Promise.all(
+      files.filter(file => file.endsWith(".json")).map(file => this.get(file.replace(/\.json$/, "")))
+    );
+    return records.filter(Boolean);
+  }
+}
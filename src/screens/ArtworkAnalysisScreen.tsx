@@ -13,314 +13,310 @@ import {
   Alert,
 } from 'react-native';
 import Icon from 'react-native-vector-icons/MaterialIcons';
+import { AnalysisRequestError } from '../../packages/core/src/client';
+import type {
+  CompositionMeasures,
+  ComprehensiveAnalysisResponse,
+  ComprehensiveEducationalAnalysis,
+  ImagePoint,
+  ImageRegion,
+  RecallData,
+  RegionReference,
+  StageRecord,
+  TextureHeatmap,
+  TraceCall,
+} from '../../packages/core/src/types';
+import { SelectedImage, uploadImageForAnalysis } from '../services/imageUpload';
+import { getServerUrl, serverUrlProblem } from '../services/serverSettings';
+import { demoImageSource, getDemoArtwork } from '../services/demoLibrary';
 
 interface ArtworkAnalysisScreenProps {
   navigation: any;
   route: {
+    // Either a picked image to analyze live, or the id of a bundled demo artwork
     params: {
-      imageUri: string;
+      image?: SelectedImage;
+      demoId?: string;
     };
   };
 }
 
-interface EducationalAnalysis {
-  styleAnalysis: {
-    primaryStyle: string;
-    styleCharacteristics: string[];
-    movementContext: string;
-    stylisticInfluences: string[];
-    visualLanguage: string;
-    educationalInsights: string[];
-  };
-  techniqueAnalysis: {
-    primaryTechniques: string[];
-    materialProperties: string[];
-    applicationMethods: string[];
-    technicalInnovations: string[];
-    skillLevel: string;
-    educationalValue: string[];
-  };
-  themeAnalysis: {
-    primaryThemes: string[];
-    symbolicElements: string[];
-    emotionalTone: string;
-    culturalContext: string;
-    narrativeElements: string[];
-    interpretiveApproaches: string[];
-  };
-  mediumAnalysis: {
-    primaryMedium: string;
-    materialCharacteristics: string[];
-    historicalUsage: string;
-    technicalAdvantages: string[];
-    conservationNotes: string[];
-    educationalSignificance: string[];
-  };
-  colorAnalysis: {
-    colorPalette: Array<{
-      hex: string;
-      name: string;
-      percentage: number;
-      emotionalAssociation: string;
-      symbolicMeaning: string;
-      educationalNote: string;
-    }>;
-    colorHarmony: string;
-    emotionalImpact: string;
-    symbolicMeaning: string[];
-    colorTheory: string[];
-    educationalInsights: string[];
-  };
-  compositionAnalysis: {
-    compositionalPrinciples: string[];
-    visualFlow: string;
-    focalPoints: string[];
-    spatialRelationships: string[];
-    balanceAndRhythm: string[];
-    educationalApplications: string[];
-  };
-  reflectionQuestions: Array<{
-    category: 'observation' | 'interpretation' | 'connection' | 'technique';
-    question: string;
-    followUp?: string;
-    educationalGoal: string;
-  }>;
-  learningObjectives: Array<{
-    skill: string;
-    description: string;
-    assessmentMethod: string;
-    difficulty: 'beginner' | 'intermediate' | 'advanced';
-  }>;
-  discussionPrompts: Array<{
-    topic: string;
-    question: string;
-    context: string;
-    suggestedResponses: string[];
-  }>;
-  artisticMovements: Array<{
-    name: string;
-    timePeriod: string;
-    characteristics: string[];
-    keyArtists: string[];
-    culturalContext: string;
-    educationalRelevance: string;
-  }>;
-  visualElements: Array<{
-    element: string;
-    description: string;
-    educationalValue: string;
-    observationTips: string[];
-    relatedConcepts: string[];
-  }>;
-  comparativeExamples: Array<{
-    title: string;
-    artist: string;
-    similarity: string;
-    contrast: string;
-    educationalValue: string;
-    imageUrl?: string;
-  }>;
-  historicalContext: {
-    timePeriod: string;
-    culturalBackground: string;
-    artisticClimate: string;
-    socialInfluences: string[];
-    educationalSignificance: string;
-  };
-  confidence: number;
-  sources: string[];
-  analysisStages: Array<{
-    stage: 'vision' | 'interpretation' | 'recall' | 'synthesis';
-    description: string;
-    apisUsed: string[];
-    insights: string[];
-    timestamp: Date;
-  }>;
+interface AnalysisProgress {
+  // Fraction of the image uploaded, 0-1
+  upload: number;
+  retryMessage: string | null;
+  visionLabels: string[];
+  initialInsights: string[];
+  recallSources: string[];
 }
 
+const RECALL_SOURCE_NAMES: { [key: string]: string } = {
+  colorAnalysis: 'Color analysis',
+  wikipediaData: 'Wikipedia',
+  metMuseumData: 'Met Museum',
+  harvardData: 'Harvard Art Museums',
+  artInstituteData: 'Art Institute of Chicago',
+  artSearchData: 'Art Search',
+  textureAnalysis: 'Texture analysis',
+  compositionAnalysis: 'Composition analysis',
+  emotionalAnalysis: 'Emotional analysis',
+  learningResources: 'Learning resources',
+  similarArtworks: 'Similar artworks',
+};
+
+const STAGE_NAMES: { [key: string]: string } = {
+  vision: 'Image analysis',
+  interpretation: 'First impressions',
+  recall: 'Background research',
+  synthesis: 'Educational write-up',
+};
+
+const formatDuration = (ms: number) => (ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`);
+
+// Slowest first, so providers holding up a stage are at the top
+const byDuration = (calls: TraceCall[] = []) => [...calls].sort((a, b) => b.durationMs - a.durationMs);
+
+// Largest frame with the image's aspect ratio that fits the usual image square,
+// so region boxes line up with the picture
+const imageFrame = (aspect: number) => {
+  const side = Math.min(width * 0.8, 300);
+  return aspect >= 1 ? { width: side, height: side / aspect } : { width: side * aspect, height: side };
+};
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
 const ArtworkAnalysisScreen: React.FC<ArtworkAnalysisScreenProps> = ({ navigation, route }) => {
-  const { imageUri } = route.params;
+  const { image, demoId } = route.params;
+  const demoArtwork = demoId ? getDemoArtwork(demoId) : undefined;
+  const imageSource = demoArtwork ? demoImageSource(demoArtwork) : { uri: image?.uri };
   const [loading, setLoading] = useState(true);
-  const [educationalAnalysis, setEducationalAnalysis] = useState<EducationalAnalysis | null>(null);
+  const [educationalAnalysis, setEducationalAnalysis] = useState<ComprehensiveEducationalAnalysis | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [retryable, setRetryable] = useState(false);
+  // Bumped by the retry button to run the analysis again
+  const [attempt, setAttempt] = useState(0);
+  const [stageIssues, setStageIssues] = useState<StageRecord[]>([]);
+  const [stageTimings, setStageTimings] = useState<StageRecord[]>([]);
+  const [showDetails, setShowDetails] = useState(false);
+  // Objects and faces located in the image, and where the analysis mentions them
+  const [regions, setRegions] = useState<ImageRegion[]>([]);
+  const [regionReferences, setRegionReferences] = useState<RegionReference[]>([]);
+  const [selectedRegionId, setSelectedRegionId] = useState<string | null>(null);
+  // Where the surface has the most fine detail, drawn over the artwork on request
+  const [textureHeatmap, setTextureHeatmap] = useState<TextureHeatmap | null>(null);
+  const [showTexture, setShowTexture] = useState(false);
+  // Focal points, dominant lines and balance measured on the image, drawn as guides
+  const [composition, setComposition] = useState<CompositionMeasures | null>(null);
+  const [showComposition, setShowComposition] = useState(false);
+  const [imageAspect, setImageAspect] = useState<number | null>(
+    image?.width && image?.height ? image.width / image.height : null
+  );
   const [activeTab, setActiveTab] = useState<'overview' | 'style' | 'technique' | 'theme' | 'color' | 'composition' | 'questions'>('overview');
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
   const [showAnswer, setShowAnswer] = useState(false);
+  const [progress, setProgress] = useState<AnalysisProgress>({
+    upload: 0,
+    retryMessage: null,
+    visionLabels: [],
+    initialInsights: [],
+    recallSources: [],
+  });
+
+  // The picker usually reports the image size; otherwise read it from the file
+  useEffect(() => {
+    if (imageAspect || !image) return;
+    Image.getSize(image.uri, (imageWidth, imageHeight) => setImageAspect(imageWidth / imageHeight), () => {});
+  }, [image, imageAspect]);
 
   useEffect(() => {
+    // Demo artworks come with their analysis, so there is nothing to upload
+    if (demoArtwork || !image) {
+      setEducationalAnalysis(demoArtwork?.analysis ?? null);
+      setError(demoArtwork ? null : 'No image was selected.');
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    let abortStream: (() => void) | null = null;
+
     const analyzeArtwork = async () => {
       try {
         setLoading(true);
         setError(null);
+        setEducationalAnalysis(null);
+        setStageIssues([]);
+        setStageTimings([]);
+        setRegions([]);
+        setRegionReferences([]);
+        setSelectedRegionId(null);
+        setTextureHeatmap(null);
+        setComposition(null);
+        setProgress({ upload: 0, retryMessage: null, visionLabels: [], initialInsights: [], recallSources: [] });
         
-        // Call the comprehensive educational analysis service
-        const response = await fetch('http://localhost:3000/api/analyze-comprehensive', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            imageBase64: imageUri
-          })
-        });
+        const serverUrl = await getServerUrl();
+        if (cancelled) return;
 
-        if (!response.ok) {
-          throw new Error(`Analysis failed: ${response.status}`);
+        // Android would block the request without saying why
+        const urlProblem = serverUrlProblem(serverUrl);
+        if (urlProblem) {
+          setRetryable(false);
+          setError(`${urlProblem}. Change the server address in Settings.`);
+          return;
         }
 
-        const data = await response.json();
-        
+        // Upload the image and stream the comprehensive educational analysis so partial results show up as each stage finishes
+        const data = await new Promise<ComprehensiveAnalysisResponse>((resolve, reject) => {
+          abortStream = uploadImageForAnalysis(
+            `${serverUrl}/api/analyze-comprehensive/stream`,
+            image,
+            {
+              onUploadProgress: (fraction) => {
+                setProgress(current => ({ ...current, upload: fraction }));
+              },
+              onRetry: (attempt, maxAttempts) => {
+                setProgress(current => ({
+                  ...current,
+                  upload: 0,
+                  retryMessage: `Upload failed, retrying (attempt ${attempt} of ${maxAttempts})...`,
+                }));
+              },
+              onStage: (stage) => {
+                if (stage.stage === 'vision') {
+                  setProgress(current => ({ ...current, visionLabels: stage.data.labels?.slice(0, 8) || [] }));
+                  setRegions(stage.data.regions || []);
+                } else if (stage.stage === 'interpretation') {
+                  const insights = [
+                    ...(stage.data.styleInsights || []),
+                    ...(stage.data.themeInsights || []),
+                  ];
+                  setProgress(current => ({ ...current, initialInsights: insights.slice(0, 4) }));
+                }
+              },
+              onRecallSource: (source, result) => {
+                if (!result) return;
+                setProgress(current => ({ ...current, recallSources: [...current.recallSources, source] }));
+                if (source === 'textureAnalysis') {
+                  setTextureHeatmap((result as RecallData['textureAnalysis'])?.heatmap ?? null);
+                } else if (source === 'compositionAnalysis') {
+                  setComposition((result as RecallData['compositionAnalysis'])?.measures ?? null);
+                }
+              },
+              onComplete: resolve,
+              onError: reject,
+            }
+          );
+        });
+
+        if (cancelled) return;
+
         if (!data.success) {
-          throw new Error(data.error || 'Analysis failed');
+          throw new Error('Analysis failed');
         }
 
         setEducationalAnalysis(data.analysis);
+        setStageIssues(data.stages.filter(stage => stage.status && stage.status !== 'ok'));
+        setStageTimings(data.stages.filter(stage => stage.durationMs !== undefined));
+        setRegions(data.visionData?.combined?.regions || []);
+        setRegionReferences(data.regionReferences || []);
+        setTextureHeatmap(data.recallData?.textureAnalysis?.heatmap ?? null);
+        setComposition(data.recallData?.compositionAnalysis?.measures ?? null);
         
       } catch (error) {
-        console.warn('API analysis failed, using mock data:', error);
-        
-        // Fallback to mock data if API fails
-        const mockAnalysis: EducationalAnalysis = {
-          styleAnalysis: {
-            primaryStyle: "Impressionist",
-            styleCharacteristics: ["Visible brushstrokes", "Light and color emphasis", "Outdoor scenes"],
-            movementContext: "19th century French art movement",
-            stylisticInfluences: ["Realism", "Japanese prints", "Photography"],
-            visualLanguage: "Captures fleeting moments of light and atmosphere",
-            educationalInsights: ["Shows how artists broke from traditional techniques", "Demonstrates the importance of light in painting"]
-          },
-          techniqueAnalysis: {
-            primaryTechniques: ["Alla prima painting", "Broken color", "Impasto"],
-            materialProperties: ["Oil paint on canvas", "Quick-drying medium"],
-            applicationMethods: ["Direct painting", "Wet-on-wet technique"],
-            technicalInnovations: ["Plein air painting", "Color theory application"],
-            skillLevel: "Advanced",
-            educationalValue: ["Teaches color mixing", "Shows brushwork techniques", "Demonstrates composition"]
-          },
-          themeAnalysis: {
-            primaryThemes: ["Nature and light", "Transience of moments", "Urban life"],
-            symbolicElements: ["Light as symbol of time", "Water as reflection"],
-            emotionalTone: "Peaceful, contemplative",
-            culturalContext: "19th century Parisian society",
-            narrativeElements: ["Daily life scenes", "Leisure activities"],
-            interpretiveApproaches: ["Formal analysis", "Historical context", "Personal response"]
-          },
-          mediumAnalysis: {
-            primaryMedium: "Oil on canvas",
-            materialCharacteristics: ["Flexible", "Durable", "Rich color"],
-            historicalUsage: "Traditional painting medium since Renaissance",
-            technicalAdvantages: ["Blendable", "Long working time", "Rich texture"],
-            conservationNotes: ["Requires proper storage", "Sensitive to light"],
-            educationalSignificance: ["Teaches material properties", "Shows historical techniques"]
-          },
-          colorAnalysis: {
-            colorPalette: [
-              { hex: "#87CEEB", name: "Sky Blue", percentage: 30, emotionalAssociation: "Calm", symbolicMeaning: "Sky", educationalNote: "Creates depth" },
-              { hex: "#90EE90", name: "Light Green", percentage: 25, emotionalAssociation: "Nature", symbolicMeaning: "Growth", educationalNote: "Balances composition" },
-              { hex: "#FFB6C1", name: "Light Pink", percentage: 20, emotionalAssociation: "Gentle", symbolicMeaning: "Softness", educationalNote: "Adds warmth" }
-            ],
-            colorHarmony: "Analogous color scheme creates unity",
-            emotionalImpact: "Creates peaceful, serene mood",
-            symbolicMeaning: ["Blue for sky", "Green for nature"],
-            colorTheory: ["Complementary colors", "Value relationships"],
-            educationalInsights: ["Shows color temperature", "Demonstrates atmospheric perspective"]
-          },
-          compositionAnalysis: {
-            compositionalPrinciples: ["Rule of thirds", "Leading lines", "Atmospheric perspective"],
-            visualFlow: "Eye moves from foreground to background",
-            focalPoints: ["Central figure", "Light source"],
-            spatialRelationships: ["Foreground, middle ground, background"],
-            balanceAndRhythm: "Asymmetrical balance with rhythmic brushstrokes",
-            educationalApplications: ["Teaches perspective", "Shows composition techniques"]
-          },
-          reflectionQuestions: [
-            {
-              category: "observation",
-              question: "What do you notice first when looking at this artwork?",
-              followUp: "What draws your eye next?",
-              educationalGoal: "Develop observational skills"
-            },
-            {
-              category: "interpretation",
-              question: "How does the artist use light to create mood?",
-              educationalGoal: "Understand artistic techniques"
-            },
-            {
-              category: "connection",
-              question: "What emotions does this artwork evoke in you?",
-              educationalGoal: "Develop personal response"
-            }
-          ],
-          learningObjectives: [
-            {
-              skill: "Visual Analysis",
-              description: "Learn to identify and analyze visual elements",
-              assessmentMethod: "Observation and discussion",
-              difficulty: "beginner"
-            },
-            {
-              skill: "Color Theory",
-              description: "Understand how colors work together",
-              assessmentMethod: "Color mixing exercises",
-              difficulty: "intermediate"
-            }
-          ],
-          discussionPrompts: [
-            {
-              topic: "Color and Mood",
-              question: "How do the colors affect your emotional response?",
-              context: "Understanding color psychology in art",
-              suggestedResponses: ["The blues make me feel calm", "The greens remind me of nature"]
-            }
-          ],
-          artisticMovements: [
-            {
-              name: "Impressionism",
-              timePeriod: "1860s-1880s",
-              characteristics: ["Visible brushstrokes", "Light emphasis", "Outdoor scenes"],
-              keyArtists: ["Claude Monet", "Pierre-Auguste Renoir", "Edgar Degas"],
-              culturalContext: "Response to industrialization and photography",
-              educationalRelevance: "Shows how art movements respond to social change"
-            }
-          ],
-          visualElements: [
-            {
-              element: "Line",
-              description: "Brushstrokes create directional movement",
-              educationalValue: "Shows how line guides the eye",
-              observationTips: ["Follow the brushstrokes", "Notice direction changes"],
-              relatedConcepts: ["Movement", "Rhythm", "Direction"]
-            }
-          ],
-          comparativeExamples: [
-            {
-              title: "Water Lilies",
-              artist: "Claude Monet",
-              similarity: "Similar brushwork and color palette",
-              contrast: "Different subject matter",
-              educationalValue: "Shows artist's consistent style"
-            }
-          ],
-          historicalContext: {
-            timePeriod: "19th century",
-            culturalBackground: "Industrial Revolution era",
-            artisticClimate: "Rejection of academic art",
-            socialInfluences: ["Photography", "Urbanization", "Leisure time"],
-            educationalSignificance: "Shows how art reflects social change"
-          },
-          confidence: 0.85,
-          sources: ["Google Vision", "OpenAI", "Wikipedia"],
-          analysisStages: []
-        };
-        
-        setEducationalAnalysis(mockAnalysis);
+        if (cancelled) return;
+
+        // The server's daily or monthly analysis budget is spent
+        if (error instanceof AnalysisRequestError && error.status === 429) {
+          setRetryable(false);
+          setError(`${error.message}. Try again later, or explore the demo artworks.`);
+          return;
+        }
+
+        // The server rejected the image itself, so retrying will not help
+        if (error instanceof AnalysisRequestError && error.status < 500) {
+          setRetryable(false);
+          setError(`This image could not be analyzed: ${error.message}`);
+          return;
+        }
+
+        console.warn('Artwork analysis failed:', error);
+        setRetryable(true);
+        setError('The analysis server could not be reached. Check the server address in Settings and try again.');
       } finally {
-        setLoading(false);
+        if (!cancelled) setLoading(false);
       }
     };
 
     analyzeArtwork();
-  }, [imageUri]);
+
+    return () => {
+      cancelled = true;
+      abortStream?.();
+    };
+  }, [image, demoArtwork, attempt]);
+
+  const selectedRegion = regions.find(region => region.id === selectedRegionId);
+
+  const isUnavailable = (...sections: string[]) =>
+    sections.some(section =>
+      educationalAnalysis?.unavailableSections?.some(path => path === section || path.startsWith(`${section}.`)),
+    );
+
+  const renderUnavailableNotice = (...sections: string[]) =>
+    isUnavailable(...sections) && (
+      <View style={styles.unavailableNotice}>
+        <Icon name="info-outline" size={16} color="#999999" />
+        <Text style={styles.unavailableText}>Part of this analysis is unavailable for this artwork.</Text>
+      </View>
+    );
+
+  // Thirds grid, dominant lines and where the visual weight sits, over the
+  // artwork frame; lines are thin Views rotated about their midpoints
+  const renderCompositionGuides = (frame: { width: number; height: number }) => {
+    if (!composition) return null;
+    const marker = (point: ImagePoint, style: object, key: string) => (
+      <View
+        key={key}
+        style={[styles.compositionMarker, style, { left: point.x * frame.width - 7, top: point.y * frame.height - 7 }]}
+      />
+    );
+    const inside = (point: ImagePoint) => point.x >= 0 && point.x <= 1 && point.y >= 0 && point.y <= 1;
+
+    return (
+      <View pointerEvents="none" style={StyleSheet.absoluteFill}>
+        {[1 / 3, 2 / 3].map(position => (
+          <React.Fragment key={position}>
+            <View style={[styles.thirdsLine, { left: position * frame.width, top: 0, width: 1, height: frame.height }]} />
+            <View style={[styles.thirdsLine, { left: 0, top: position * frame.height, width: frame.width, height: 1 }]} />
+          </React.Fragment>
+        ))}
+        {composition.lines.map((line, index) => {
+          const x1 = line.from.x * frame.width, y1 = line.from.y * frame.height;
+          const x2 = line.to.x * frame.width, y2 = line.to.y * frame.height;
+          const length = Math.hypot(x2 - x1, y2 - y1);
+          return (
+            <View
+              key={index}
+              style={[
+                styles.compositionLine,
+                {
+                  left: (x1 + x2) / 2 - length / 2,
+                  top: (y1 + y2) / 2 - 1.5,
+                  width: length,
+                  opacity: 0.4 + 0.6 * line.strength,
+                  transform: [{ rotate: `${Math.atan2(y2 - y1, x2 - x1)}rad` }],
+                },
+              ]}
+            />
+          );
+        })}
+        {composition.focalPoints.map((point, index) => marker(point, styles.focalPoint, `focal-${index}`))}
+        {marker(composition.centerOfMass, styles.centerOfMass, 'center')}
+        {composition.vanishingPoint && inside(composition.vanishingPoint) &&
+          marker(composition.vanishingPoint, styles.vanishingPoint, 'vanishing')}
+      </View>
+    );
+  };
 
   const renderTabContent = () => {
     if (!educationalAnalysis) return null;
@@ -330,12 +326,16 @@ const ArtworkAnalysisScreen: React.FC<ArtworkAnalysisScreenProps> = ({ navigatio
         return (
           <View style={styles.tabContent}>
             <Text style={styles.sectionTitle}>Educational Overview</Text>
-            <Text style={styles.description}>
-              This artwork demonstrates {educationalAnalysis.styleAnalysis.primaryStyle.toLowerCase()} characteristics 
-              through {educationalAnalysis.techniqueAnalysis.primaryTechniques.join(', ').toLowerCase()}. 
-              The {educationalAnalysis.themeAnalysis.emotionalTone.toLowerCase()} mood is created through 
-              careful use of {educationalAnalysis.colorAnalysis.colorHarmony.toLowerCase()}.
-            </Text>
+            {isUnavailable('styleAnalysis', 'techniqueAnalysis', 'themeAnalysis', 'colorAnalysis') ? (
+              renderUnavailableNotice('styleAnalysis', 'techniqueAnalysis', 'themeAnalysis', 'colorAnalysis')
+            ) : (
+              <Text style={styles.description}>
+                This artwork demonstrates {educationalAnalysis.styleAnalysis.primaryStyle.toLowerCase()} characteristics 
+                through {educationalAnalysis.techniqueAnalysis.primaryTechniques.join(', ').toLowerCase()}. 
+                The {educationalAnalysis.themeAnalysis.emotionalTone.toLowerCase()} mood is created through 
+                careful use of {educationalAnalysis.colorAnalysis.colorHarmony.toLowerCase()}.
+              </Text>
+            )}
             
             <View style={styles.learningObjectivesContainer}>
               <Text style={styles.sectionTitle}>Learning Objectives</Text>
@@ -359,6 +359,7 @@ const ArtworkAnalysisScreen: React.FC<ArtworkAnalysisScreenProps> = ({ navigatio
         return (
           <View style={styles.tabContent}>
             <Text style={styles.sectionTitle}>Style Analysis</Text>
+            {renderUnavailableNotice('styleAnalysis')}
             <Text style={styles.primaryStyle}>{educationalAnalysis.styleAnalysis.primaryStyle}</Text>
             <Text style={styles.movementContext}>{educationalAnalysis.styleAnalysis.movementContext}</Text>
             
@@ -385,6 +386,7 @@ const ArtworkAnalysisScreen: React.FC<ArtworkAnalysisScreenProps> = ({ navigatio
         return (
           <View style={styles.tabContent}>
             <Text style={styles.sectionTitle}>Technique Analysis</Text>
+            {renderUnavailableNotice('techniqueAnalysis')}
             
             <View style={styles.techniqueSection}>
               <Text style={styles.subsectionTitle}>Primary Techniques</Text>
@@ -416,7 +418,17 @@ const ArtworkAnalysisScreen: React.FC<ArtworkAnalysisScreenProps> = ({ navigatio
         return (
           <View style={styles.tabContent}>
             <Text style={styles.sectionTitle}>Color Analysis</Text>
-            
+            {renderUnavailableNotice('colorAnalysis')}
+
+            {/* Each band is as wide as the share of the image the color covers */}
+            {educationalAnalysis.colorAnalysis.colorPalette.length > 0 && (
+              <View style={styles.colorCoverage}>
+                {educationalAnalysis.colorAnalysis.colorPalette.map((color, index) => (
+                  <View key={index} style={[styles.colorCoverageBand, { backgroundColor: color.hex, flex: color.percentage }]} />
+                ))}
+              </View>
+            )}
+
             <View style={styles.colorPaletteContainer}>
               {educationalAnalysis.colorAnalysis.colorPalette.map((color, index) => (
                 <View key={index} style={styles.colorItem}>
@@ -425,6 +437,9 @@ const ArtworkAnalysisScreen: React.FC<ArtworkAnalysisScreenProps> = ({ navigatio
                     <Text style={styles.colorName}>{color.name}</Text>
                     <Text style={styles.colorPercentage}>{color.percentage}%</Text>
                     <Text style={styles.colorEmotion}>{color.emotionalAssociation}</Text>
+                    {color.pigment && (
+                      <Text style={styles.colorPigment}>Close to {color.pigment.name}</Text>
+                    )}
                   </View>
                 </View>
               ))}
@@ -440,10 +455,43 @@ const ArtworkAnalysisScreen: React.FC<ArtworkAnalysisScreenProps> = ({ navigatio
           </View>
         );
 
+      case 'composition':
+        return (
+          <View style={styles.tabContent}>
+            <Text style={styles.sectionTitle}>Composition Analysis</Text>
+            {renderUnavailableNotice('compositionAnalysis')}
+
+            <View style={styles.compositionSection}>
+              <Text style={styles.subsectionTitle}>Principles</Text>
+              {educationalAnalysis.compositionAnalysis.compositionalPrinciples.map((principle, index) => (
+                <Text key={index} style={styles.compositionText}>• {principle}</Text>
+              ))}
+            </View>
+
+            <View style={styles.compositionSection}>
+              <Text style={styles.subsectionTitle}>Visual Flow</Text>
+              <Text style={styles.compositionText}>{educationalAnalysis.compositionAnalysis.visualFlow}</Text>
+            </View>
+
+            <View style={styles.compositionSection}>
+              <Text style={styles.subsectionTitle}>Focal Points</Text>
+              {educationalAnalysis.compositionAnalysis.focalPoints.map((point, index) => (
+                <Text key={index} style={styles.compositionText}>• {point}</Text>
+              ))}
+            </View>
+
+            <View style={styles.compositionSection}>
+              <Text style={styles.subsectionTitle}>Balance</Text>
+              <Text style={styles.compositionText}>{educationalAnalysis.compositionAnalysis.balanceAndRhythm}</Text>
+            </View>
+          </View>
+        );
+
       case 'questions':
         return (
           <View style={styles.tabContent}>
             <Text style={styles.sectionTitle}>Reflection Questions</Text>
+            {renderUnavailableNotice('reflectionQuestions')}
             
             {educationalAnalysis.reflectionQuestions.length > 0 && (
               <View style={styles.questionContainer}>
@@ -507,11 +555,55 @@ const ArtworkAnalysisScreen: React.FC<ArtworkAnalysisScreenProps> = ({ navigatio
     return (
       <SafeAreaView style={styles.container}>
         <StatusBar barStyle="dark-content" backgroundColor="#ffffff" />
-        <View style={styles.loadingContainer}>
+        <ScrollView contentContainerStyle={styles.loadingContainer}>
           <ActivityIndicator size="large" color="#2196F3" />
           <Text style={styles.loadingText}>Analyzing artwork for educational insights...</Text>
           <Text style={styles.loadingSubtext}>This may take a moment as we gather comprehensive data</Text>
-        </View>
+
+          {progress.visionLabels.length === 0 && (
+            <View style={styles.progressSection}>
+              <Text style={styles.subsectionTitle}>
+                {progress.upload < 1 ? `Uploading image (${Math.round(progress.upload * 100)}%)` : 'Image uploaded'}
+              </Text>
+              <View style={styles.uploadTrack}>
+                <View style={[styles.uploadBar, { width: `${Math.round(progress.upload * 100)}%` }]} />
+              </View>
+              {progress.retryMessage && <Text style={styles.loadingSubtext}>{progress.retryMessage}</Text>}
+            </View>
+          )}
+
+          {progress.visionLabels.length > 0 && (
+            <View style={styles.progressSection}>
+              <Text style={styles.subsectionTitle}>What we see</Text>
+              <View style={styles.progressChips}>
+                {progress.visionLabels.map((label, index) => (
+                  <Text key={index} style={styles.progressChip}>{label}</Text>
+                ))}
+              </View>
+            </View>
+          )}
+
+          {progress.initialInsights.length > 0 && (
+            <View style={styles.progressSection}>
+              <Text style={styles.subsectionTitle}>First impressions</Text>
+              {progress.initialInsights.map((insight, index) => (
+                <Text key={index} style={styles.insightText}>• {insight}</Text>
+              ))}
+            </View>
+          )}
+
+          {progress.recallSources.length > 0 && (
+            <View style={styles.progressSection}>
+              <Text style={styles.subsectionTitle}>Gathering context</Text>
+              {progress.recallSources.map((source, index) => (
+                <View key={index} style={styles.characteristicItem}>
+                  <Icon name="check-circle" size={16} color="#4CAF50" />
+                  <Text style={styles.characteristicText}>{RECALL_SOURCE_NAMES[source] || source}</Text>
+                </View>
+              ))}
+            </View>
+          )}
+        </ScrollView>
       </SafeAreaView>
     );
   }
@@ -534,8 +626,40 @@ const ArtworkAnalysisScreen: React.FC<ArtworkAnalysisScreenProps> = ({ navigatio
       <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
         {/* Artwork Image */}
         <View style={styles.imageContainer}>
-          <Image source={{ uri: imageUri }} style={styles.artworkImage} />
-          {educationalAnalysis && (
+          {(regions.length > 0 || textureHeatmap || composition) && imageAspect ? (
+            <View style={imageFrame(imageAspect)}>
+              <Image source={imageSource} style={[styles.artworkImage, imageFrame(imageAspect)]} />
+              {showTexture && textureHeatmap && (
+                <Image
+                  source={{ uri: textureHeatmap.image }}
+                  style={[styles.textureOverlay, imageFrame(imageAspect)]}
+                  resizeMode="stretch"
+                />
+              )}
+              {showComposition && renderCompositionGuides(imageFrame(imageAspect))}
+              {/* Tappable boxes around the objects and faces found in the image */}
+              {regions.map(region => (
+                <TouchableOpacity
+                  key={region.id}
+                  style={[
+                    styles.region,
+                    region.kind === 'face' && styles.faceRegion,
+                    region.id === selectedRegionId && styles.selectedRegion,
+                    {
+                      left: `${region.box.x * 100}%`,
+                      top: `${region.box.y * 100}%`,
+                      width: `${region.box.width * 100}%`,
+                      height: `${region.box.height * 100}%`,
+                    },
+                  ]}
+                  onPress={() => setSelectedRegionId(current => (current === region.id ? null : region.id))}
+                />
+              ))}
+            </View>
+          ) : (
+            <Image source={imageSource} style={styles.artworkImage} />
+          )}
+          {educationalAnalysis && !demoArtwork && (
             <View style={styles.confidenceBadge}>
               <Icon name="verified" size={16} color="#4CAF50" />
               <Text style={styles.confidenceText}>
@@ -545,11 +669,91 @@ const ArtworkAnalysisScreen: React.FC<ArtworkAnalysisScreenProps> = ({ navigatio
           )}
         </View>
 
+        {(textureHeatmap || composition) && imageAspect && (
+          <View style={styles.overlayToggles}>
+            {textureHeatmap && (
+              <TouchableOpacity style={styles.overlayToggle} onPress={() => setShowTexture(current => !current)}>
+                <Text style={styles.overlayToggleText}>{showTexture ? 'Hide texture map' : 'Show texture map'}</Text>
+              </TouchableOpacity>
+            )}
+            {composition && (
+              <TouchableOpacity style={styles.overlayToggle} onPress={() => setShowComposition(current => !current)}>
+                <Text style={styles.overlayToggleText}>
+                  {showComposition ? 'Hide composition guides' : 'Show composition guides'}
+                </Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+
+        {/* What the tapped region is, and where the analysis mentions it */}
+        {regions.length > 0 && imageAspect && !selectedRegion && (
+          <Text style={styles.regionHint}>Tap a highlighted area to see what it is</Text>
+        )}
+        {selectedRegion && (
+          <View style={styles.regionCaption}>
+            <Text style={styles.regionCaptionTitle}>
+              {capitalize(selectedRegion.name)}
+              {selectedRegion.confidence !== null ? ` (${Math.round(selectedRegion.confidence * 100)}% sure)` : ''}
+            </Text>
+            {regionReferences
+              .filter(reference => reference.regionId === selectedRegion.id)
+              .map(reference => (
+                <Text key={`${reference.section}-${reference.index}`} style={styles.regionCaptionText}>
+                  • {reference.text}
+                </Text>
+              ))}
+          </View>
+        )}
+
+        {/* Demo results are prepared in advance and must never pass for a live analysis */}
+        {demoArtwork && (
+          <View style={styles.demoBanner}>
+            <Icon name="school" size={20} color="#2196F3" />
+            <View style={styles.demoBannerText}>
+              <Text style={styles.demoTitle}>Demo analysis</Text>
+              <Text style={styles.demoText}>
+                {demoArtwork.title}, {demoArtwork.artist} ({demoArtwork.date}), {demoArtwork.museum}.
+                This analysis was prepared in advance, not generated live.
+              </Text>
+            </View>
+          </View>
+        )}
+
         {/* Error Message */}
         {error && (
           <View style={styles.errorContainer}>
-            <Icon name="error" size={24} color="#FF6B6B" />
-            <Text style={styles.errorText}>{error}</Text>
+            <View style={styles.errorRow}>
+              <Icon name="error" size={24} color="#FF6B6B" />
+              <Text style={styles.errorText}>{error}</Text>
+            </View>
+            <View style={styles.errorActions}>
+              {retryable && (
+                <TouchableOpacity style={styles.errorButton} onPress={() => setAttempt(current => current + 1)}>
+                  <Icon name="refresh" size={16} color="#D32F2F" />
+                  <Text style={styles.errorButtonText}>Retry</Text>
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity style={styles.errorButton} onPress={() => navigation.navigate('Home')}>
+                <Icon name="collections" size={16} color="#D32F2F" />
+                <Text style={styles.errorButtonText}>Explore demo artworks</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+
+        {/* Stages that failed or only partly succeeded */}
+        {stageIssues.length > 0 && (
+          <View style={styles.stageIssues}>
+            {stageIssues.map(stage => (
+              <View key={stage.stage} style={styles.unavailableNotice}>
+                <Icon name={stage.status === 'failed' ? 'error-outline' : 'warning'} size={16} color="#999999" />
+                <Text style={styles.unavailableText}>
+                  {STAGE_NAMES[stage.stage] || stage.stage} {stage.status === 'failed' ? 'failed' : 'was incomplete'}
+                  {stage.reason ? `: ${stage.reason}` : ''}
+                </Text>
+              </View>
+            ))}
           </View>
         )}
 
@@ -562,6 +766,7 @@ const ArtworkAnalysisScreen: React.FC<ArtworkAnalysisScreenProps> = ({ navigatio
                 { key: 'style', label: 'Style', icon: 'palette' },
                 { key: 'technique', label: 'Technique', icon: 'build' },
                 { key: 'color', label: 'Color', icon: 'color-lens' },
+                { key: 'composition', label: 'Composition', icon: 'grid-on' },
                 { key: 'questions', label: 'Questions', icon: 'quiz' }
               ].map((tab) => (
                 <TouchableOpacity
@@ -585,6 +790,34 @@ const ArtworkAnalysisScreen: React.FC<ArtworkAnalysisScreenProps> = ({ navigatio
 
         {/* Tab Content */}
         {renderTabContent()}
+
+        {/* Where the analysis spent its time */}
+        {stageTimings.length > 0 && (
+          <View style={styles.detailsSection}>
+            <TouchableOpacity style={styles.detailsHeader} onPress={() => setShowDetails(current => !current)}>
+              <Icon name="timer" size={16} color="#666666" />
+              <Text style={styles.detailsTitle}>Analysis details</Text>
+              <Icon name={showDetails ? 'expand-less' : 'expand-more'} size={20} color="#666666" />
+            </TouchableOpacity>
+            {showDetails && stageTimings.map(stage => (
+              <View key={stage.stage} style={styles.detailsStage}>
+                <View style={styles.detailsRow}>
+                  <Text style={styles.detailsStageName}>{STAGE_NAMES[stage.stage] || stage.stage}</Text>
+                  <Text style={styles.detailsDuration}>{formatDuration(stage.durationMs)}</Text>
+                </View>
+                {byDuration(stage.calls).map((call, index) => (
+                  <View key={`${call.name}-${index}`} style={styles.detailsRow}>
+                    <Text style={[styles.detailsCallName, call.status === 'failed' && styles.detailsCallFailed]}>
+                      {RECALL_SOURCE_NAMES[call.name] || call.name}
+                      {call.status !== 'ok' ? ` (${call.status})` : ''}
+                    </Text>
+                    <Text style={styles.detailsDuration}>{formatDuration(call.durationMs)}</Text>
+                  </View>
+                ))}
+              </View>
+            ))}
+          </View>
+        )}
       </ScrollView>
     </SafeAreaView>
   );
@@ -598,10 +831,11 @@ const styles = StyleSheet.create({
     backgroundColor: '#ffffff',
   },
   loadingContainer: {
-    flex: 1,
+    flexGrow: 1,
     justifyContent: 'center',
     alignItems: 'center',
     paddingHorizontal: 20,
+    paddingVertical: 40,
   },
   loadingText: {
     marginTop: 16,
@@ -615,6 +849,35 @@ const styles = StyleSheet.create({
     color: '#999999',
     textAlign: 'center',
   },
+  progressSection: {
+    alignSelf: 'stretch',
+    marginTop: 16,
+  },
+  uploadTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#E3F2FD',
+    overflow: 'hidden',
+  },
+  uploadBar: {
+    height: 6,
+    backgroundColor: '#2196F3',
+  },
+  progressChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  progressChip: {
+    fontSize: 12,
+    color: '#2196F3',
+    backgroundColor: '#E3F2FD',
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    marginRight: 6,
+    marginBottom: 6,
+    overflow: 'hidden',
+  },
   header: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -645,6 +908,97 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: '#E0E0E0',
   },
+  region: {
+    position: 'absolute',
+    borderWidth: 2,
+    borderColor: 'rgba(33, 150, 243, 0.8)',
+    borderRadius: 4,
+  },
+  faceRegion: {
+    borderColor: 'rgba(255, 152, 0, 0.8)',
+  },
+  selectedRegion: {
+    backgroundColor: 'rgba(255, 255, 255, 0.25)',
+    borderWidth: 3,
+  },
+  textureOverlay: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    borderRadius: 12,
+  },
+  thirdsLine: {
+    position: 'absolute',
+    backgroundColor: 'rgba(255, 255, 255, 0.7)',
+  },
+  compositionLine: {
+    position: 'absolute',
+    height: 3,
+    borderRadius: 1.5,
+    backgroundColor: '#E91E63',
+  },
+  compositionMarker: {
+    position: 'absolute',
+    width: 14,
+    height: 14,
+    borderRadius: 7,
+  },
+  focalPoint: {
+    borderWidth: 3,
+    borderColor: '#FFEB3B',
+  },
+  centerOfMass: {
+    backgroundColor: '#E91E63',
+    borderWidth: 2,
+    borderColor: '#FFFFFF',
+  },
+  vanishingPoint: {
+    borderWidth: 3,
+    borderColor: '#E91E63',
+    backgroundColor: 'rgba(255, 255, 255, 0.6)',
+  },
+  overlayToggles: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    marginTop: 8,
+  },
+  overlayToggle: {
+    marginHorizontal: 4,
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+    backgroundColor: '#F5F5F5',
+    borderWidth: 1,
+    borderColor: '#DDDDDD',
+    borderRadius: 16,
+  },
+  overlayToggleText: {
+    fontSize: 13,
+    color: '#333333',
+  },
+  regionHint: {
+    fontSize: 13,
+    color: '#999999',
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  regionCaption: {
+    marginHorizontal: 20,
+    marginTop: 12,
+    padding: 12,
+    backgroundColor: '#E3F2FD',
+    borderRadius: 8,
+  },
+  regionCaptionTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333333',
+  },
+  regionCaptionText: {
+    fontSize: 14,
+    color: '#333333',
+    marginTop: 6,
+    lineHeight: 20,
+  },
   confidenceBadge: {
     position: 'absolute',
     top: 10,
@@ -725,6 +1079,67 @@ const styles = StyleSheet.create({
     marginBottom: 20,
     fontStyle: 'italic',
   },
+  unavailableNotice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 16,
+  },
+  unavailableText: {
+    fontSize: 14,
+    color: '#999999',
+    marginLeft: 8,
+    flex: 1,
+  },
+  stageIssues: {
+    marginHorizontal: 20,
+    marginTop: 20,
+  },
+  detailsSection: {
+    marginHorizontal: 20,
+    marginVertical: 20,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#eeeeee',
+  },
+  detailsHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  detailsTitle: {
+    fontSize: 14,
+    color: '#666666',
+    marginLeft: 8,
+    flex: 1,
+  },
+  detailsStage: {
+    marginTop: 12,
+  },
+  detailsRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  detailsStageName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333333',
+  },
+  detailsCallName: {
+    fontSize: 13,
+    color: '#666666',
+    marginLeft: 12,
+    flex: 1,
+  },
+  detailsCallFailed: {
+    color: '#D32F2F',
+  },
+  detailsDuration: {
+    fontSize: 13,
+    color: '#999999',
+  },
   characteristicsContainer: {
     marginBottom: 20,
   },
@@ -779,6 +1194,18 @@ const styles = StyleSheet.create({
     marginBottom: 6,
     lineHeight: 20,
   },
+  colorCoverage: {
+    flexDirection: 'row',
+    height: 16,
+    borderRadius: 8,
+    overflow: 'hidden',
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    marginBottom: 16,
+  },
+  colorCoverageBand: {
+    height: '100%',
+  },
   colorPaletteContainer: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -817,6 +1244,20 @@ const styles = StyleSheet.create({
     fontSize: 10,
     color: '#999999',
   },
+  colorPigment: {
+    fontSize: 10,
+    fontStyle: 'italic',
+    color: '#8D6E63',
+  },
+  compositionSection: {
+    marginBottom: 20,
+  },
+  compositionText: {
+    fontSize: 14,
+    color: '#333333',
+    marginBottom: 6,
+    lineHeight: 20,
+  },
   colorTheoryContainer: {
     marginBottom: 20,
   },
@@ -933,8 +1374,6 @@ const styles = StyleSheet.create({
     color: '#999999',
   },
   errorContainer: {
-    flexDirection: 'row',
-    alignItems: 'center',
     backgroundColor: '#FFEBEE',
     padding: 16,
     margin: 20,
@@ -942,12 +1381,61 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: '#FFCDD2',
   },
+  errorRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
   errorText: {
     fontSize: 14,
     color: '#D32F2F',
     marginLeft: 8,
     flex: 1,
   },
+  errorActions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 12,
+  },
+  errorButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#FFCDD2',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 8,
+    marginBottom: 4,
+  },
+  errorButtonText: {
+    fontSize: 14,
+    color: '#D32F2F',
+    marginLeft: 4,
+  },
+  demoBanner: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    backgroundColor: '#E3F2FD',
+    padding: 16,
+    margin: 20,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#BBDEFB',
+  },
+  demoBannerText: {
+    marginLeft: 8,
+    flex: 1,
+  },
+  demoTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1565C0',
+  },
+  demoText: {
+    fontSize: 13,
+    color: '#1565C0',
+    marginTop: 2,
+  },
 });
 
 export default ArtworkAnalysisScreen;
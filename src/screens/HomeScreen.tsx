@@ -8,9 +8,12 @@ import {
   Alert,
   SafeAreaView,
   StatusBar,
+  ScrollView,
 } from 'react-native';
-import { launchImageLibrary, ImagePickerResponse, MediaType } from 'react-native-image-picker';
+import { launchImageLibrary, ImagePickerResponse } from 'react-native-image-picker';
 import Icon from 'react-native-vector-icons/MaterialIcons';
+import { PICKER_IMAGE_OPTIONS, toSelectedImage } from '../services/imageUpload';
+import { DEMO_ARTWORKS, demoImageSource } from '../services/demoLibrary';
 
 interface HomeScreenProps {
   navigation: any;
@@ -20,25 +23,18 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
 
   const openImagePicker = () => {
-    const options = {
-      mediaType: 'photo' as MediaType,
-      includeBase64: false,
-      maxHeight: 2000,
-      maxWidth: 2000,
-    };
-
-    launchImageLibrary(options, (response: ImagePickerResponse) => {
+    launchImageLibrary(PICKER_IMAGE_OPTIONS, (response: ImagePickerResponse) => {
       if (response.didCancel) {
         console.log('User cancelled image picker');
       } else if (response.errorMessage) {
         console.log('ImagePicker Error: ', response.errorMessage);
         Alert.alert('Error', 'Failed to pick image');
       } else if (response.assets && response.assets[0]) {
-        const imageUri = response.assets[0].uri;
-        if (imageUri) {
-          setSelectedImage(imageUri);
+        const image = toSelectedImage(response.assets[0]);
+        if (image) {
+          setSelectedImage(image.uri);
           // Navigate to analysis screen with the selected image
-          navigation.navigate('ArtworkAnalysis', { imageUri });
+          navigation.navigate('ArtworkAnalysis', { image });
         }
       }
     });
@@ -51,6 +47,9 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
       {/* Header with house icon */}
       <View style={styles.header}>
         <Icon name="home" size={32} color="#2196F3" />
+        <TouchableOpacity style={styles.settingsButton} onPress={() => navigation.navigate('Settings')}>
+          <Icon name="settings" size={24} color="#666666" />
+        </TouchableOpacity>
       </View>
 
       {/* Welcome text */}
@@ -82,6 +81,24 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
           <Image source={{ uri: selectedImage }} style={styles.recentImage} />
         </View>
       )}
+
+      {/* Demo artworks with analyses prepared in advance, usable without a server */}
+      <View style={styles.demoContainer}>
+        <Text style={styles.recentLabel}>Or explore a demo artwork:</Text>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+          {DEMO_ARTWORKS.map(artwork => (
+            <TouchableOpacity
+              key={artwork.id}
+              style={styles.demoItem}
+              onPress={() => navigation.navigate('ArtworkAnalysis', { demoId: artwork.id })}
+            >
+              <Image source={demoImageSource(artwork)} style={styles.recentImage} />
+              <Text style={styles.demoTitle} numberOfLines={2}>{artwork.title}</Text>
+              <Text style={styles.demoArtist} numberOfLines={1}>{artwork.artist}</Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      </View>
     </SafeAreaView>
   );
 };
@@ -97,6 +114,11 @@ const styles = StyleSheet.create({
     marginTop: 20,
     marginBottom: 30,
   },
+  settingsButton: {
+    position: 'absolute',
+    right: 0,
+    top: 4,
+  },
   welcomeContainer: {
     alignItems: 'center',
     marginBottom: 40,
@@ -178,6 +200,22 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: '#E0E0E0',
   },
+  demoContainer: {
+    marginTop: 30,
+  },
+  demoItem: {
+    width: 100,
+    marginRight: 12,
+  },
+  demoTitle: {
+    fontSize: 12,
+    color: '#000000',
+    marginTop: 6,
+  },
+  demoArtist: {
+    fontSize: 12,
+    color: '#999999',
+  },
 });
 
 export default HomeScreen;
@@ -0,0 +1,264 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  SafeAreaView,
+  StatusBar,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import {
+  ConnectionResult,
+  DEFAULT_SERVER_SETTINGS,
+  SERVER_PROFILES,
+  ServerSettings,
+  loadServerSettings,
+  resolveServerUrl,
+  saveServerSettings,
+  serverUrlProblem,
+  testServerConnection,
+} from '../services/serverSettings';
+
+interface SettingsScreenProps {
+  navigation: any;
+}
+
+const SettingsScreen: React.FC<SettingsScreenProps> = ({ navigation }) => {
+  const [settings, setSettings] = useState<ServerSettings>(DEFAULT_SERVER_SETTINGS);
+  const [loaded, setLoaded] = useState(false);
+  const [testing, setTesting] = useState(false);
+  const [testResult, setTestResult] = useState<ConnectionResult | null>(null);
+
+  useEffect(() => {
+    loadServerSettings().then(stored => {
+      setSettings(stored);
+      setLoaded(true);
+    });
+  }, []);
+
+  const serverUrl = resolveServerUrl(settings);
+
+  const updateSettings = (changes: Partial<ServerSettings>) => {
+    setSettings(current => ({ ...current, ...changes }));
+    setTestResult(null);
+  };
+
+  const testConnection = async () => {
+    setTesting(true);
+    setTestResult(await testServerConnection(serverUrl));
+    setTesting(false);
+  };
+
+  const save = async () => {
+    if (!serverUrl) {
+      Alert.alert('Server URL required', 'Enter the address of your analysis server.');
+      return;
+    }
+    const problem = serverUrlProblem(serverUrl);
+    if (problem) {
+      Alert.alert('Server URL not allowed', problem);
+      return;
+    }
+    try {
+      await saveServerSettings(settings);
+      navigation.goBack();
+    } catch (error) {
+      Alert.alert('Error', 'Failed to save settings');
+    }
+  };
+
+  const options = [
+    ...SERVER_PROFILES.map(profile => ({ id: profile.id, name: profile.name, detail: profile.url })),
+    { id: 'custom', name: 'Custom server', detail: 'For example your school\'s server' },
+  ];
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="dark-content" backgroundColor="#ffffff" />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()}>
+          <Icon name="arrow-back" size={24} color="#000000" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Settings</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      {!loaded ? (
+        <ActivityIndicator style={styles.loading} size="large" color="#2196F3" />
+      ) : (
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          <Text style={styles.sectionTitle}>Analysis server</Text>
+
+          {options.map(option => (
+            <TouchableOpacity
+              key={option.id}
+              style={styles.option}
+              onPress={() => updateSettings({ profileId: option.id })}
+            >
+              <Icon
+                name={settings.profileId === option.id ? 'radio-button-checked' : 'radio-button-unchecked'}
+                size={20}
+                color="#2196F3"
+              />
+              <View style={styles.optionText}>
+                <Text style={styles.optionName}>{option.name}</Text>
+                <Text style={styles.optionDetail}>{option.detail}</Text>
+              </View>
+            </TouchableOpacity>
+          ))}
+
+          {settings.profileId === 'custom' && (
+            <TextInput
+              style={styles.input}
+              value={settings.customUrl}
+              onChangeText={customUrl => updateSettings({ customUrl })}
+              placeholder="https://slowlook.myschool.example"
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="url"
+            />
+          )}
+
+          <TouchableOpacity style={styles.testButton} onPress={testConnection} disabled={testing}>
+            {testing ? (
+              <ActivityIndicator size="small" color="#2196F3" />
+            ) : (
+              <Icon name="wifi-tethering" size={20} color="#2196F3" />
+            )}
+            <Text style={styles.testButtonText}>Test connection</Text>
+          </TouchableOpacity>
+
+          {testResult && (
+            <View style={styles.testResult}>
+              <Icon
+                name={testResult.ok ? 'check-circle' : 'error'}
+                size={16}
+                color={testResult.ok ? '#4CAF50' : '#FF6B6B'}
+              />
+              <Text style={[styles.testResultText, !testResult.ok && styles.testResultError]}>
+                {testResult.message}
+              </Text>
+            </View>
+          )}
+
+          <TouchableOpacity style={styles.saveButton} onPress={save}>
+            <Text style={styles.saveButtonText}>Save</Text>
+          </TouchableOpacity>
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#ffffff',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E0E0E0',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  headerSpacer: {
+    width: 24,
+  },
+  loading: {
+    marginTop: 40,
+  },
+  content: {
+    padding: 20,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000000',
+    marginBottom: 12,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+  },
+  optionText: {
+    marginLeft: 12,
+    flex: 1,
+  },
+  optionName: {
+    fontSize: 15,
+    color: '#000000',
+  },
+  optionDetail: {
+    fontSize: 12,
+    color: '#999999',
+    marginTop: 2,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    marginTop: 8,
+  },
+  testButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderColor: '#2196F3',
+    borderRadius: 8,
+    paddingVertical: 12,
+    marginTop: 24,
+  },
+  testButtonText: {
+    fontSize: 15,
+    color: '#2196F3',
+    marginLeft: 8,
+  },
+  testResult: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  testResultText: {
+    fontSize: 14,
+    color: '#4CAF50',
+    marginLeft: 6,
+    flex: 1,
+  },
+  testResultError: {
+    color: '#FF6B6B',
+  },
+  saveButton: {
+    backgroundColor: '#2196F3',
+    borderRadius: 8,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 32,
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+});
+
+export default SettingsScreen;
@@ -0,0 +1,33 @@
+// Demo mode: a small bundled library of real artworks with analyses prepared in
+// advance (src/data/demoArtworks.json). Demo results are always labeled as such
+// in the UI and are never shown in place of a failed live analysis.
+
+import type { ImageSourcePropType } from 'react-native';
+import type { ComprehensiveEducationalAnalysis } from '../../packages/core/src/types';
+import demoArtworks from '../data/demoArtworks.json';
+
+export interface DemoArtwork {
+  id: string;
+  title: string;
+  artist: string;
+  date: string;
+  medium: string;
+  museum: string;
+  // Collection page for the artwork
+  sourceUrl: string;
+  // Public domain image of the artwork, from the museum's image server or
+  // Wikimedia Commons
+  imageUrl: string;
+  // Same shape as a live analysis from the server
+  analysis: ComprehensiveEducationalAnalysis;
+}
+
+export const DEMO_ARTWORKS = demoArtworks as DemoArtwork[];
+
+export function getDemoArtwork(id: string): DemoArtwork | undefined {
+  return DEMO_ARTWORKS.find(artwork => artwork.id === id);
+}
+
+export function demoImageSource(artwork: DemoArtwork): ImageSourcePropType {
+  return { uri: artwork.imageUrl };
+}
@@ -0,0 +1,120 @@
+// Image ingestion for the analysis server
+// The picker resizes and recompresses the photo on device (PICKER_IMAGE_OPTIONS), and
+// the file is then uploaded as multipart/form-data. React Native's FormData reads the
+// bytes from the asset's file:// URI natively, so the image is never held in JS as base64.
+// Failed uploads are retried with backoff until the server starts streaming results.
+
+import { Asset, ImageLibraryOptions } from 'react-native-image-picker';
+import {
+  AnalysisRequestError,
+  AnalysisStreamHandlers,
+  streamComprehensiveAnalysis,
+} from '../../packages/core/src/client';
+
+// The server downscales to at most 2048px for any vision provider, so larger
+// uploads only cost the user time and data
+export const PICKER_IMAGE_OPTIONS: ImageLibraryOptions = {
+  mediaType: 'photo',
+  includeBase64: false,
+  maxWidth: 2048,
+  maxHeight: 2048,
+  quality: 0.8,
+};
+
+export interface SelectedImage {
+  uri: string;
+  type: string;
+  fileName: string;
+  fileSize?: number;
+  width?: number;
+  height?: number;
+}
+
+// Returns null when the picker asset has no readable file
+export function toSelectedImage(asset: Asset): SelectedImage | null {
+  if (!asset.uri) return null;
+  return {
+    uri: asset.uri,
+    type: asset.type || 'image/jpeg',
+    fileName: asset.fileName || 'artwork.jpg',
+    fileSize: asset.fileSize,
+    width: asset.width,
+    height: asset.height,
+  };
+}
+
+// React Native's FormData accepts a file reference in place of a Blob and reads
+// the bytes from `uri` itself
+interface FormDataFile {
+  uri: string;
+  name: string;
+  type: string;
+}
+
+export function buildImageFormData(image: SelectedImage): FormData {
+  const form = new FormData();
+  const file: FormDataFile = { uri: image.uri, name: image.fileName, type: image.type };
+  form.append('image', file as unknown as Blob);
+  return form;
+}
+
+export interface UploadHandlers extends AnalysisStreamHandlers {
+  // Called before each retry with the upcoming attempt number (2, 3, ...)
+  onRetry?: (attempt: number, maxAttempts: number, error: Error) => void;
+}
+
+export interface RetryOptions {
+  maxAttempts?: number;
+  baseDelayMs?: number;
+}
+
+// Network failures, timeouts and server errors are worth retrying. A rejected
+// image (4xx) will be rejected again, and a 429 means a spent budget that resets
+// hours from now, not within the retry window.
+const isRetryable = (error: Error) =>
+  !(error instanceof AnalysisRequestError) || error.status >= 500;
+
+// Uploads the image to the streaming analysis endpoint and returns a function that
+// cancels the upload, any pending retry and the running analysis. Once the server
+// has streamed an event the analysis is underway and errors are no longer retried.
+export function uploadImageForAnalysis(
+  url: string,
+  image: SelectedImage,
+  handlers: UploadHandlers,
+  { maxAttempts = 3, baseDelayMs = 1000 }: RetryOptions = {}
+): () => void {
+  let attempt = 0;
+  let started = false;
+  let abortCurrent: (() => void) | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const run = () => {
+    attempt += 1;
+    abortCurrent = streamComprehensiveAnalysis(url, buildImageFormData(image), {
+      ...handlers,
+      onStage: stage => {
+        started = true;
+        handlers.onStage?.(stage);
+      },
+      onRecallSource: (source, data) => {
+        started = true;
+        handlers.onRecallSource?.(source, data);
+      },
+      onError: error => {
+        if (started || attempt >= maxAttempts || !isRetryable(error)) {
+          handlers.onError(error);
+          return;
+        }
+        handlers.onRetry?.(attempt + 1, maxAttempts, error);
+        retryTimer = setTimeout(run, baseDelayMs * 2 ** (attempt - 1));
+      },
+    });
+  };
+
+  run();
+
+  return () => {
+    if (retryTimer) clearTimeout(retryTimer);
+    abortCurrent?.();
+  };
+}
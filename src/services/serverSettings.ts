@@ -0,0 +1,126 @@
+// Which analysis server the app talks to
+// The choice is either one of SERVER_PROFILES or a custom URL (for example a
+// school's own server), and is kept in AsyncStorage so it survives app restarts.
+
+import { Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const STORAGE_KEY = 'slowlook.serverSettings';
+
+export interface ServerProfile {
+  id: string;
+  name: string;
+  url: string;
+}
+
+// The staging and production URLs are placeholders: set them to your own
+// deployments before building
+export const SERVER_PROFILES: ServerProfile[] = [
+  {
+    id: 'development',
+    name: 'Development',
+    // The Android emulator reaches the host machine through 10.0.2.2
+    url: Platform.OS === 'android' ? 'http://10.0.2.2:3000' : 'http://localhost:3000',
+  },
+  { id: 'staging', name: 'Staging', url: 'https://staging.slowlook.example' },
+  { id: 'production', name: 'Production', url: 'https://api.slowlook.example' },
+];
+
+const DEFAULT_PROFILE_ID = 'development';
+
+export interface ServerSettings {
+  // A SERVER_PROFILES id, or 'custom' to use customUrl
+  profileId: string;
+  customUrl: string;
+}
+
+export interface ConnectionResult {
+  ok: boolean;
+  latencyMs?: number;
+  message: string;
+}
+
+export const DEFAULT_SERVER_SETTINGS: ServerSettings = {
+  profileId: DEFAULT_PROFILE_ID,
+  customUrl: '',
+};
+
+// Trims whitespace and trailing slashes, and adds https:// when no scheme was typed
+export function normalizeServerUrl(url: string): string {
+  const trimmed = url.trim().replace(/\/+$/, '');
+  if (!trimmed) return '';
+  return /^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+}
+
+// Why the app cannot use this server URL, or null when it can. Android release
+// builds block plain http (debug builds allow it to any host), and the request
+// would otherwise fail with no explanation.
+export function serverUrlProblem(url: string): string | null {
+  if (__DEV__ || Platform.OS !== 'android' || !/^http:\/\//i.test(url)) return null;
+  return 'Plain http:// addresses are blocked in release builds. Use an https:// server address';
+}
+
+export function resolveServerUrl(settings: ServerSettings): string {
+  if (settings.profileId === 'custom') {
+    return normalizeServerUrl(settings.customUrl);
+  }
+  const profile = SERVER_PROFILES.find(entry => entry.id === settings.profileId)
+    || SERVER_PROFILES.find(entry => entry.id === DEFAULT_PROFILE_ID)!;
+  return profile.url;
+}
+
+export async function loadServerSettings(): Promise<ServerSettings> {
+  try {
+    const stored = await AsyncStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_SERVER_SETTINGS, ...JSON.parse(stored) } : DEFAULT_SERVER_SETTINGS;
+  } catch (error) {
+    console.warn('Could not load server settings, using defaults:', error);
+    return DEFAULT_SERVER_SETTINGS;
+  }
+}
+
+export async function saveServerSettings(settings: ServerSettings): Promise<void> {
+  await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+// Base URL of the configured server, without a trailing slash
+export async function getServerUrl(): Promise<string> {
+  return resolveServerUrl(await loadServerSettings());
+}
+
+// Calls the server's /api/health endpoint, giving up after `timeoutMs`
+export async function testServerConnection(baseUrl: string, timeoutMs = 5000): Promise<ConnectionResult> {
+  if (!baseUrl) {
+    return { ok: false, message: 'Enter a server URL first' };
+  }
+  const problem = serverUrlProblem(baseUrl);
+  if (problem) {
+    return { ok: false, message: problem };
+  }
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  const startedAt = Date.now();
+
+  try {
+    const response = await fetch(`${baseUrl}/api/health`, { signal: controller.signal });
+    const latencyMs = Date.now() - startedAt;
+    if (!response.ok) {
+      return { ok: false, latencyMs, message: `Server responded with ${response.status}` };
+    }
+    const health = await response.json();
+    if (!health.ok) {
+      return { ok: false, latencyMs, message: 'Server reported a problem' };
+    }
+    return { ok: true, latencyMs, message: `Connected in ${latencyMs} ms` };
+  } catch (error) {
+    return {
+      ok: false,
+      message: controller.signal.aborted
+        ? `No response within ${timeoutMs / 1000} seconds`
+        : `Could not reach the server: ${(error as Error).message}`,
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}